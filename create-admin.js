@@ -19,17 +19,12 @@ async function createAdmin() {
         },
       });
 
-      // Create the admin record
+      // Create the admin record as a super admin, who holds every permission
       const adminRecord = await prisma.admin.create({
         data: {
           userId: user.id,
-          permissions: {
-            canManageUsers: true,
-            canManageDoctors: true,
-            canManagePatients: true,
-            canViewAnalytics: true,
-            canManageSystem: true,
-          },
+          permissions: [],
+          isSuperAdmin: true,
         },
       });
 
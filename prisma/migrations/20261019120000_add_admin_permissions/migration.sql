@@ -0,0 +1,33 @@
+-- AlterTable
+ALTER TABLE "Admin" ADD COLUMN     "isSuperAdmin" BOOLEAN NOT NULL DEFAULT false;
+
+-- Convert legacy boolean flags ({"canManageUsers": true, ...}) into permission strings
+UPDATE "Admin" a
+SET "permissions" = COALESCE((
+    SELECT jsonb_agg(DISTINCT m.permission ORDER BY m.permission)
+    FROM jsonb_each(a."permissions") AS e(key, value)
+    JOIN (VALUES
+        ('canManageUsers', 'users:read'),
+        ('canManageUsers', 'users:delete'),
+        ('canManageUsers', 'users:role'),
+        ('canManagePatients', 'users:read'),
+        ('canManageDoctors', 'users:read'),
+        ('canManageDoctors', 'doctors:verify'),
+        ('canViewAnalytics', 'stats:read'),
+        ('canManageSystem', 'security:manage')
+    ) AS m(legacy, permission) ON m.legacy = e.key
+    WHERE e.value = 'true'::jsonb
+), '[]'::jsonb)
+WHERE jsonb_typeof(a."permissions") = 'object';
+
+UPDATE "Admin" SET "permissions" = '[]'::jsonb WHERE "permissions" IS NULL;
+
+-- The longest-standing admin becomes the initial super admin
+UPDATE "Admin" SET "isSuperAdmin" = true
+WHERE "id" = (
+    SELECT a."id" FROM "Admin" a
+    JOIN "User" u ON u."id" = a."userId"
+    WHERE u."deletedAt" IS NULL
+    ORDER BY u."createdAt" ASC
+    LIMIT 1
+);
@@ -0,0 +1,36 @@
+-- AlterTable
+ALTER TABLE "Doctor" ADD COLUMN     "invitedById" TEXT;
+
+-- CreateTable
+CREATE TABLE "DoctorInvite" (
+    "id" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "specialty" TEXT NOT NULL,
+    "tokenHash" TEXT NOT NULL,
+    "invitedById" TEXT NOT NULL,
+    "doctorId" TEXT,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "acceptedAt" TIMESTAMP(3),
+    "revokedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "DoctorInvite_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DoctorInvite_tokenHash_key" ON "DoctorInvite"("tokenHash");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DoctorInvite_doctorId_key" ON "DoctorInvite"("doctorId");
+
+-- CreateIndex
+CREATE INDEX "DoctorInvite_email_idx" ON "DoctorInvite"("email");
+
+-- AddForeignKey
+ALTER TABLE "Doctor" ADD CONSTRAINT "Doctor_invitedById_fkey" FOREIGN KEY ("invitedById") REFERENCES "Admin"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DoctorInvite" ADD CONSTRAINT "DoctorInvite_invitedById_fkey" FOREIGN KEY ("invitedById") REFERENCES "Admin"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DoctorInvite" ADD CONSTRAINT "DoctorInvite_doctorId_fkey" FOREIGN KEY ("doctorId") REFERENCES "Doctor"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,69 @@
+-- CreateEnum
+CREATE TYPE "DoctorVerificationStatus" AS ENUM ('NOT_SUBMITTED', 'SUBMITTED', 'UNDER_REVIEW', 'APPROVED', 'REJECTED', 'EXPIRED');
+
+-- CreateEnum
+CREATE TYPE "CredentialDocumentType" AS ENUM ('LICENSE', 'REGISTRATION', 'OTHER');
+
+-- AlterTable
+ALTER TABLE "Doctor" ADD COLUMN     "licenseExpiresAt" TIMESTAMP(3),
+ADD COLUMN     "licenseNumber" TEXT,
+ADD COLUMN     "verificationStatus" "DoctorVerificationStatus" NOT NULL DEFAULT 'NOT_SUBMITTED',
+ADD COLUMN     "verificationSubmittedAt" TIMESTAMP(3),
+ADD COLUMN     "verifiedAt" TIMESTAMP(3);
+
+-- Doctors verified under the old boolean flag keep their approval. Their license
+-- expiry was never recorded, so they get 90 days before the expiry job moves
+-- them to EXPIRED and asks them to resubmit with a real date.
+UPDATE "Doctor"
+SET "verificationStatus" = 'APPROVED',
+    "verifiedAt" = CURRENT_TIMESTAMP,
+    "licenseExpiresAt" = CURRENT_TIMESTAMP + INTERVAL '90 days'
+WHERE "isVerified" = true;
+
+ALTER TABLE "Doctor" DROP COLUMN "isVerified";
+
+-- CreateTable
+CREATE TABLE "DoctorCredential" (
+    "id" TEXT NOT NULL,
+    "doctorId" TEXT NOT NULL,
+    "type" "CredentialDocumentType" NOT NULL,
+    "filename" TEXT NOT NULL,
+    "fileUrl" TEXT NOT NULL,
+    "mimeType" TEXT NOT NULL,
+    "fileSize" INTEGER NOT NULL,
+    "uploadedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "DoctorCredential_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "DoctorVerificationReview" (
+    "id" TEXT NOT NULL,
+    "doctorId" TEXT NOT NULL,
+    "reviewerId" TEXT,
+    "fromStatus" "DoctorVerificationStatus" NOT NULL,
+    "toStatus" "DoctorVerificationStatus" NOT NULL,
+    "notes" TEXT,
+    "rejectionReason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "DoctorVerificationReview_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Doctor_verificationStatus_licenseExpiresAt_idx" ON "Doctor"("verificationStatus", "licenseExpiresAt");
+
+-- CreateIndex
+CREATE INDEX "DoctorCredential_doctorId_idx" ON "DoctorCredential"("doctorId");
+
+-- CreateIndex
+CREATE INDEX "DoctorVerificationReview_doctorId_createdAt_idx" ON "DoctorVerificationReview"("doctorId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "DoctorCredential" ADD CONSTRAINT "DoctorCredential_doctorId_fkey" FOREIGN KEY ("doctorId") REFERENCES "Doctor"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DoctorVerificationReview" ADD CONSTRAINT "DoctorVerificationReview_doctorId_fkey" FOREIGN KEY ("doctorId") REFERENCES "Doctor"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DoctorVerificationReview" ADD CONSTRAINT "DoctorVerificationReview_reviewerId_fkey" FOREIGN KEY ("reviewerId") REFERENCES "Admin"("id") ON DELETE SET NULL ON UPDATE CASCADE;
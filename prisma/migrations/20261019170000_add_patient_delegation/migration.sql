@@ -0,0 +1,47 @@
+-- CreateEnum
+CREATE TYPE "DelegateScope" AS ENUM ('VIEW_APPOINTMENTS', 'BOOK_APPOINTMENTS', 'VIEW_PRESCRIPTIONS', 'VIEW_REPORTS');
+
+-- CreateTable
+CREATE TABLE "PatientDelegate" (
+    "id" TEXT NOT NULL,
+    "patientId" TEXT NOT NULL,
+    "delegateUserId" TEXT NOT NULL,
+    "scopes" "DelegateScope"[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "revokedAt" TIMESTAMP(3),
+
+    CONSTRAINT "PatientDelegate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "DelegationAuditLog" (
+    "id" TEXT NOT NULL,
+    "delegationId" TEXT NOT NULL,
+    "actorUserId" TEXT NOT NULL,
+    "patientId" TEXT NOT NULL,
+    "method" TEXT NOT NULL,
+    "path" TEXT NOT NULL,
+    "statusCode" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "DelegationAuditLog_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PatientDelegate_patientId_delegateUserId_key" ON "PatientDelegate"("patientId", "delegateUserId");
+
+-- CreateIndex
+CREATE INDEX "PatientDelegate_delegateUserId_idx" ON "PatientDelegate"("delegateUserId");
+
+-- CreateIndex
+CREATE INDEX "DelegationAuditLog_patientId_createdAt_idx" ON "DelegationAuditLog"("patientId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "PatientDelegate" ADD CONSTRAINT "PatientDelegate_patientId_fkey" FOREIGN KEY ("patientId") REFERENCES "Patient"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PatientDelegate" ADD CONSTRAINT "PatientDelegate_delegateUserId_fkey" FOREIGN KEY ("delegateUserId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DelegationAuditLog" ADD CONSTRAINT "DelegationAuditLog_delegationId_fkey" FOREIGN KEY ("delegationId") REFERENCES "PatientDelegate"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,52 @@
+-- AlterTable
+ALTER TABLE "TimeSlot" ADD COLUMN     "availabilityRuleId" TEXT;
+
+-- CreateTable
+CREATE TABLE "AvailabilityRule" (
+    "id" TEXT NOT NULL,
+    "doctorId" TEXT NOT NULL,
+    "daysOfWeek" INTEGER[],
+    "startTime" TEXT NOT NULL,
+    "endTime" TEXT NOT NULL,
+    "slotDurationMinutes" INTEGER NOT NULL,
+    "consultationFee" INTEGER DEFAULT 0,
+    "validFrom" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "validUntil" TIMESTAMP(3),
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "AvailabilityRule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "AvailabilityException" (
+    "id" TEXT NOT NULL,
+    "doctorId" TEXT NOT NULL,
+    "ruleId" TEXT,
+    "date" TIMESTAMP(3) NOT NULL,
+    "startTime" TEXT,
+    "endTime" TEXT,
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AvailabilityException_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AvailabilityRule_doctorId_isActive_idx" ON "AvailabilityRule"("doctorId", "isActive");
+
+-- CreateIndex
+CREATE INDEX "AvailabilityException_doctorId_date_idx" ON "AvailabilityException"("doctorId", "date");
+
+-- AddForeignKey
+ALTER TABLE "TimeSlot" ADD CONSTRAINT "TimeSlot_availabilityRuleId_fkey" FOREIGN KEY ("availabilityRuleId") REFERENCES "AvailabilityRule"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AvailabilityRule" ADD CONSTRAINT "AvailabilityRule_doctorId_fkey" FOREIGN KEY ("doctorId") REFERENCES "Doctor"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AvailabilityException" ADD CONSTRAINT "AvailabilityException_doctorId_fkey" FOREIGN KEY ("doctorId") REFERENCES "Doctor"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AvailabilityException" ADD CONSTRAINT "AvailabilityException_ruleId_fkey" FOREIGN KEY ("ruleId") REFERENCES "AvailabilityRule"("id") ON DELETE CASCADE ON UPDATE CASCADE;
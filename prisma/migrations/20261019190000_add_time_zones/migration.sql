@@ -0,0 +1,29 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "timeZone" TEXT NOT NULL DEFAULT 'UTC';
+
+-- AlterTable
+ALTER TABLE "Appointment" ADD COLUMN     "scheduledAt" TIMESTAMP(3);
+
+-- Slot bookings already carry the exact instant
+UPDATE "Appointment" a
+SET "scheduledAt" = t."startTime"
+FROM "TimeSlot" t
+WHERE a."timeSlotId" = t."id";
+
+-- Direct bookings only have a date and an HH:mm string; every existing user is on UTC
+UPDATE "Appointment"
+SET "scheduledAt" = date_trunc('day', "date") + CAST("time" AS TIME)
+WHERE "scheduledAt" IS NULL;
+
+ALTER TABLE "Appointment" ALTER COLUMN "scheduledAt" SET NOT NULL;
+
+-- Availability rule dates become plain calendar dates (UTC midnight)
+UPDATE "AvailabilityRule"
+SET "validFrom" = date_trunc('day', "validFrom"),
+    "validUntil" = date_trunc('day', "validUntil");
+
+UPDATE "AvailabilityException"
+SET "date" = date_trunc('day', "date");
+
+-- CreateIndex
+CREATE INDEX "Appointment_doctorId_scheduledAt_idx" ON "Appointment"("doctorId", "scheduledAt");
@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "DoctorBlackout" (
+    "id" TEXT NOT NULL,
+    "doctorId" TEXT NOT NULL,
+    "startsAt" TIMESTAMP(3) NOT NULL,
+    "endsAt" TIMESTAMP(3) NOT NULL,
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "DoctorBlackout_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "DoctorBlackout_doctorId_startsAt_endsAt_idx" ON "DoctorBlackout"("doctorId", "startsAt", "endsAt");
+
+-- AddForeignKey
+ALTER TABLE "DoctorBlackout" ADD CONSTRAINT "DoctorBlackout_doctorId_fkey" FOREIGN KEY ("doctorId") REFERENCES "Doctor"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,43 @@
+-- CreateEnum
+CREATE TYPE "RescheduleProposalStatus" AS ENUM ('PENDING', 'ACCEPTED', 'DECLINED', 'WITHDRAWN', 'SUPERSEDED');
+
+-- CreateTable
+CREATE TABLE "RescheduleProposal" (
+    "id" TEXT NOT NULL,
+    "appointmentId" TEXT NOT NULL,
+    "proposedBy" "Role" NOT NULL,
+    "proposedByUserId" TEXT NOT NULL,
+    "message" TEXT,
+    "status" "RescheduleProposalStatus" NOT NULL DEFAULT 'PENDING',
+    "previousScheduledAt" TIMESTAMP(3) NOT NULL,
+    "respondedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "RescheduleProposal_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "RescheduleOption" (
+    "id" TEXT NOT NULL,
+    "proposalId" TEXT NOT NULL,
+    "timeSlotId" TEXT,
+    "scheduledAt" TIMESTAMP(3) NOT NULL,
+    "acceptedAt" TIMESTAMP(3),
+
+    CONSTRAINT "RescheduleOption_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "RescheduleProposal_appointmentId_status_idx" ON "RescheduleProposal"("appointmentId", "status");
+
+-- CreateIndex
+CREATE INDEX "RescheduleOption_proposalId_idx" ON "RescheduleOption"("proposalId");
+
+-- AddForeignKey
+ALTER TABLE "RescheduleProposal" ADD CONSTRAINT "RescheduleProposal_appointmentId_fkey" FOREIGN KEY ("appointmentId") REFERENCES "Appointment"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RescheduleOption" ADD CONSTRAINT "RescheduleOption_proposalId_fkey" FOREIGN KEY ("proposalId") REFERENCES "RescheduleProposal"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RescheduleOption" ADD CONSTRAINT "RescheduleOption_timeSlotId_fkey" FOREIGN KEY ("timeSlotId") REFERENCES "TimeSlot"("id") ON DELETE SET NULL ON UPDATE CASCADE;
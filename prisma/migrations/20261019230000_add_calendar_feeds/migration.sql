@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "calendarFeedTokenHash" TEXT;
+
+-- AlterTable
+ALTER TABLE "Appointment" ADD COLUMN "icsSequence" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "User_calendarFeedTokenHash_key" ON "User"("calendarFeedTokenHash");
@@ -0,0 +1,14 @@
+-- Single occupancy per doctor and time, enforced by the database so concurrent
+-- bookings can't both succeed. Only active (PENDING/CONFIRMED) appointments take
+-- part; cancelled and rejected ones keep their rows as history.
+-- Existing double bookings must be resolved before this migration can apply.
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Appointment_doctorId_scheduledAt_active_key"
+    ON "Appointment"("doctorId", "scheduledAt")
+    WHERE "status" IN ('PENDING', 'CONFIRMED');
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Appointment_timeSlotId_active_key"
+    ON "Appointment"("timeSlotId")
+    WHERE "timeSlotId" IS NOT NULL AND "status" IN ('PENDING', 'CONFIRMED');
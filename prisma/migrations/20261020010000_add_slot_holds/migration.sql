@@ -0,0 +1,12 @@
+-- AlterEnum
+ALTER TYPE "TimeSlotStatus" ADD VALUE 'HELD';
+
+-- AlterTable
+ALTER TABLE "TimeSlot" ADD COLUMN "holdPatientId" TEXT,
+ADD COLUMN "holdExpiresAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "TimeSlot_status_holdExpiresAt_idx" ON "TimeSlot"("status", "holdExpiresAt");
+
+-- AddForeignKey
+ALTER TABLE "TimeSlot" ADD CONSTRAINT "TimeSlot_holdPatientId_fkey" FOREIGN KEY ("holdPatientId") REFERENCES "Patient"("id") ON DELETE SET NULL ON UPDATE CASCADE;
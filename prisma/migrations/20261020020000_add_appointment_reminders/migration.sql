@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "AppointmentReminder" (
+    "id" TEXT NOT NULL,
+    "appointmentId" TEXT NOT NULL,
+    "offsetMinutes" INTEGER NOT NULL,
+    "scheduledAt" TIMESTAMP(3) NOT NULL,
+    "sentAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AppointmentReminder_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AppointmentReminder_appointmentId_offsetMinutes_scheduledAt_key" ON "AppointmentReminder"("appointmentId", "offsetMinutes", "scheduledAt");
+
+-- AddForeignKey
+ALTER TABLE "AppointmentReminder" ADD CONSTRAINT "AppointmentReminder_appointmentId_fkey" FOREIGN KEY ("appointmentId") REFERENCES "Appointment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,8 @@
+-- AlterEnum
+ALTER TYPE "AppointmentStatus" ADD VALUE 'NO_SHOW';
+
+-- AlterTable
+ALTER TABLE "Appointment" ADD COLUMN     "outcomeRequestedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "Appointment_patientId_status_scheduledAt_idx" ON "Appointment"("patientId", "status", "scheduledAt");
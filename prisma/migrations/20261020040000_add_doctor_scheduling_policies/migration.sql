@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "DoctorSchedulingPolicy" (
+    "id" TEXT NOT NULL,
+    "doctorId" TEXT NOT NULL,
+    "bufferMinutes" INTEGER NOT NULL DEFAULT 0,
+    "maxAppointmentsPerDay" INTEGER,
+    "minNoticeMinutes" INTEGER NOT NULL DEFAULT 0,
+    "workdayStart" TEXT,
+    "workdayEnd" TEXT,
+    "workingDays" INTEGER[] DEFAULT ARRAY[]::INTEGER[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "DoctorSchedulingPolicy_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DoctorSchedulingPolicy_doctorId_key" ON "DoctorSchedulingPolicy"("doctorId");
+
+-- AddForeignKey
+ALTER TABLE "DoctorSchedulingPolicy" ADD CONSTRAINT "DoctorSchedulingPolicy_doctorId_fkey" FOREIGN KEY ("doctorId") REFERENCES "Doctor"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,83 @@
+-- CreateTable
+CREATE TABLE "Clinic" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "addressLine1" TEXT NOT NULL,
+    "addressLine2" TEXT,
+    "city" TEXT NOT NULL,
+    "state" TEXT,
+    "postalCode" TEXT,
+    "country" TEXT NOT NULL,
+    "phone" TEXT,
+    "email" TEXT,
+    "website" TEXT,
+    "timeZone" TEXT NOT NULL DEFAULT 'UTC',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Clinic_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ClinicOpeningHours" (
+    "id" TEXT NOT NULL,
+    "clinicId" TEXT NOT NULL,
+    "dayOfWeek" INTEGER NOT NULL,
+    "opensAt" TEXT NOT NULL,
+    "closesAt" TEXT NOT NULL,
+
+    CONSTRAINT "ClinicOpeningHours_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ClinicMembership" (
+    "id" TEXT NOT NULL,
+    "clinicId" TEXT NOT NULL,
+    "doctorId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ClinicMembership_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ClinicAdmin" (
+    "id" TEXT NOT NULL,
+    "clinicId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ClinicAdmin_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Clinic_city_idx" ON "Clinic"("city");
+
+-- CreateIndex
+CREATE INDEX "ClinicOpeningHours_clinicId_dayOfWeek_idx" ON "ClinicOpeningHours"("clinicId", "dayOfWeek");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ClinicMembership_clinicId_doctorId_key" ON "ClinicMembership"("clinicId", "doctorId");
+
+-- CreateIndex
+CREATE INDEX "ClinicMembership_doctorId_idx" ON "ClinicMembership"("doctorId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ClinicAdmin_clinicId_userId_key" ON "ClinicAdmin"("clinicId", "userId");
+
+-- CreateIndex
+CREATE INDEX "ClinicAdmin_userId_idx" ON "ClinicAdmin"("userId");
+
+-- AddForeignKey
+ALTER TABLE "ClinicOpeningHours" ADD CONSTRAINT "ClinicOpeningHours_clinicId_fkey" FOREIGN KEY ("clinicId") REFERENCES "Clinic"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ClinicMembership" ADD CONSTRAINT "ClinicMembership_clinicId_fkey" FOREIGN KEY ("clinicId") REFERENCES "Clinic"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ClinicMembership" ADD CONSTRAINT "ClinicMembership_doctorId_fkey" FOREIGN KEY ("doctorId") REFERENCES "Doctor"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ClinicAdmin" ADD CONSTRAINT "ClinicAdmin_clinicId_fkey" FOREIGN KEY ("clinicId") REFERENCES "Clinic"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ClinicAdmin" ADD CONSTRAINT "ClinicAdmin_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
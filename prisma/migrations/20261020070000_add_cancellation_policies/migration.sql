@@ -0,0 +1,26 @@
+-- AlterTable
+ALTER TABLE "Appointment" ADD COLUMN     "cancellationFee" INTEGER,
+ADD COLUMN     "cancelledAt" TIMESTAMP(3),
+ADD COLUMN     "cancelledBy" "Role";
+
+-- CreateTable
+CREATE TABLE "DoctorCancellationPolicy" (
+    "id" TEXT NOT NULL,
+    "doctorId" TEXT NOT NULL,
+    "freeCancelMinutes" INTEGER NOT NULL DEFAULT 0,
+    "lateCancelFeePercent" INTEGER NOT NULL DEFAULT 0,
+    "maxCancellationsPerMonth" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "DoctorCancellationPolicy_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Appointment_patientId_doctorId_cancelledAt_idx" ON "Appointment"("patientId", "doctorId", "cancelledAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DoctorCancellationPolicy_doctorId_key" ON "DoctorCancellationPolicy"("doctorId");
+
+-- AddForeignKey
+ALTER TABLE "DoctorCancellationPolicy" ADD CONSTRAINT "DoctorCancellationPolicy_doctorId_fkey" FOREIGN KEY ("doctorId") REFERENCES "Doctor"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,4 @@
+-- AlterTable
+-- Existing memberships were made without the doctor's consent, so they start
+-- out as pending invitations the doctor has to accept.
+ALTER TABLE "ClinicMembership" ADD COLUMN     "acceptedAt" TIMESTAMP(3);
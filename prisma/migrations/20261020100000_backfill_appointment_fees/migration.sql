@@ -0,0 +1,8 @@
+-- Bookings used to leave Appointment.consultationFee at its default of 0; copy
+-- the fee of the booked slot onto upcoming appointments so they can be paid for
+UPDATE "Appointment" AS a
+SET "consultationFee" = s."consultationFee"
+FROM "TimeSlot" AS s
+WHERE a."timeSlotId" = s."id"
+  AND COALESCE(a."consultationFee", 0) = 0
+  AND a."status" IN ('PENDING', 'CONFIRMED');
@@ -1,21 +1,43 @@
 import { Router } from "express";
 import {
     listAllUsers,
-    verifyDoctor,
+    getVerificationQueue,
+    getDoctorVerification,
+    reviewDoctorVerification,
     getDashboardStats,
     softDeleteUser,
     changeUserRole,
+    unlockUser,
+    getTwoFactorPolicies,
+    updateTwoFactorPolicy,
+    listAdmins,
+    updateAdminPermissions,
+    createDoctorInvite,
+    listDoctorInvites,
+    revokeDoctorInvite,
 } from "../controllers/admin.controller";
-import { isAdmin } from "../utils/helper";
 import { isAuthenticated } from "../middlewares/auth.middleware";
+import { requirePermission, isSuperAdmin } from "../middlewares/permission.middleware";
 
 const router = Router();
 
-// All admin routes require authentication + admin role
-router.get("/users", isAuthenticated, isAdmin, listAllUsers);
-router.patch("/verify-doctor/:doctorUserId", isAuthenticated, isAdmin, verifyDoctor);
-router.get("/dashboard-stats", isAuthenticated, isAdmin, getDashboardStats);
-router.delete("/users/:userId", isAuthenticated, isAdmin, softDeleteUser);
-router.patch("/users/:userId/role", isAuthenticated, isAdmin, changeUserRole);
+// All admin routes require authentication + the matching admin permission
+router.get("/users", isAuthenticated, requirePermission("users:read"), listAllUsers);
+router.get("/verification-queue", isAuthenticated, requirePermission("doctors:verify"), getVerificationQueue);
+router.get("/doctors/:doctorUserId/verification", isAuthenticated, requirePermission("doctors:verify"), getDoctorVerification);
+router.patch("/doctors/:doctorUserId/verification", isAuthenticated, requirePermission("doctors:verify"), reviewDoctorVerification);
+router.get("/dashboard-stats", isAuthenticated, requirePermission("stats:read"), getDashboardStats);
+router.delete("/users/:userId", isAuthenticated, requirePermission("users:delete"), softDeleteUser);
+router.patch("/users/:userId/role", isAuthenticated, requirePermission("users:role"), changeUserRole);
+router.post("/users/:userId/unlock", isAuthenticated, requirePermission("users:unlock"), unlockUser);
+router.post("/doctor-invites", isAuthenticated, requirePermission("doctors:invite"), createDoctorInvite);
+router.get("/doctor-invites", isAuthenticated, requirePermission("doctors:invite"), listDoctorInvites);
+router.delete("/doctor-invites/:inviteId", isAuthenticated, requirePermission("doctors:invite"), revokeDoctorInvite);
+router.get("/two-factor-policies", isAuthenticated, requirePermission("security:manage"), getTwoFactorPolicies);
+router.put("/two-factor-policies/:role", isAuthenticated, requirePermission("security:manage"), updateTwoFactorPolicy);
+
+// Permission management is reserved for super admins
+router.get("/admins", isAuthenticated, isSuperAdmin, listAdmins);
+router.patch("/admins/:userId/permissions", isAuthenticated, isSuperAdmin, updateAdminPermissions);
 
 export default router;
@@ -0,0 +1,18 @@
+import { Router } from "express";
+import { isAuthenticated } from "../middlewares/auth.middleware";
+import {
+  rotateCalendarFeedToken,
+  revokeCalendarFeedToken,
+  getCalendarFeed,
+} from "../controllers/calendar.controller";
+
+const router = Router();
+
+// Manage the secret subscription URL of the logged-in user's appointment feed
+router.post("/feed-token", isAuthenticated, rotateCalendarFeedToken);
+router.delete("/feed-token", isAuthenticated, revokeCalendarFeedToken);
+
+// Polled by calendar apps; authenticated by the token in the URL
+router.get("/feed/:token", getCalendarFeed);
+
+export default router;
@@ -0,0 +1,76 @@
+import { Router } from "express";
+import { isAuthenticated } from "../middlewares/auth.middleware";
+import { requirePermission } from "../middlewares/permission.middleware";
+import { actAsClinicDoctor, clinicAdminAccess } from "../middlewares/clinic.middleware";
+import {
+  createClinic,
+  listClinics,
+  getClinic,
+  getClinicAvailability,
+  getManagedClinics,
+  updateClinic,
+  setClinicOpeningHours,
+  addClinicDoctor,
+  removeClinicDoctor,
+  addClinicAdmin,
+  removeClinicAdmin,
+} from "../controllers/clinic.controller";
+import {
+  addTimeslot,
+  generateBulkTimeSlots,
+  viewTimeslots,
+  createAvailabilityRule,
+  listAvailabilityRules,
+  updateAvailabilityRule,
+  deleteAvailabilityRule,
+  createAvailabilityException,
+  deleteAvailabilityException,
+  getMySchedulingPolicy,
+  updateSchedulingPolicy,
+  getMyCancellationPolicy,
+  updateCancellationPolicy,
+} from "../controllers/doctor.controller";
+import { createBlackout, listBlackouts, deleteBlackout } from "../controllers/blackout.controller";
+
+const router = Router();
+
+// Site admins create clinics and appoint their admins
+router.post("/", isAuthenticated, requirePermission("clinics:manage"), createClinic);
+router.post("/:clinicId/admins", isAuthenticated, requirePermission("clinics:manage"), addClinicAdmin);
+router.delete("/:clinicId/admins/:userId", isAuthenticated, requirePermission("clinics:manage"), removeClinicAdmin);
+
+// Clinic pages
+router.get("/", isAuthenticated, listClinics);
+router.get("/managed", isAuthenticated, getManagedClinics);
+router.get("/:clinicId", isAuthenticated, getClinic);
+router.get("/:clinicId/availability", isAuthenticated, getClinicAvailability);
+
+// Clinic admins: details, opening hours and membership
+router.patch("/:clinicId", isAuthenticated, clinicAdminAccess, updateClinic);
+router.put("/:clinicId/opening-hours", isAuthenticated, clinicAdminAccess, setClinicOpeningHours);
+router.post("/:clinicId/doctors", isAuthenticated, clinicAdminAccess, addClinicDoctor);
+router.delete("/:clinicId/doctors/:doctorId", isAuthenticated, clinicAdminAccess, removeClinicDoctor);
+
+// Clinic admins managing a member doctor's schedule, through the doctor's own
+// handlers acting as that doctor
+const asDoctor = [isAuthenticated, clinicAdminAccess, actAsClinicDoctor];
+const schedule = "/:clinicId/doctors/:doctorId";
+
+router.post(`${schedule}/timeslots`, ...asDoctor, addTimeslot);
+router.post(`${schedule}/timeslots/bulk`, ...asDoctor, generateBulkTimeSlots);
+router.get(`${schedule}/timeslots`, ...asDoctor, viewTimeslots);
+router.post(`${schedule}/availability-rules`, ...asDoctor, createAvailabilityRule);
+router.get(`${schedule}/availability-rules`, ...asDoctor, listAvailabilityRules);
+router.patch(`${schedule}/availability-rules/:ruleId`, ...asDoctor, updateAvailabilityRule);
+router.delete(`${schedule}/availability-rules/:ruleId`, ...asDoctor, deleteAvailabilityRule);
+router.post(`${schedule}/availability-exceptions`, ...asDoctor, createAvailabilityException);
+router.delete(`${schedule}/availability-exceptions/:exceptionId`, ...asDoctor, deleteAvailabilityException);
+router.post(`${schedule}/blackouts`, ...asDoctor, createBlackout);
+router.get(`${schedule}/blackouts`, ...asDoctor, listBlackouts);
+router.delete(`${schedule}/blackouts/:blackoutId`, ...asDoctor, deleteBlackout);
+router.get(`${schedule}/scheduling-policy`, ...asDoctor, getMySchedulingPolicy);
+router.put(`${schedule}/scheduling-policy`, ...asDoctor, updateSchedulingPolicy);
+router.get(`${schedule}/cancellation-policy`, ...asDoctor, getMyCancellationPolicy);
+router.put(`${schedule}/cancellation-policy`, ...asDoctor, updateCancellationPolicy);
+
+export default router;
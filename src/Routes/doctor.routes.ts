@@ -17,10 +17,44 @@ import {
   markNotificationAsRead,
   addPrescriptionToAppointment,
   markAppointmentCompleted,
+  markAppointmentNoShow,
+  getAppointmentsAwaitingOutcome,
   generateBulkTimeSlots,
+  uploadCredential,
+  getVerificationStatus,
+  submitForVerification,
+  createAvailabilityRule,
+  listAvailabilityRules,
+  updateAvailabilityRule,
+  deleteAvailabilityRule,
+  createAvailabilityException,
+  deleteAvailabilityException,
+  getMySchedulingPolicy,
+  updateSchedulingPolicy,
+  getMyCancellationPolicy,
+  updateCancellationPolicy,
 } from "../controllers/doctor.controller";
+import {
+  createBlackout,
+  listBlackouts,
+  deleteBlackout,
+  getBlackoutAffectedAppointments,
+  cancelBlackoutAppointments,
+  rescheduleBlackoutAppointments,
+} from "../controllers/blackout.controller";
+import { getDoctorWaitlist } from "../controllers/waitlist.controller";
+import {
+  proposeReschedule,
+  listRescheduleProposals,
+  acceptRescheduleProposal,
+  declineRescheduleProposal,
+  withdrawRescheduleProposal,
+} from "../controllers/reschedule.controller";
+import { getAppointmentStatusHistory } from "../controllers/appointment.controller";
+import { getMyClinicMemberships, acceptClinicInvitation, leaveClinic } from "../controllers/clinic.controller";
 import { isDoctor } from "../utils/helper";
 import { isAuthenticated } from "../middlewares/auth.middleware";
+import { credentialUpload } from "../middlewares/upload";
 
 const router = Router();
 
@@ -28,6 +62,83 @@ router.post("/add-timeslot", isAuthenticated, isDoctor, addTimeslot);
 router.post("/timeslots/bulk", isAuthenticated, isDoctor, generateBulkTimeSlots);
 router.get("/view-timeslots", isAuthenticated, isDoctor, viewTimeslots);
 
+// Recurring weekly availability; slots are only stored once booked
+router.post("/availability-rules", isAuthenticated, isDoctor, createAvailabilityRule);
+router.get("/availability-rules", isAuthenticated, isDoctor, listAvailabilityRules);
+router.patch("/availability-rules/:ruleId", isAuthenticated, isDoctor, updateAvailabilityRule);
+router.delete("/availability-rules/:ruleId", isAuthenticated, isDoctor, deleteAvailabilityRule);
+router.post("/availability-exceptions", isAuthenticated, isDoctor, createAvailabilityException);
+router.delete(
+  "/availability-exceptions/:exceptionId",
+  isAuthenticated,
+  isDoctor,
+  deleteAvailabilityException
+);
+
+// Buffer time, daily cap, minimum notice and working hours for all bookings
+router.get("/scheduling-policy", isAuthenticated, isDoctor, getMySchedulingPolicy);
+router.put("/scheduling-policy", isAuthenticated, isDoctor, updateSchedulingPolicy);
+
+// Free-cancel window, late-cancellation fee and monthly limit for patient cancellations
+router.get("/cancellation-policy", isAuthenticated, isDoctor, getMyCancellationPolicy);
+router.put("/cancellation-policy", isAuthenticated, isDoctor, updateCancellationPolicy);
+
+// Clinic invitations: accepting one lets that clinic's admins manage the schedule
+router.get("/clinics", isAuthenticated, isDoctor, getMyClinicMemberships);
+router.post("/clinics/:clinicId/accept", isAuthenticated, isDoctor, acceptClinicInvitation);
+router.delete("/clinics/:clinicId", isAuthenticated, isDoctor, leaveClinic);
+
+// Leave and holiday blackouts, with bulk handling of the appointments inside them
+router.post("/blackouts", isAuthenticated, isDoctor, createBlackout);
+router.get("/blackouts", isAuthenticated, isDoctor, listBlackouts);
+router.delete("/blackouts/:blackoutId", isAuthenticated, isDoctor, deleteBlackout);
+router.get(
+  "/blackouts/:blackoutId/appointments",
+  isAuthenticated,
+  isDoctor,
+  getBlackoutAffectedAppointments
+);
+router.post(
+  "/blackouts/:blackoutId/appointments/cancel",
+  isAuthenticated,
+  isDoctor,
+  cancelBlackoutAppointments
+);
+router.post(
+  "/blackouts/:blackoutId/appointments/reschedule",
+  isAuthenticated,
+  isDoctor,
+  rescheduleBlackoutAppointments
+);
+
+// Patients waiting for a freed slot, in the order they will be offered one
+router.get("/waitlist", isAuthenticated, isDoctor, getDoctorWaitlist);
+
+// Rescheduling: either side proposes new times, the other accepts one of them
+router.post(
+  "/appointments/:appointmentId/reschedule-proposals",
+  isAuthenticated,
+  isDoctor,
+  proposeReschedule
+);
+router.get(
+  "/appointments/:appointmentId/reschedule-proposals",
+  isAuthenticated,
+  isDoctor,
+  listRescheduleProposals
+);
+router.post("/reschedule-proposals/:proposalId/accept", isAuthenticated, isDoctor, acceptRescheduleProposal);
+router.post("/reschedule-proposals/:proposalId/decline", isAuthenticated, isDoctor, declineRescheduleProposal);
+router.delete("/reschedule-proposals/:proposalId", isAuthenticated, isDoctor, withdrawRescheduleProposal);
+
+// Every status change of an appointment, with who made it and why
+router.get(
+  "/appointments/:appointmentId/status-history",
+  isAuthenticated,
+  isDoctor,
+  getAppointmentStatusHistory
+);
+
 router.get("/appointments", isAuthenticated, isDoctor, viewDoctorAppointment);
 router.patch(
   "/appointments/:id",
@@ -86,7 +197,7 @@ router.patch(
   respondToAppointmentRequest
 );
 
-// Prescription and completion routes
+// Prescription, completion and no-show routes
 router.post(
   "/appointments/:appointmentId/prescription",
   isAuthenticated,
@@ -99,6 +210,18 @@ router.patch(
   isDoctor,
   markAppointmentCompleted
 );
+router.patch(
+  "/appointments/:appointmentId/no-show",
+  isAuthenticated,
+  isDoctor,
+  markAppointmentNoShow
+);
+router.get(
+  "/appointments/awaiting-outcome",
+  isAuthenticated,
+  isDoctor,
+  getAppointmentsAwaitingOutcome
+);
 
 // Notification routes
 router.get(
@@ -115,4 +238,20 @@ router.patch(
   markNotificationAsRead
 );
 
+// Credential verification
+router.post(
+  "/credentials",
+  isAuthenticated,
+  isDoctor,
+  credentialUpload.single("document"),
+  uploadCredential
+);
+router.get("/verification", isAuthenticated, isDoctor, getVerificationStatus);
+router.post(
+  "/verification/submit",
+  isAuthenticated,
+  isDoctor,
+  submitForVerification
+);
+
 export default router;
@@ -9,6 +9,9 @@ import reportRoutes from "./report.routes";
 import analyticsRoutes from "./analytics.routes";
 import adminRoutes from "./admin.routes";
 import symptomRoutes from "./symptom.routes";
+import calendarRoutes from "./calendar.routes";
+import clinicRoutes from "./clinic.routes";
+import paymentRoutes from "./payment.routes";
 
 const router = express.Router();
 
@@ -22,5 +25,8 @@ router.use("/report", reportRoutes);
 router.use("/analytics", analyticsRoutes);
 router.use("/admin", adminRoutes);
 router.use("/symptom", symptomRoutes);
+router.use("/calendar", calendarRoutes);
+router.use("/clinics", clinicRoutes);
+router.use("/payments", paymentRoutes);
 
 export default router;
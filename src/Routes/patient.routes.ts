@@ -15,45 +15,138 @@ import {
   getPatientNotifications,
   markNotificationAsRead,
   markAllNotificationsAsRead,
+  exportHealthRecord,
 } from "../controllers/patient.controller";
+import {
+  grantDelegate,
+  listDelegates,
+  updateDelegateScopes,
+  revokeDelegate,
+  getDelegationAuditLog,
+} from "../controllers/delegation.controller";
+import {
+  joinWaitlist,
+  getMyWaitlist,
+  leaveWaitlist,
+  claimWaitlistOffer,
+  declineWaitlistOffer,
+} from "../controllers/waitlist.controller";
+import {
+  proposeReschedule,
+  listRescheduleProposals,
+  acceptRescheduleProposal,
+  declineRescheduleProposal,
+  withdrawRescheduleProposal,
+} from "../controllers/reschedule.controller";
+import { holdTimeSlot, releaseSlotHold } from "../controllers/slotHold.controller";
+import { getAppointmentStatusHistory } from "../controllers/appointment.controller";
+import { payForAppointment, getMyInvoices, invoiceReceipt } from "../controllers/payment.controller";
 import { isAuthenticated } from "../middlewares/auth.middleware";
+import { patientAccess } from "../middlewares/delegation.middleware";
 import { isPatient } from "../utils/helper";
+import { DelegateScope } from "@prisma/client";
 
 const router = express.Router();
 
-router.get("/search-doctors", isAuthenticated, isPatient, searchDoctors);
+router.get("/search-doctors", isAuthenticated, patientAccess(DelegateScope.BOOK_APPOINTMENTS), searchDoctors);
 router.get(
   "/:doctorId/timeSlots",
   isAuthenticated,
-  isPatient,
+  patientAccess(DelegateScope.BOOK_APPOINTMENTS),
   availableTimeSlots
 );
-router.post("/book-appointment", isAuthenticated, isPatient, bookAppointment);
+router.post("/book-appointment", isAuthenticated, patientAccess(DelegateScope.BOOK_APPOINTMENTS), bookAppointment);
+
+// Hold a slot while finishing the booking; book-appointment with the same
+// timeSlotId turns the hold into an appointment
+router.post("/slot-holds", isAuthenticated, patientAccess(DelegateScope.BOOK_APPOINTMENTS), holdTimeSlot);
+router.delete(
+  "/slot-holds/:timeSlotId",
+  isAuthenticated,
+  patientAccess(DelegateScope.BOOK_APPOINTMENTS),
+  releaseSlotHold
+);
 
 router.get(
   "/upcoming-appointments",
   isAuthenticated,
-  isPatient,
+  patientAccess(DelegateScope.VIEW_APPOINTMENTS),
   getUpcomingAppointments
 );
 router.get(
   "/past-appointments",
   isAuthenticated,
-  isPatient,
+  patientAccess(DelegateScope.VIEW_APPOINTMENTS),
   getPastAppointments
 );
 
 router.patch(
   "/cancel-appointment/:appointmentId",
   isAuthenticated,
-  isPatient,
+  patientAccess(DelegateScope.BOOK_APPOINTMENTS),
   cancelAppointment as any
 );
 
+// Rescheduling: either side proposes new times, the other accepts one of them
+router.post(
+  "/appointments/:appointmentId/reschedule-proposals",
+  isAuthenticated,
+  patientAccess(DelegateScope.BOOK_APPOINTMENTS),
+  proposeReschedule
+);
+router.get(
+  "/appointments/:appointmentId/reschedule-proposals",
+  isAuthenticated,
+  patientAccess(DelegateScope.VIEW_APPOINTMENTS),
+  listRescheduleProposals
+);
+router.post(
+  "/reschedule-proposals/:proposalId/accept",
+  isAuthenticated,
+  patientAccess(DelegateScope.BOOK_APPOINTMENTS),
+  acceptRescheduleProposal
+);
+router.post(
+  "/reschedule-proposals/:proposalId/decline",
+  isAuthenticated,
+  patientAccess(DelegateScope.BOOK_APPOINTMENTS),
+  declineRescheduleProposal
+);
+router.delete(
+  "/reschedule-proposals/:proposalId",
+  isAuthenticated,
+  patientAccess(DelegateScope.BOOK_APPOINTMENTS),
+  withdrawRescheduleProposal
+);
+
+// Every status change of an appointment, with who made it and why
+router.get(
+  "/appointments/:appointmentId/status-history",
+  isAuthenticated,
+  patientAccess(DelegateScope.VIEW_APPOINTMENTS),
+  getAppointmentStatusHistory
+);
+
+// Consultation payments: start paying for an appointment, then list invoices and
+// download receipts once paid
+router.post(
+  "/appointments/:appointmentId/pay",
+  isAuthenticated,
+  patientAccess(DelegateScope.BOOK_APPOINTMENTS),
+  payForAppointment
+);
+router.get("/invoices", isAuthenticated, patientAccess(DelegateScope.VIEW_APPOINTMENTS), getMyInvoices);
+router.get(
+  "/invoices/:invoiceId/receipt",
+  isAuthenticated,
+  patientAccess(DelegateScope.VIEW_APPOINTMENTS),
+  invoiceReceipt
+);
+
 router.get(
   "/view-Prescriptions",
   isAuthenticated,
-  isPatient,
+  patientAccess(DelegateScope.VIEW_PRESCRIPTIONS),
   viewPrescriptions as any
 );
 router.get("/prescription-pdf/:id", prescriptionPdf as any);
@@ -61,12 +154,41 @@ router.get("/fetchAllDoctors", fetchAllDoctors);
 router.get("/city-rooms", isAuthenticated, isPatient, cityRooms as any);
 
 // New direct appointment booking routes
-router.post("/book-direct-appointment", isAuthenticated, isPatient, bookDirectAppointment);
-router.get("/all-appointments", isAuthenticated, isPatient, getAllPatientAppointments);
+router.post("/book-direct-appointment", isAuthenticated, patientAccess(DelegateScope.BOOK_APPOINTMENTS), bookDirectAppointment);
+router.get("/all-appointments", isAuthenticated, patientAccess(DelegateScope.VIEW_APPOINTMENTS), getAllPatientAppointments);
+
+// Waitlist for fully booked doctors. Freed slots are held for the next patient in
+// line, who claims or declines them through the offer routes.
+router.post("/waitlist", isAuthenticated, patientAccess(DelegateScope.BOOK_APPOINTMENTS), joinWaitlist);
+router.get("/waitlist", isAuthenticated, patientAccess(DelegateScope.BOOK_APPOINTMENTS), getMyWaitlist);
+router.delete("/waitlist/:entryId", isAuthenticated, patientAccess(DelegateScope.BOOK_APPOINTMENTS), leaveWaitlist);
+router.post(
+  "/waitlist/offers/:offerId/claim",
+  isAuthenticated,
+  patientAccess(DelegateScope.BOOK_APPOINTMENTS),
+  claimWaitlistOffer
+);
+router.post(
+  "/waitlist/offers/:offerId/decline",
+  isAuthenticated,
+  patientAccess(DelegateScope.BOOK_APPOINTMENTS),
+  declineWaitlistOffer
+);
 
 // Notification routes
 router.get("/notifications", isAuthenticated, isPatient, getPatientNotifications);
 router.patch("/notifications/:notificationId/read", isAuthenticated, isPatient, markNotificationAsRead);
 router.patch("/notifications/mark-all-read", isAuthenticated, isPatient, markAllNotificationsAsRead);
 
+// Download a zip archive of everything we hold about the patient
+router.get("/export", isAuthenticated, isPatient, exportHealthRecord);
+
+// Caregiver/guardian delegation. Routes above opened with patientAccess(scope) accept
+// an X-Acting-Patient-Id header from delegates holding that scope.
+router.post("/delegates", isAuthenticated, isPatient, grantDelegate);
+router.get("/delegates", isAuthenticated, isPatient, listDelegates);
+router.get("/delegates/audit-log", isAuthenticated, isPatient, getDelegationAuditLog);
+router.patch("/delegates/:delegationId", isAuthenticated, isPatient, updateDelegateScopes);
+router.delete("/delegates/:delegationId", isAuthenticated, isPatient, revokeDelegate);
+
 export default router;
@@ -0,0 +1,15 @@
+import { Router } from "express";
+import { handlePaymentWebhook, completeFakePayment } from "../controllers/payment.controller";
+import { PAYMENT_PROVIDER } from "../payments";
+
+const router = Router();
+
+// Called by the payment provider; authenticated by its signature, not a session
+router.post("/webhook", handlePaymentWebhook);
+
+// Lets developers settle payments while running against the fake provider
+if (PAYMENT_PROVIDER === "fake" && process.env.NODE_ENV !== "production") {
+  router.post("/fake/intents/:providerIntentId/complete", completeFakePayment);
+}
+
+export default router;
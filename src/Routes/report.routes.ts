@@ -2,6 +2,8 @@ import { Router, Request, Response, NextFunction } from "express";
 import { isAuthenticated } from "../middlewares/auth.middleware";
 import { createReport, getReport } from "../controllers/report.controller";
 import { upload2 } from "../middlewares/upload";
+import { patientAccess } from "../middlewares/delegation.middleware";
+import { DelegateScope } from "@prisma/client";
 
 // Using the global Request type from helper.ts
 
@@ -25,7 +27,12 @@ router.post(
 );
 
 // Get a report by ID
-router.get("/:id", isAuthenticated, asyncHandler(getReport));
+router.get(
+  "/:id",
+  isAuthenticated,
+  patientAccess(DelegateScope.VIEW_REPORTS, { patientOnly: false }),
+  asyncHandler(getReport)
+);
 
 // Error handling is now done globally in index.ts
 
@@ -19,23 +19,71 @@ import {
   leaveCommunity,
   verifyEmail,
   resendVerificationEmail,
+  forgotPassword,
+  resetPassword,
+  verifyTwoFactorLogin,
+  setupTwoFactor,
+  enableTwoFactor,
+  disableTwoFactor,
+  regenerateRecoveryCodes,
+  listSessions,
+  revokeSession,
+  revokeAllSessions,
+  getDoctorInvite,
+  acceptDoctorInvite,
+  requestEmailChange,
+  confirmEmailChange,
+  cancelEmailChange,
 } from "../controllers/user.controller";
 import { isAuthenticated } from "../middlewares/auth.middleware";
 import { isDoctor, isPatient } from "../utils/helper";
 import {upload} from "../middlewares/upload";
+import { listMyDelegations } from "../controllers/delegation.controller";
 
 const router = express.Router();
 
 router.post("/signup", signup);
 router.post("/admin-signup", adminSignup);
+
+// Invite-based doctor onboarding
+router.get("/doctor-invite", getDoctorInvite);
+router.post("/doctor-invite/accept", acceptDoctorInvite);
 router.post("/login", login);
 router.post("/logout", isAuthenticated, logout);
 router.post("/refresh-token", refreshAccessToken);
 
+// Patients who have delegated access to the authenticated user
+router.get("/delegations", isAuthenticated, listMyDelegations);
+
+// Per-device session management
+router.get("/sessions", isAuthenticated, listSessions);
+router.delete("/sessions/:sessionId", isAuthenticated, revokeSession);
+router.delete("/sessions", isAuthenticated, revokeAllSessions);
+
+// Two-factor login step and forced enrollment (authenticated by the login challenge token)
+router.post("/login/2fa", verifyTwoFactorLogin);
+router.post("/login/2fa/setup", setupTwoFactor);
+router.post("/login/2fa/enable", enableTwoFactor);
+
+// Two-factor management for logged-in users
+router.post("/2fa/setup", isAuthenticated, setupTwoFactor);
+router.post("/2fa/enable", isAuthenticated, enableTwoFactor);
+router.post("/2fa/disable", isAuthenticated, disableTwoFactor);
+router.post("/2fa/recovery-codes", isAuthenticated, regenerateRecoveryCodes);
+
 // Email Verification routes
 router.get("/verify-email", verifyEmail);
 router.post("/resend-verification-email", resendVerificationEmail);
 
+// Email change (confirmed from the new address)
+router.post("/change-email", isAuthenticated, requestEmailChange);
+router.get("/confirm-email-change", confirmEmailChange);
+router.delete("/change-email", isAuthenticated, cancelEmailChange);
+
+// Password reset routes
+router.post("/forgot-password", forgotPassword);
+router.post("/reset-password", resetPassword);
+
 router.get("/patient/profile/:id", isAuthenticated, userProfile);
 router.get("/doctor/profile/:id", isAuthenticated, doctorProfile);
 
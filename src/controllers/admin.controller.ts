@@ -1,11 +1,19 @@
 import { Request, Response } from "express";
-import { Role } from "@prisma/client";
+import { Role, DoctorVerificationStatus } from "@prisma/client";
 import { ApiResponse } from "../utils/ApiResponse";
 import { ApiError } from "../utils/ApiError";
 import prisma from "../utils/prismClient";
-import { isValidUUID } from "../utils/helper";
+import { isValidUUID, validateSpecialty, hashToken } from "../utils/helper";
+import {
+    generateSecureToken,
+    sendDoctorInviteEmail,
+    sendDoctorVerificationEmail,
+} from "../utils/emailService";
+import { ADMIN_PERMISSIONS, isAdminPermission, parseAdminPermissions } from "../utils/permissions";
 
 const VALID_ROLES: string[] = [Role.PATIENT, Role.DOCTOR, Role.ADMIN];
+const DOCTOR_INVITE_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+const INVITE_STATUSES = ["PENDING", "ACCEPTED", "EXPIRED", "REVOKED"];
 
 /**
  * List all users with pagination and optional role filter.
@@ -43,6 +51,7 @@ const listAllUsers = async (req: Request, res: Response): Promise<void> => {
                     email: true,
                     profilePicture: true,
                     role: true,
+                    lockedUntil: true,
                     createdAt: true,
                     updatedAt: true,
                     doctor: {
@@ -50,7 +59,7 @@ const listAllUsers = async (req: Request, res: Response): Promise<void> => {
                             id: true,
                             specialty: true,
                             clinicLocation: true,
-                            isVerified: true,
+                            verificationStatus: true,
                         },
                     },
                     patient: {
@@ -89,18 +98,170 @@ const listAllUsers = async (req: Request, res: Response): Promise<void> => {
     }
 };
 
+const VERIFICATION_ACTIONS = ["START_REVIEW", "APPROVE", "REJECT"];
+const PENDING_VERIFICATION_STATUSES: DoctorVerificationStatus[] = [
+    DoctorVerificationStatus.SUBMITTED,
+    DoctorVerificationStatus.UNDER_REVIEW,
+];
+
 /**
- * Verify a doctor by their user ID.
- * Sets isVerified to true on the Doctor model.
+ * Doctors waiting for credential review, oldest submission first.
+ * Query params: page, limit, status (SUBMITTED | UNDER_REVIEW)
  */
-const verifyDoctor = async (req: Request, res: Response): Promise<void> => {
-    const { doctorUserId } = req.params;
+const getVerificationQueue = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const page = Math.max(1, parseInt(req.query.page as string) || 1);
+        const limit = Math.min(100, Math.max(1, parseInt(req.query.limit as string) || 10));
+        const status = req.query.status as DoctorVerificationStatus | undefined;
+        const skip = (page - 1) * limit;
+
+        if (status && PENDING_VERIFICATION_STATUSES.indexOf(status) === -1) {
+            res
+                .status(400)
+                .json(new ApiError(400, "Invalid status filter. Must be one of: SUBMITTED, UNDER_REVIEW"));
+            return;
+        }
+
+        const where = {
+            verificationStatus: status ? status : { in: PENDING_VERIFICATION_STATUSES },
+            user: { deletedAt: null },
+        };
+
+        const [doctors, totalCount] = await Promise.all([
+            prisma.doctor.findMany({
+                where,
+                select: {
+                    id: true,
+                    specialty: true,
+                    clinicLocation: true,
+                    verificationStatus: true,
+                    licenseNumber: true,
+                    licenseExpiresAt: true,
+                    verificationSubmittedAt: true,
+                    user: {
+                        select: {
+                            id: true,
+                            name: true,
+                            email: true,
+                        },
+                    },
+                    credentials: { orderBy: { uploadedAt: "desc" } },
+                },
+                skip,
+                take: limit,
+                orderBy: { verificationSubmittedAt: "asc" },
+            }),
+            prisma.doctor.count({ where }),
+        ]);
+
+        const totalPages = Math.ceil(totalCount / limit);
+
+        res.status(200).json(
+            new ApiResponse(200, {
+                doctors,
+                pagination: {
+                    page,
+                    limit,
+                    totalCount,
+                    totalPages,
+                    hasNextPage: page < totalPages,
+                    hasPrevPage: page > 1,
+                },
+            }, "Verification queue fetched successfully")
+        );
+    } catch (error) {
+        res
+            .status(500)
+            .json(new ApiError(500, "Failed to fetch verification queue", [error]));
+    }
+};
+
+/**
+ * A doctor's documents and full review history, including reviewer notes.
+ */
+const getDoctorVerification = async (req: Request, res: Response): Promise<void> => {
+    const doctorUserId = req.params.doctorUserId as string;
 
     if (!doctorUserId || !isValidUUID(doctorUserId)) {
         res.status(400).json(new ApiError(400, "Valid doctor user ID is required"));
         return;
     }
 
+    try {
+        const doctor = await prisma.doctor.findUnique({
+            where: { userId: doctorUserId },
+            select: {
+                id: true,
+                specialty: true,
+                clinicLocation: true,
+                verificationStatus: true,
+                licenseNumber: true,
+                licenseExpiresAt: true,
+                verificationSubmittedAt: true,
+                verifiedAt: true,
+                user: {
+                    select: {
+                        id: true,
+                        name: true,
+                        email: true,
+                    },
+                },
+                credentials: { orderBy: { uploadedAt: "desc" } },
+                verificationReviews: {
+                    include: {
+                        reviewer: {
+                            select: {
+                                user: { select: { id: true, name: true } },
+                            },
+                        },
+                    },
+                    orderBy: { createdAt: "desc" },
+                },
+            },
+        });
+
+        if (!doctor) {
+            res.status(404).json(new ApiError(404, "Doctor not found"));
+            return;
+        }
+
+        res
+            .status(200)
+            .json(new ApiResponse(200, doctor, "Doctor verification fetched successfully"));
+    } catch (error) {
+        res
+            .status(500)
+            .json(new ApiError(500, "Failed to fetch doctor verification", [error]));
+    }
+};
+
+/**
+ * Move a doctor through credential review.
+ * Body: { action: "START_REVIEW" | "APPROVE" | "REJECT", notes?: string, rejectionReason?: string }
+ * rejectionReason is required for REJECT and is emailed to the doctor; notes stay internal.
+ */
+const reviewDoctorVerification = async (req: Request, res: Response): Promise<void> => {
+    const doctorUserId = req.params.doctorUserId as string;
+    const { action, notes, rejectionReason } = req.body;
+    const adminId = (req as any).user?.admin?.id;
+
+    if (!doctorUserId || !isValidUUID(doctorUserId)) {
+        res.status(400).json(new ApiError(400, "Valid doctor user ID is required"));
+        return;
+    }
+
+    if (!action || VERIFICATION_ACTIONS.indexOf(action) === -1) {
+        res
+            .status(400)
+            .json(new ApiError(400, "Invalid action. Must be one of: " + VERIFICATION_ACTIONS.join(", ")));
+        return;
+    }
+
+    if (action === "REJECT" && (!rejectionReason || rejectionReason.trim() === "")) {
+        res.status(400).json(new ApiError(400, "rejectionReason is required when rejecting"));
+        return;
+    }
+
     try {
         const user = await prisma.user.findUnique({
             where: { id: doctorUserId, deletedAt: null },
@@ -117,36 +278,95 @@ const verifyDoctor = async (req: Request, res: Response): Promise<void> => {
             return;
         }
 
-        if (user.doctor.isVerified) {
-            res.status(400).json(new ApiError(400, "Doctor is already verified"));
+        const doctor = user.doctor;
+        const allowedFrom: DoctorVerificationStatus[] =
+            action === "START_REVIEW" ? [DoctorVerificationStatus.SUBMITTED] : PENDING_VERIFICATION_STATUSES;
+
+        if (allowedFrom.indexOf(doctor.verificationStatus) === -1) {
+            res
+                .status(409)
+                .json(new ApiError(409, `Cannot ${action.toLowerCase().replace("_", " ")} a doctor whose status is ${doctor.verificationStatus}`));
             return;
         }
 
-        const updatedDoctor = await prisma.doctor.update({
-            where: { id: user.doctor.id },
-            data: { isVerified: true },
-            select: {
-                id: true,
-                specialty: true,
-                clinicLocation: true,
-                isVerified: true,
-                user: {
-                    select: {
-                        id: true,
-                        name: true,
-                        email: true,
+        if (action === "APPROVE" && (!doctor.licenseExpiresAt || doctor.licenseExpiresAt <= new Date())) {
+            res.status(400).json(new ApiError(400, "Cannot approve a doctor whose license has expired"));
+            return;
+        }
+
+        const toStatus =
+            action === "START_REVIEW"
+                ? DoctorVerificationStatus.UNDER_REVIEW
+                : action === "APPROVE"
+                    ? DoctorVerificationStatus.APPROVED
+                    : DoctorVerificationStatus.REJECTED;
+
+        const updatedDoctor = await prisma.$transaction(async (tx) => {
+            // Conditional on the status we checked so two reviewers cannot both decide
+            const result = await tx.doctor.updateMany({
+                where: { id: doctor.id, verificationStatus: doctor.verificationStatus },
+                data: {
+                    verificationStatus: toStatus,
+                    verifiedAt: toStatus === DoctorVerificationStatus.APPROVED ? new Date() : undefined,
+                },
+            });
+            if (result.count === 0) {
+                return null;
+            }
+
+            await tx.doctorVerificationReview.create({
+                data: {
+                    doctorId: doctor.id,
+                    reviewerId: adminId,
+                    fromStatus: doctor.verificationStatus,
+                    toStatus,
+                    notes: notes || null,
+                    rejectionReason: action === "REJECT" ? rejectionReason.trim() : null,
+                },
+            });
+
+            return tx.doctor.findUnique({
+                where: { id: doctor.id },
+                select: {
+                    id: true,
+                    specialty: true,
+                    clinicLocation: true,
+                    verificationStatus: true,
+                    licenseNumber: true,
+                    licenseExpiresAt: true,
+                    verifiedAt: true,
+                    user: {
+                        select: {
+                            id: true,
+                            name: true,
+                            email: true,
+                        },
                     },
                 },
-            },
+            });
         });
 
+        if (!updatedDoctor) {
+            res.status(409).json(new ApiError(409, "Verification status changed, please reload"));
+            return;
+        }
+
+        if (toStatus === DoctorVerificationStatus.APPROVED || toStatus === DoctorVerificationStatus.REJECTED) {
+            await sendDoctorVerificationEmail(
+                user.email,
+                user.name,
+                toStatus,
+                action === "REJECT" ? rejectionReason.trim() : null
+            );
+        }
+
         res
             .status(200)
-            .json(new ApiResponse(200, updatedDoctor, "Doctor verified successfully"));
+            .json(new ApiResponse(200, updatedDoctor, "Doctor verification updated successfully"));
     } catch (error) {
         res
             .status(500)
-            .json(new ApiError(500, "Failed to verify doctor", [error]));
+            .json(new ApiError(500, "Failed to update doctor verification", [error]));
     }
 };
 
@@ -172,6 +392,7 @@ const getDashboardStats = async (
             cancelledAppointments,
             totalReports,
             verifiedDoctors,
+            pendingReviewDoctors,
             unverifiedDoctors,
         ] = await Promise.all([
             prisma.user.count({ where: { deletedAt: null } }),
@@ -183,8 +404,19 @@ const getDashboardStats = async (
             prisma.appointment.count({ where: { status: "COMPLETED" } }),
             prisma.appointment.count({ where: { status: "CANCELLED" } }),
             prisma.report.count(),
-            prisma.doctor.count({ where: { isVerified: true } }),
-            prisma.doctor.count({ where: { isVerified: false } }),
+            prisma.doctor.count({ where: { verificationStatus: DoctorVerificationStatus.APPROVED } }),
+            prisma.doctor.count({ where: { verificationStatus: { in: PENDING_VERIFICATION_STATUSES } } }),
+            prisma.doctor.count({
+                where: {
+                    verificationStatus: {
+                        in: [
+                            DoctorVerificationStatus.NOT_SUBMITTED,
+                            DoctorVerificationStatus.REJECTED,
+                            DoctorVerificationStatus.EXPIRED,
+                        ],
+                    },
+                },
+            }),
         ]);
 
         const stats = {
@@ -205,6 +437,7 @@ const getDashboardStats = async (
             },
             doctors: {
                 verified: verifiedDoctors,
+                pendingReview: pendingReviewDoctors,
                 unverified: unverifiedDoctors,
             },
         };
@@ -224,7 +457,7 @@ const getDashboardStats = async (
  * Preserves data integrity by not removing the record.
  */
 const softDeleteUser = async (req: Request, res: Response): Promise<void> => {
-    const { userId } = req.params;
+    const userId = req.params.userId as string;
     const adminUserId = (req as any).user?.id;
 
     if (!userId || !isValidUUID(userId)) {
@@ -241,6 +474,7 @@ const softDeleteUser = async (req: Request, res: Response): Promise<void> => {
     try {
         const user = await prisma.user.findUnique({
             where: { id: userId },
+            include: { admin: true },
         });
 
         if (!user) {
@@ -253,6 +487,11 @@ const softDeleteUser = async (req: Request, res: Response): Promise<void> => {
             return;
         }
 
+        if (user.admin?.isSuperAdmin && !(req as any).user?.admin?.isSuperAdmin) {
+            res.status(403).json(new ApiError(403, "Only a super admin can delete a super admin"));
+            return;
+        }
+
         const deletedUser = await prisma.user.update({
             where: { id: userId },
             data: { deletedAt: new Date() },
@@ -280,7 +519,7 @@ const softDeleteUser = async (req: Request, res: Response): Promise<void> => {
  * Body: { role: "PATIENT" | "DOCTOR" | "ADMIN" }
  */
 const changeUserRole = async (req: Request, res: Response): Promise<void> => {
-    const { userId } = req.params;
+    const userId = req.params.userId as string;
     const { role, specialty, clinicLocation, location } = req.body;
     const adminUserId = (req as any).user?.id;
 
@@ -328,6 +567,11 @@ const changeUserRole = async (req: Request, res: Response): Promise<void> => {
             return;
         }
 
+        if (user.admin?.isSuperAdmin && !(req as any).user?.admin?.isSuperAdmin) {
+            res.status(403).json(new ApiError(403, "Only a super admin can change a super admin's role"));
+            return;
+        }
+
         const updatedUser = await prisma.$transaction(async (tx) => {
             // Update the user's role
             const updated = await tx.user.update({
@@ -358,16 +602,11 @@ const changeUserRole = async (req: Request, res: Response): Promise<void> => {
                     },
                 });
             } else if (role === Role.ADMIN && !user.admin) {
+                // New admins start without permissions until a super admin grants them
                 await tx.admin.create({
                     data: {
                         userId: user.id,
-                        permissions: {
-                            canManageUsers: true,
-                            canManageDoctors: true,
-                            canManagePatients: true,
-                            canViewAnalytics: true,
-                            canManageSystem: true,
-                        },
+                        permissions: [],
                     },
                 });
             }
@@ -385,10 +624,432 @@ const changeUserRole = async (req: Request, res: Response): Promise<void> => {
     }
 };
 
+/**
+ * Lift a login lockout and clear the user's failed attempt counter.
+ */
+const unlockUser = async (req: Request, res: Response): Promise<void> => {
+    const userId = req.params.userId as string;
+
+    if (!userId || !isValidUUID(userId)) {
+        res.status(400).json(new ApiError(400, "Valid user ID is required"));
+        return;
+    }
+
+    try {
+        const user = await prisma.user.findUnique({
+            where: { id: userId, deletedAt: null },
+        });
+
+        if (!user) {
+            res.status(404).json(new ApiError(404, "User not found"));
+            return;
+        }
+
+        const unlockedUser = await prisma.user.update({
+            where: { id: userId },
+            data: { failedLoginAttempts: 0, lastFailedLoginAt: null, lockedUntil: null },
+            select: {
+                id: true,
+                name: true,
+                email: true,
+                lockedUntil: true,
+            },
+        });
+
+        res
+            .status(200)
+            .json(new ApiResponse(200, unlockedUser, "User unlocked successfully"));
+    } catch (error) {
+        res
+            .status(500)
+            .json(new ApiError(500, "Failed to unlock user", [error]));
+    }
+};
+
+/**
+ * Invite a doctor by email with a preset specialty.
+ * Any earlier pending invite for the same email is revoked.
+ * Body: { email: string, specialty: string }
+ */
+const createDoctorInvite = async (req: Request, res: Response): Promise<void> => {
+    const { email, specialty } = req.body;
+    const adminId = (req as any).user?.admin?.id;
+    const adminName = (req as any).user?.name;
+
+    if (!email || typeof email !== "string" || !email.includes("@")) {
+        res.status(400).json(new ApiError(400, "A valid email is required"));
+        return;
+    }
+
+    if (!specialty || !validateSpecialty(specialty)) {
+        res.status(400).json(new ApiError(400, "A valid specialty is required"));
+        return;
+    }
+
+    const normalizedEmail = email.trim().toLowerCase();
+
+    try {
+        const existingUser = await prisma.user.findFirst({
+            where: { email: { equals: normalizedEmail, mode: "insensitive" } },
+        });
+
+        if (existingUser) {
+            res.status(409).json(new ApiError(409, "A user with this email already exists"));
+            return;
+        }
+
+        const token = generateSecureToken();
+        const expiresAt = new Date(Date.now() + DOCTOR_INVITE_TTL_MS);
+
+        const invite = await prisma.$transaction(async (tx) => {
+            await tx.doctorInvite.updateMany({
+                where: { email: normalizedEmail, acceptedAt: null, revokedAt: null },
+                data: { revokedAt: new Date() },
+            });
+
+            return tx.doctorInvite.create({
+                data: {
+                    email: normalizedEmail,
+                    specialty,
+                    tokenHash: hashToken(token),
+                    invitedById: adminId,
+                    expiresAt,
+                },
+                select: {
+                    id: true,
+                    email: true,
+                    specialty: true,
+                    expiresAt: true,
+                    createdAt: true,
+                },
+            });
+        });
+
+        await sendDoctorInviteEmail(normalizedEmail, adminName || "A CareXpert administrator", specialty, token, expiresAt);
+
+        res
+            .status(201)
+            .json(new ApiResponse(201, invite, "Doctor invite sent successfully"));
+    } catch (error) {
+        res
+            .status(500)
+            .json(new ApiError(500, "Failed to send doctor invite", [error]));
+    }
+};
+
+/**
+ * List doctor invites with pagination and optional status filter.
+ * Query params: page, limit, status (PENDING | ACCEPTED | EXPIRED | REVOKED)
+ */
+const listDoctorInvites = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const page = Math.max(1, parseInt(req.query.page as string) || 1);
+        const limit = Math.min(100, Math.max(1, parseInt(req.query.limit as string) || 10));
+        const status = req.query.status as string | undefined;
+        const skip = (page - 1) * limit;
+        const now = new Date();
+
+        if (status && INVITE_STATUSES.indexOf(status) === -1) {
+            res
+                .status(400)
+                .json(new ApiError(400, "Invalid status filter. Must be one of: " + INVITE_STATUSES.join(", ")));
+            return;
+        }
+
+        const where: any = {};
+        if (status === "PENDING") {
+            Object.assign(where, { acceptedAt: null, revokedAt: null, expiresAt: { gt: now } });
+        } else if (status === "ACCEPTED") {
+            where.acceptedAt = { not: null };
+        } else if (status === "EXPIRED") {
+            Object.assign(where, { acceptedAt: null, revokedAt: null, expiresAt: { lte: now } });
+        } else if (status === "REVOKED") {
+            where.revokedAt = { not: null };
+        }
+
+        const [invites, totalCount] = await Promise.all([
+            prisma.doctorInvite.findMany({
+                where,
+                select: {
+                    id: true,
+                    email: true,
+                    specialty: true,
+                    expiresAt: true,
+                    acceptedAt: true,
+                    revokedAt: true,
+                    createdAt: true,
+                    doctorId: true,
+                    invitedBy: {
+                        select: {
+                            user: { select: { id: true, name: true, email: true } },
+                        },
+                    },
+                },
+                skip,
+                take: limit,
+                orderBy: { createdAt: "desc" },
+            }),
+            prisma.doctorInvite.count({ where }),
+        ]);
+
+        const totalPages = Math.ceil(totalCount / limit);
+
+        res.status(200).json(
+            new ApiResponse(200, {
+                invites: invites.map((invite) => ({
+                    ...invite,
+                    status: invite.acceptedAt
+                        ? "ACCEPTED"
+                        : invite.revokedAt
+                            ? "REVOKED"
+                            : invite.expiresAt <= now
+                                ? "EXPIRED"
+                                : "PENDING",
+                })),
+                pagination: {
+                    page,
+                    limit,
+                    totalCount,
+                    totalPages,
+                    hasNextPage: page < totalPages,
+                    hasPrevPage: page > 1,
+                },
+            }, "Doctor invites fetched successfully")
+        );
+    } catch (error) {
+        res
+            .status(500)
+            .json(new ApiError(500, "Failed to fetch doctor invites", [error]));
+    }
+};
+
+/**
+ * Revoke a pending doctor invite so its link stops working.
+ */
+const revokeDoctorInvite = async (req: Request, res: Response): Promise<void> => {
+    const inviteId = req.params.inviteId as string;
+
+    if (!inviteId || !isValidUUID(inviteId)) {
+        res.status(400).json(new ApiError(400, "Valid invite ID is required"));
+        return;
+    }
+
+    try {
+        const revoked = await prisma.doctorInvite.updateMany({
+            where: { id: inviteId, acceptedAt: null, revokedAt: null },
+            data: { revokedAt: new Date() },
+        });
+
+        if (revoked.count === 0) {
+            res.status(404).json(new ApiError(404, "Pending invite not found"));
+            return;
+        }
+
+        res
+            .status(200)
+            .json(new ApiResponse(200, {}, "Doctor invite revoked successfully"));
+    } catch (error) {
+        res
+            .status(500)
+            .json(new ApiError(500, "Failed to revoke doctor invite", [error]));
+    }
+};
+
+/**
+ * List the two-factor requirement for every role.
+ */
+const getTwoFactorPolicies = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const policies = await prisma.twoFactorPolicy.findMany();
+
+        const byRole = VALID_ROLES.map((role) => {
+            const policy = policies.find((p) => p.role === role);
+            return {
+                role,
+                required: policy?.required ?? false,
+                updatedAt: policy?.updatedAt ?? null,
+            };
+        });
+
+        res
+            .status(200)
+            .json(new ApiResponse(200, byRole, "Two-factor policies fetched successfully"));
+    } catch (error) {
+        res
+            .status(500)
+            .json(new ApiError(500, "Failed to fetch two-factor policies", [error]));
+    }
+};
+
+/**
+ * Make TOTP two-factor authentication mandatory (or optional) for a role.
+ * Body: { required: boolean }
+ */
+const updateTwoFactorPolicy = async (req: Request, res: Response): Promise<void> => {
+    const role = req.params.role as string;
+    const { required } = req.body;
+    const adminUserId = (req as any).user?.id;
+
+    if (!role || VALID_ROLES.indexOf(role) === -1) {
+        res
+            .status(400)
+            .json(new ApiError(400, "Invalid role. Must be one of: PATIENT, DOCTOR, ADMIN"));
+        return;
+    }
+
+    if (typeof required !== "boolean") {
+        res.status(400).json(new ApiError(400, "required must be a boolean"));
+        return;
+    }
+
+    try {
+        const policy = await prisma.twoFactorPolicy.upsert({
+            where: { role: role as Role },
+            update: { required, updatedById: adminUserId },
+            create: { role: role as Role, required, updatedById: adminUserId },
+        });
+
+        res
+            .status(200)
+            .json(new ApiResponse(200, policy, "Two-factor policy updated successfully"));
+    } catch (error) {
+        res
+            .status(500)
+            .json(new ApiError(500, "Failed to update two-factor policy", [error]));
+    }
+};
+
+/**
+ * List every admin with their permissions, plus the permissions that can be granted.
+ * Super admin only.
+ */
+const listAdmins = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const admins = await prisma.admin.findMany({
+            where: { user: { deletedAt: null, role: Role.ADMIN } },
+            select: {
+                id: true,
+                isSuperAdmin: true,
+                permissions: true,
+                user: {
+                    select: {
+                        id: true,
+                        name: true,
+                        email: true,
+                    },
+                },
+            },
+        });
+
+        res.status(200).json(
+            new ApiResponse(200, {
+                admins: admins.map((admin) => ({
+                    ...admin,
+                    permissions: admin.isSuperAdmin
+                        ? [...ADMIN_PERMISSIONS]
+                        : parseAdminPermissions(admin.permissions),
+                })),
+                availablePermissions: ADMIN_PERMISSIONS,
+            }, "Admins fetched successfully")
+        );
+    } catch (error) {
+        res
+            .status(500)
+            .json(new ApiError(500, "Failed to fetch admins", [error]));
+    }
+};
+
+/**
+ * Grant and/or revoke permissions for an admin. Super admin only.
+ * Body: { grant?: string[], revoke?: string[] }
+ */
+const updateAdminPermissions = async (req: Request, res: Response): Promise<void> => {
+    const userId = req.params.userId as string;
+    const { grant = [], revoke = [] } = req.body;
+
+    if (!userId || !isValidUUID(userId)) {
+        res.status(400).json(new ApiError(400, "Valid user ID is required"));
+        return;
+    }
+
+    if (!Array.isArray(grant) || !Array.isArray(revoke) || grant.length + revoke.length === 0) {
+        res
+            .status(400)
+            .json(new ApiError(400, "Provide at least one permission in grant or revoke"));
+        return;
+    }
+
+    const unknown = [...grant, ...revoke].filter((permission) => !isAdminPermission(permission));
+    if (unknown.length > 0) {
+        res
+            .status(400)
+            .json(new ApiError(400, `Unknown permissions: ${unknown.join(", ")}. Must be one of: ${ADMIN_PERMISSIONS.join(", ")}`));
+        return;
+    }
+
+    try {
+        const admin = await prisma.admin.findFirst({
+            where: { userId, user: { deletedAt: null, role: Role.ADMIN } },
+        });
+
+        if (!admin) {
+            res.status(404).json(new ApiError(404, "Admin not found"));
+            return;
+        }
+
+        if (admin.isSuperAdmin) {
+            res
+                .status(400)
+                .json(new ApiError(400, "Super admins already hold every permission"));
+            return;
+        }
+
+        const current = new Set(parseAdminPermissions(admin.permissions));
+        grant.filter(isAdminPermission).forEach((permission) => current.add(permission));
+        revoke.filter(isAdminPermission).forEach((permission) => current.delete(permission));
+        const permissions = ADMIN_PERMISSIONS.filter((permission) => current.has(permission));
+
+        const updated = await prisma.admin.update({
+            where: { id: admin.id },
+            data: { permissions },
+            select: {
+                id: true,
+                isSuperAdmin: true,
+                permissions: true,
+                user: {
+                    select: {
+                        id: true,
+                        name: true,
+                        email: true,
+                    },
+                },
+            },
+        });
+
+        res
+            .status(200)
+            .json(new ApiResponse(200, updated, "Admin permissions updated successfully"));
+    } catch (error) {
+        res
+            .status(500)
+            .json(new ApiError(500, "Failed to update admin permissions", [error]));
+    }
+};
+
 export {
     listAllUsers,
-    verifyDoctor,
+    getVerificationQueue,
+    getDoctorVerification,
+    reviewDoctorVerification,
     getDashboardStats,
     softDeleteUser,
     changeUserRole,
+    unlockUser,
+    getTwoFactorPolicies,
+    updateTwoFactorPolicy,
+    listAdmins,
+    updateAdminPermissions,
+    createDoctorInvite,
+    listDoctorInvites,
+    revokeDoctorInvite,
 };
@@ -0,0 +1,48 @@
+import { Request, Response } from "express";
+import { ApiError } from "../utils/ApiError";
+import { ApiResponse } from "../utils/ApiResponse";
+import prisma from "../utils/prismClient";
+import { isValidUUID } from "../utils/helper";
+
+// Handlers shared by both sides of an appointment; the caller must be its
+// patient (or their delegate) or its doctor.
+
+// Every status change of the appointment, oldest first
+const getAppointmentStatusHistory = async (req: Request, res: Response): Promise<void> => {
+  const appointmentId = req.params.appointmentId as string;
+  const user = (req as any).user;
+
+  try {
+    if (!isValidUUID(appointmentId)) {
+      res.status(400).json(new ApiError(400, "Invalid appointment ID"));
+      return;
+    }
+
+    const appointment = await prisma.appointment.findUnique({
+      where: { id: appointmentId },
+      select: { id: true, status: true, patientId: true, doctorId: true },
+    });
+    const isParty =
+      appointment &&
+      ((user?.patient?.id && user.patient.id === appointment.patientId) ||
+        (user?.doctor?.id && user.doctor.id === appointment.doctorId));
+    if (!appointment || !isParty) {
+      res.status(404).json(new ApiError(404, "Appointment not found"));
+      return;
+    }
+
+    const history = await prisma.appointmentStatusHistory.findMany({
+      where: { appointmentId },
+      include: { actor: { select: { id: true, name: true } } },
+      orderBy: { createdAt: "asc" },
+    });
+
+    res
+      .status(200)
+      .json(new ApiResponse(200, { status: appointment.status, history }, "Status history fetched successfully"));
+  } catch (error) {
+    res.status(500).json(new ApiError(500, "Failed to fetch status history", [error]));
+  }
+};
+
+export { getAppointmentStatusHistory };
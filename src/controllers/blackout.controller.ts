@@ -0,0 +1,457 @@
+import { Request, Response } from "express";
+import { AppointmentStatus, Prisma, Role, TimeSlotStatus } from "@prisma/client";
+import { ApiError } from "../utils/ApiError";
+import { ApiResponse } from "../utils/ApiResponse";
+import prisma from "../utils/prismClient";
+import { getActorUserId, isValidUUID } from "../utils/helper";
+import {
+  addCalendarDays,
+  formatDateInZone,
+  formatTimeInZone,
+  parseCalendarDate,
+  zonedTimeToUtc,
+} from "../utils/timezone";
+import {
+  findOverlappingBlackout,
+  materializeRuleSlot,
+} from "../utils/scheduling";
+import { ACTIVE_APPOINTMENT_STATUSES, moveAppointmentToSlot } from "../utils/reschedule";
+import { appointmentIcsAttachment } from "../utils/ical";
+import { sendEmail, appointmentStatusTemplate } from "../utils/emailService";
+import { refundAppointmentPayment } from "../payments/invoices";
+import { transitionAppointment } from "../utils/appointmentStateMachine";
+
+const affectedAppointmentInclude = {
+  patient: {
+    select: {
+      id: true,
+      user: {
+        select: {
+          id: true,
+          name: true,
+          email: true,
+          timeZone: true,
+        },
+      },
+    },
+  },
+  timeSlot: true,
+} satisfies Prisma.AppointmentInclude;
+
+type AffectedAppointment = Prisma.AppointmentGetPayload<{
+  include: typeof affectedAppointmentInclude;
+}>;
+
+const getDoctor = (userId: string) => {
+  return prisma.doctor.findUnique({
+    where: { userId },
+    select: { id: true, user: { select: { name: true, timeZone: true } } },
+  });
+};
+
+// PENDING/CONFIRMED appointments of the doctor that fall inside the blackout
+const findAffectedAppointments = (
+  doctorId: string,
+  blackout: { startsAt: Date; endsAt: Date },
+  appointmentIds?: string[]
+) => {
+  return prisma.appointment.findMany({
+    where: {
+      doctorId,
+      status: { in: ACTIVE_APPOINTMENT_STATUSES },
+      ...(appointmentIds && { id: { in: appointmentIds } }),
+      OR: [
+        { scheduledAt: { gte: blackout.startsAt, lt: blackout.endsAt } },
+        {
+          timeSlot: {
+            startTime: { lt: blackout.endsAt },
+            endTime: { gt: blackout.startsAt },
+          },
+        },
+      ],
+    },
+    include: affectedAppointmentInclude,
+    orderBy: { scheduledAt: "asc" },
+  });
+};
+
+const formatAffectedAppointment = (appointment: AffectedAppointment) => ({
+  id: appointment.id,
+  status: appointment.status,
+  appointmentType: appointment.appointmentType,
+  scheduledAt: appointment.scheduledAt,
+  date: appointment.date,
+  time: appointment.time,
+  timeSlotId: appointment.timeSlotId,
+  patient: {
+    id: appointment.patient.id,
+    name: appointment.patient.user.name,
+    email: appointment.patient.user.email,
+  },
+});
+
+// In-app notification plus email, both in the patient's time zone
+const notifyPatient = async (
+  appointment: AffectedAppointment,
+  doctorName: string,
+  status: "CANCELLED" | "RESCHEDULED",
+  scheduledAt: Date,
+  reason?: string
+) => {
+  const timeZone = appointment.patient.user.timeZone;
+  const date = formatDateInZone(scheduledAt, timeZone);
+  const time = formatTimeInZone(scheduledAt, timeZone);
+
+  let message =
+    status === "CANCELLED"
+      ? `Your appointment with Dr. ${doctorName} on ${date} at ${time} has been cancelled.`
+      : `Your appointment with Dr. ${doctorName} has been moved to ${date} at ${time}.`;
+  if (reason) {
+    message += ` Reason: ${reason}`;
+  }
+
+  await prisma.notification.create({
+    data: {
+      userId: appointment.patient.user.id,
+      type: status === "CANCELLED" ? "APPOINTMENT_CANCELLED" : "APPOINTMENT_RESCHEDULED",
+      title: status === "CANCELLED" ? "Appointment Cancelled" : "Appointment Rescheduled",
+      message,
+      appointmentId: appointment.id,
+    },
+  });
+
+  appointmentIcsAttachment(appointment.id, status === "CANCELLED" ? "CANCEL" : "REQUEST", Role.PATIENT)
+    .then((invite) =>
+      sendEmail({
+        to: appointment.patient.user.email,
+        subject: status === "CANCELLED" ? "Appointment Cancelled" : "Appointment Rescheduled",
+        html: appointmentStatusTemplate(doctorName, status, date, time, reason),
+        attachments: [invite],
+      })
+    )
+    .catch((err) => console.error("Failed to send appointment status email:", err));
+};
+
+// Block out a period (leave, holiday...). Send startDate/endDate (YYYY-MM-DD,
+// inclusive, in the doctor's time zone) for whole days, or startsAt/endsAt instants.
+const createBlackout = async (req: Request, res: Response): Promise<void> => {
+  const doctorUserId = (req as any).user?.id;
+  const { startDate, endDate, startsAt, endsAt, reason } = req.body;
+
+  try {
+    const doctor = await getDoctor(doctorUserId);
+    if (!doctor) {
+      res.status(404).json(new ApiError(404, "Doctor profile not found"));
+      return;
+    }
+
+    let start: Date | null = null;
+    let end: Date | null = null;
+    if (startDate !== undefined || endDate !== undefined) {
+      const firstDay = parseCalendarDate(startDate);
+      const lastDay = parseCalendarDate(endDate);
+      if (firstDay && lastDay) {
+        start = zonedTimeToUtc(firstDay, 0, doctor.user.timeZone);
+        end = zonedTimeToUtc(addCalendarDays(lastDay, 1), 0, doctor.user.timeZone);
+      }
+    } else if (startsAt && endsAt) {
+      start = new Date(startsAt);
+      end = new Date(endsAt);
+      if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+        start = end = null;
+      }
+    }
+
+    if (!start || !end) {
+      res
+        .status(400)
+        .json(new ApiError(400, "Send startDate and endDate (YYYY-MM-DD), or startsAt and endsAt (ISO date-time)"));
+      return;
+    }
+
+    if (end <= start || end <= new Date()) {
+      res.status(400).json(new ApiError(400, "The blackout must end after it starts and in the future"));
+      return;
+    }
+
+    const overlapping = await findOverlappingBlackout(prisma, doctor.id, start, end);
+    if (overlapping) {
+      res
+        .status(409)
+        .json(new ApiError(409, "Blackout overlaps with an existing blackout", [{ blackoutId: overlapping.id }]));
+      return;
+    }
+
+    const blackout = await prisma.doctorBlackout.create({
+      data: {
+        doctorId: doctor.id,
+        startsAt: start,
+        endsAt: end,
+        reason: typeof reason === "string" ? reason.trim() || null : null,
+      },
+    });
+
+    const affected = await findAffectedAppointments(doctor.id, blackout);
+
+    res.status(201).json(
+      new ApiResponse(
+        201,
+        { blackout, affectedAppointments: affected.map(formatAffectedAppointment) },
+        affected.length > 0
+          ? "Blackout created. Some appointments fall inside it and need to be cancelled or rescheduled"
+          : "Blackout created successfully"
+      )
+    );
+  } catch (error) {
+    res.status(500).json(new ApiError(500, "Failed to create blackout", [error]));
+  }
+};
+
+// Current and upcoming blackouts with the number of appointments still inside each
+const listBlackouts = async (req: Request, res: Response): Promise<void> => {
+  const doctorUserId = (req as any).user?.id;
+
+  try {
+    const doctor = await getDoctor(doctorUserId);
+    if (!doctor) {
+      res.status(404).json(new ApiError(404, "Doctor profile not found"));
+      return;
+    }
+
+    const blackouts = await prisma.doctorBlackout.findMany({
+      where: { doctorId: doctor.id, endsAt: { gt: new Date() } },
+      orderBy: { startsAt: "asc" },
+    });
+
+    const withCounts = await Promise.all(
+      blackouts.map(async (blackout) => ({
+        ...blackout,
+        affectedAppointments: (await findAffectedAppointments(doctor.id, blackout)).length,
+      }))
+    );
+
+    res.status(200).json(new ApiResponse(200, withCounts, "Blackouts fetched successfully"));
+  } catch (error) {
+    res.status(500).json(new ApiError(500, "Failed to fetch blackouts", [error]));
+  }
+};
+
+const deleteBlackout = async (req: Request, res: Response): Promise<void> => {
+  const doctorUserId = (req as any).user?.id;
+  const blackoutId = req.params.blackoutId as string;
+
+  try {
+    if (!isValidUUID(blackoutId)) {
+      res.status(400).json(new ApiError(400, "Invalid blackout ID"));
+      return;
+    }
+
+    const result = await prisma.doctorBlackout.deleteMany({
+      where: { id: blackoutId, doctor: { userId: doctorUserId } },
+    });
+    if (result.count === 0) {
+      res.status(404).json(new ApiError(404, "Blackout not found"));
+      return;
+    }
+
+    res.status(200).json(new ApiResponse(200, null, "Blackout deleted successfully"));
+  } catch (error) {
+    res.status(500).json(new ApiError(500, "Failed to delete blackout", [error]));
+  }
+};
+
+const findDoctorBlackout = async (req: Request, res: Response) => {
+  const doctorUserId = (req as any).user?.id;
+  const blackoutId = req.params.blackoutId as string;
+
+  if (!isValidUUID(blackoutId)) {
+    res.status(400).json(new ApiError(400, "Invalid blackout ID"));
+    return null;
+  }
+
+  const doctor = await getDoctor(doctorUserId);
+  const blackout = doctor
+    ? await prisma.doctorBlackout.findFirst({
+        where: { id: blackoutId, doctorId: doctor.id },
+      })
+    : null;
+  if (!doctor || !blackout) {
+    res.status(404).json(new ApiError(404, "Blackout not found"));
+    return null;
+  }
+
+  return { doctor, blackout };
+};
+
+// PENDING/CONFIRMED appointments that still fall inside the blackout
+const getBlackoutAffectedAppointments = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const found = await findDoctorBlackout(req, res);
+    if (!found) return;
+
+    const affected = await findAffectedAppointments(found.doctor.id, found.blackout);
+
+    res
+      .status(200)
+      .json(new ApiResponse(200, affected.map(formatAffectedAppointment), "Affected appointments fetched successfully"));
+  } catch (error) {
+    res.status(500).json(new ApiError(500, "Failed to fetch affected appointments", [error]));
+  }
+};
+
+// Cancel the listed appointments (all affected ones if appointmentIds is omitted)
+// and notify their patients
+const cancelBlackoutAppointments = async (req: Request, res: Response): Promise<void> => {
+  const { appointmentIds, reason } = req.body;
+
+  try {
+    if (
+      appointmentIds !== undefined &&
+      (!Array.isArray(appointmentIds) || !appointmentIds.every((id: unknown) => typeof id === "string"))
+    ) {
+      res.status(400).json(new ApiError(400, "appointmentIds must be an array of appointment IDs"));
+      return;
+    }
+
+    const found = await findDoctorBlackout(req, res);
+    if (!found) return;
+    const { doctor, blackout } = found;
+
+    const affected = await findAffectedAppointments(doctor.id, blackout, appointmentIds);
+    const cancellationReason =
+      (typeof reason === "string" && reason.trim()) || blackout.reason || "The doctor is unavailable";
+
+    const actor = { role: Role.DOCTOR, userId: getActorUserId(req) };
+    const cancelled: string[] = [];
+    for (const appointment of affected) {
+      const done = await prisma
+        .$transaction(async (tx) => {
+          // The reason goes to the status history and the patient; notes stay the patient's
+          await transitionAppointment(tx, appointment, AppointmentStatus.CANCELLED, actor, {
+            reason: cancellationReason,
+          });
+          if (appointment.timeSlotId) {
+            await tx.timeSlot.update({
+              where: { id: appointment.timeSlotId },
+              data: { status: TimeSlotStatus.AVAILABLE },
+            });
+          }
+          return true;
+        })
+        .catch((error) => {
+          // Skip anything the patient cancelled or the doctor handled in the meantime
+          if (error instanceof ApiError && error.statusCode === 409) {
+            return false;
+          }
+          throw error;
+        });
+
+      if (done) {
+        cancelled.push(appointment.id);
+        await refundAppointmentPayment(appointment, "Appointment cancelled by the doctor");
+        await notifyPatient(appointment, doctor.user.name, "CANCELLED", appointment.scheduledAt, cancellationReason);
+      }
+    }
+
+    const notCancelled = (appointmentIds ?? []).filter((id: string) => !cancelled.includes(id));
+
+    res.status(200).json(
+      new ApiResponse(
+        200,
+        { cancelled, notCancelled },
+        `${cancelled.length} appointment(s) cancelled`
+      )
+    );
+  } catch (error) {
+    res.status(500).json(new ApiError(500, "Failed to cancel appointments", [error]));
+  }
+};
+
+// Move affected appointments to new times. Each move names the appointment and
+// either a stored timeSlotId or a { ruleId, startTime } slot of a recurring rule.
+// Moves are applied independently; failures are reported per appointment.
+const rescheduleBlackoutAppointments = async (req: Request, res: Response): Promise<void> => {
+  const { moves } = req.body;
+
+  try {
+    if (
+      !Array.isArray(moves) ||
+      moves.length === 0 ||
+      !moves.every(
+        (move: any) =>
+          move &&
+          isValidUUID(move.appointmentId) &&
+          (isValidUUID(move.timeSlotId) ||
+            (isValidUUID(move.ruleId) && !isNaN(new Date(move.startTime).getTime())))
+      )
+    ) {
+      res
+        .status(400)
+        .json(new ApiError(400, "moves must be a non-empty array of { appointmentId, timeSlotId } or { appointmentId, ruleId, startTime }"));
+      return;
+    }
+
+    const found = await findDoctorBlackout(req, res);
+    if (!found) return;
+    const { doctor, blackout } = found;
+
+    const affected = await findAffectedAppointments(
+      doctor.id,
+      blackout,
+      moves.map((move: any) => move.appointmentId)
+    );
+
+    const moved: { appointmentId: string; scheduledAt: Date }[] = [];
+    const failed: { appointmentId: string; message: string }[] = [];
+
+    for (const move of moves) {
+      const appointment = affected.find((a) => a.id === move.appointmentId);
+      if (!appointment) {
+        failed.push({ appointmentId: move.appointmentId, message: "Appointment is not affected by this blackout" });
+        continue;
+      }
+
+      try {
+        const slot = await prisma.$transaction(async (tx) => {
+          const target = move.timeSlotId
+            ? await tx.timeSlot.findFirst({ where: { id: move.timeSlotId, doctorId: doctor.id } })
+            : await materializeRuleSlot(tx, move.ruleId, new Date(move.startTime), doctor.id);
+          if (!target) {
+            throw new ApiError(404, "Time slot not found");
+          }
+          if (await findOverlappingBlackout(tx, doctor.id, target.startTime, target.endTime)) {
+            throw new ApiError(409, "The new time falls inside a blackout");
+          }
+
+          return moveAppointmentToSlot(tx, appointment, target, doctor.user.timeZone);
+        });
+
+        moved.push({ appointmentId: appointment.id, scheduledAt: slot.startTime });
+        await notifyPatient(appointment, doctor.user.name, "RESCHEDULED", slot.startTime, blackout.reason ?? undefined);
+      } catch (error) {
+        if (error instanceof ApiError) {
+          failed.push({ appointmentId: appointment.id, message: error.message });
+        } else if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+          failed.push({ appointmentId: appointment.id, message: "This time slot is no longer available" });
+        } else {
+          throw error;
+        }
+      }
+    }
+
+    res
+      .status(200)
+      .json(new ApiResponse(200, { moved, failed }, `${moved.length} appointment(s) rescheduled`));
+  } catch (error) {
+    res.status(500).json(new ApiError(500, "Failed to reschedule appointments", [error]));
+  }
+};
+
+export {
+  createBlackout,
+  listBlackouts,
+  deleteBlackout,
+  getBlackoutAffectedAppointments,
+  cancelBlackoutAppointments,
+  rescheduleBlackoutAppointments,
+};
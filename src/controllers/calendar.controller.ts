@@ -0,0 +1,97 @@
+import { Request, Response } from "express";
+import { AppointmentStatus, Role } from "@prisma/client";
+import { ApiError } from "../utils/ApiError";
+import { ApiResponse } from "../utils/ApiResponse";
+import prisma from "../utils/prismClient";
+import { hashToken } from "../utils/helper";
+import { generateSecureToken } from "../utils/emailService";
+import { appointmentToEvent, buildCalendar, icsAppointmentInclude } from "../utils/ical";
+
+// Appointments that started within this window stay in the feed, so today's
+// earlier visits don't drop out of the calendar as soon as they begin
+const FEED_LOOKBACK_MS = 24 * 60 * 60 * 1000;
+
+const feedUrl = (token: string): string => {
+  return `${process.env.CALENDAR_FEED_URL}/${token}.ics`;
+};
+
+// Create (or replace) the secret subscription URL for the user's calendar feed.
+// The URL is only shown once; any earlier one stops working.
+const rotateCalendarFeedToken = async (req: Request, res: Response): Promise<void> => {
+  const userId = (req as any).user?.id;
+
+  try {
+    const token = generateSecureToken();
+    await prisma.user.update({
+      where: { id: userId },
+      data: { calendarFeedTokenHash: hashToken(token) },
+    });
+
+    res
+      .status(201)
+      .json(new ApiResponse(201, { url: feedUrl(token) }, "Calendar feed URL created. Keep it private."));
+  } catch (error) {
+    res.status(500).json(new ApiError(500, "Failed to create calendar feed", [error]));
+  }
+};
+
+// Turn the calendar feed off
+const revokeCalendarFeedToken = async (req: Request, res: Response): Promise<void> => {
+  const userId = (req as any).user?.id;
+
+  try {
+    await prisma.user.update({
+      where: { id: userId },
+      data: { calendarFeedTokenHash: null },
+    });
+
+    res.status(200).json(new ApiResponse(200, null, "Calendar feed disabled"));
+  } catch (error) {
+    res.status(500).json(new ApiError(500, "Failed to disable calendar feed", [error]));
+  }
+};
+
+// Public iCalendar feed of the user's upcoming appointments. Calendar apps can't
+// send credentials, so the secret token in the URL is the authentication.
+const getCalendarFeed = async (req: Request, res: Response): Promise<void> => {
+  const token = (req.params.token as string).replace(/\.ics$/, "");
+
+  try {
+    const user = await prisma.user.findUnique({
+      where: { calendarFeedTokenHash: hashToken(token) },
+      select: {
+        deletedAt: true,
+        patient: { select: { id: true } },
+        doctor: { select: { id: true } },
+      },
+    });
+    if (!user || user.deletedAt || (!user.patient && !user.doctor)) {
+      res.status(404).json(new ApiError(404, "Calendar feed not found"));
+      return;
+    }
+
+    const viewer = user.doctor ? Role.DOCTOR : Role.PATIENT;
+    const appointments = await prisma.appointment.findMany({
+      where: {
+        ...(user.doctor ? { doctorId: user.doctor.id } : { patientId: user.patient!.id }),
+        status: { in: [AppointmentStatus.PENDING, AppointmentStatus.CONFIRMED] },
+        scheduledAt: { gte: new Date(Date.now() - FEED_LOOKBACK_MS) },
+      },
+      include: icsAppointmentInclude,
+      orderBy: { scheduledAt: "asc" },
+    });
+
+    const calendar = buildCalendar(
+      appointments.map((appointment) => appointmentToEvent(appointment, viewer)),
+      { name: "CareXpert appointments" }
+    );
+
+    res.set("Content-Type", "text/calendar; charset=utf-8");
+    res.set("Cache-Control", "private, max-age=300");
+    res.status(200).send(calendar);
+  } catch (error) {
+    res.status(500).json(new ApiError(500, "Failed to build calendar feed", [error]));
+  }
+};
+
+export { rotateCalendarFeedToken, revokeCalendarFeedToken, getCalendarFeed };
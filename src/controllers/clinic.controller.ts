@@ -0,0 +1,578 @@
+import { Request, Response } from "express";
+import { DoctorVerificationStatus, Prisma } from "@prisma/client";
+import { ApiError } from "../utils/ApiError";
+import { ApiResponse } from "../utils/ApiResponse";
+import prisma from "../utils/prismClient";
+import { isValidUUID } from "../utils/helper";
+import { parseTimeOfDay } from "../utils/availability";
+import { calendarDateInZone, isValidTimeZone, parseCalendarDate, toZonedDateString } from "../utils/timezone";
+import { findBookableSlots } from "../utils/slotListing";
+
+// Clinics, their member doctors and clinic admins. Site admins create clinics and
+// appoint clinic admins; clinic admins run everything else. The member doctors'
+// schedules are managed through the doctor controllers (see clinic.routes).
+
+type ClinicFields = Omit<Prisma.ClinicUncheckedCreateInput, "id" | "createdAt" | "updatedAt">;
+type OpeningHoursInput = { dayOfWeek: number; opensAt: string; closesAt: string };
+
+const REQUIRED_FIELDS = ["name", "addressLine1", "city", "country"] as const;
+const OPTIONAL_FIELDS = ["addressLine2", "state", "postalCode", "phone", "email", "website"] as const;
+
+const openingHoursOrder = [{ dayOfWeek: "asc" }, { opensAt: "asc" }] satisfies Prisma.ClinicOpeningHoursOrderByWithRelationInput[];
+
+// Listed doctors follow the same rule as doctor search
+const listedDoctorWhere = () =>
+  ({
+    verificationStatus: DoctorVerificationStatus.APPROVED,
+    licenseExpiresAt: { gt: new Date() },
+    user: { deletedAt: null },
+  }) satisfies Prisma.DoctorWhereInput;
+
+// Doctors practise at a clinic once they accept its invitation
+const listedMembershipWhere = () =>
+  ({
+    acceptedAt: { not: null },
+    doctor: listedDoctorWhere(),
+  }) satisfies Prisma.ClinicMembershipWhereInput;
+
+// Validates the body of a create / update request. On update, fields that are not
+// sent keep their current values; optional fields are cleared with null.
+const parseClinicInput = (
+  body: any,
+  current?: ClinicFields
+): { clinic: ClinicFields } | { error: string } => {
+  const required: Partial<Record<(typeof REQUIRED_FIELDS)[number], string>> = {};
+  const optional: Partial<Record<(typeof OPTIONAL_FIELDS)[number], string | null>> = {};
+
+  for (const field of REQUIRED_FIELDS) {
+    const value = body[field] ?? current?.[field];
+    if (typeof value !== "string" || value.trim() === "") {
+      return { error: `${field} is required` };
+    }
+    required[field] = value.trim();
+  }
+
+  for (const field of OPTIONAL_FIELDS) {
+    const value = body[field] !== undefined ? body[field] : current?.[field] ?? null;
+    if (value !== null && typeof value !== "string") {
+      return { error: `${field} must be a string or null` };
+    }
+    optional[field] = value?.trim() || null;
+  }
+  if (optional.email && !optional.email.includes("@")) {
+    return { error: "email must be a valid email address" };
+  }
+
+  const timeZone = body.timeZone ?? current?.timeZone ?? "UTC";
+  if (!isValidTimeZone(timeZone)) {
+    return { error: "timeZone must be an IANA time zone, e.g. Asia/Kolkata" };
+  }
+
+  return {
+    clinic: {
+      ...(required as Record<(typeof REQUIRED_FIELDS)[number], string>),
+      ...optional,
+      timeZone,
+    },
+  };
+};
+
+// Opening hours are sent as the whole week: [{ dayOfWeek, opensAt, closesAt }]
+const parseOpeningHours = (value: unknown): { hours: OpeningHoursInput[] } | { error: string } => {
+  if (!Array.isArray(value)) {
+    return { error: "openingHours must be an array of { dayOfWeek, opensAt, closesAt }" };
+  }
+
+  const hours: OpeningHoursInput[] = [];
+  for (const entry of value) {
+    const opensAt = parseTimeOfDay(entry?.opensAt);
+    const closesAt = parseTimeOfDay(entry?.closesAt);
+    if (!Number.isInteger(entry?.dayOfWeek) || entry.dayOfWeek < 0 || entry.dayOfWeek > 6) {
+      return { error: "dayOfWeek must be a weekday (0 = Sunday ... 6 = Saturday)" };
+    }
+    if (opensAt === null || closesAt === null || closesAt <= opensAt) {
+      return { error: "opensAt and closesAt must be HH:mm with closesAt after opensAt" };
+    }
+
+    const overlapping = hours.some(
+      (other) =>
+        other.dayOfWeek === entry.dayOfWeek &&
+        parseTimeOfDay(other.opensAt)! < closesAt &&
+        parseTimeOfDay(other.closesAt)! > opensAt
+    );
+    if (overlapping) {
+      return { error: "Opening hours on the same day must not overlap" };
+    }
+    hours.push({ dayOfWeek: entry.dayOfWeek, opensAt: entry.opensAt, closesAt: entry.closesAt });
+  }
+
+  return { hours };
+};
+
+// Create a clinic, optionally with its opening hours
+const createClinic = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const parsed = parseClinicInput(req.body);
+    if ("error" in parsed) {
+      res.status(400).json(new ApiError(400, parsed.error));
+      return;
+    }
+    const openingHours = parseOpeningHours(req.body.openingHours ?? []);
+    if ("error" in openingHours) {
+      res.status(400).json(new ApiError(400, openingHours.error));
+      return;
+    }
+
+    const clinic = await prisma.clinic.create({
+      data: { ...parsed.clinic, openingHours: { create: openingHours.hours } },
+      include: { openingHours: { orderBy: openingHoursOrder } },
+    });
+
+    res.status(201).json(new ApiResponse(201, clinic, "Clinic created successfully"));
+  } catch (error) {
+    res.status(500).json(new ApiError(500, "Failed to create clinic", [error]));
+  }
+};
+
+// Browse clinics, optionally by city or by part of the name
+const listClinics = async (req: Request, res: Response): Promise<void> => {
+  const { city, name } = req.query;
+
+  try {
+    const clinics = await prisma.clinic.findMany({
+      where: {
+        ...(typeof city === "string" && city && { city: { contains: city, mode: "insensitive" } }),
+        ...(typeof name === "string" && name && { name: { contains: name, mode: "insensitive" } }),
+      },
+      include: {
+        _count: { select: { memberships: { where: listedMembershipWhere() } } },
+      },
+      orderBy: { name: "asc" },
+    });
+
+    const formatted = clinics.map(({ _count, ...clinic }) => ({
+      ...clinic,
+      doctorCount: _count.memberships,
+    }));
+
+    res.status(200).json(new ApiResponse(200, formatted, "Clinics fetched successfully"));
+  } catch (error) {
+    res.status(500).json(new ApiError(500, "Failed to fetch clinics", [error]));
+  }
+};
+
+// A clinic's page: details, opening hours and the doctors practising there
+const getClinic = async (req: Request, res: Response): Promise<void> => {
+  const clinicId = req.params.clinicId as string;
+
+  try {
+    if (!isValidUUID(clinicId)) {
+      res.status(400).json(new ApiError(400, "Invalid clinic ID"));
+      return;
+    }
+
+    const clinic = await prisma.clinic.findUnique({
+      where: { id: clinicId },
+      include: {
+        openingHours: { orderBy: openingHoursOrder },
+        memberships: {
+          where: listedMembershipWhere(),
+          include: {
+            doctor: {
+              select: {
+                id: true,
+                specialty: true,
+                experience: true,
+                languages: true,
+                user: { select: { name: true, profilePicture: true } },
+              },
+            },
+          },
+        },
+      },
+    });
+    if (!clinic) {
+      res.status(404).json(new ApiError(404, "Clinic not found"));
+      return;
+    }
+
+    const { memberships, ...details } = clinic;
+    const doctors = memberships
+      .map(({ doctor }) => ({
+        id: doctor.id,
+        name: doctor.user.name,
+        profilePicture: doctor.user.profilePicture,
+        specialty: doctor.specialty,
+        experience: doctor.experience,
+        languages: doctor.languages,
+      }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+
+    res.status(200).json(new ApiResponse(200, { ...details, doctors }, "Clinic fetched successfully"));
+  } catch (error) {
+    res.status(500).json(new ApiError(500, "Failed to fetch clinic", [error]));
+  }
+};
+
+// Bookable slots of every doctor at the clinic on one day (YYYY-MM-DD, default
+// today in the clinic's time zone), merged into a single list ordered by time.
+// Slots are booked with the doctor through the usual patient booking routes.
+const getClinicAvailability = async (req: Request, res: Response): Promise<void> => {
+  const clinicId = req.params.clinicId as string;
+  const { date, specialty } = req.query;
+
+  try {
+    if (!isValidUUID(clinicId)) {
+      res.status(400).json(new ApiError(400, "Invalid clinic ID"));
+      return;
+    }
+
+    const clinic = await prisma.clinic.findUnique({
+      where: { id: clinicId },
+      select: { id: true, timeZone: true },
+    });
+    if (!clinic) {
+      res.status(404).json(new ApiError(404, "Clinic not found"));
+      return;
+    }
+
+    const selectedDate = date ? parseCalendarDate(date) : calendarDateInZone(new Date(), clinic.timeZone);
+    if (!selectedDate) {
+      res.status(400).json(new ApiError(400, "Invalid Date format use ISO format(YYYY-MM-DD)"));
+      return;
+    }
+
+    const members = await prisma.clinicMembership.findMany({
+      where: {
+        clinicId,
+        acceptedAt: { not: null },
+        doctor: {
+          ...listedDoctorWhere(),
+          ...(typeof specialty === "string" &&
+            specialty && { specialty: { contains: specialty, mode: "insensitive" } }),
+        },
+      },
+      select: {
+        doctor: {
+          select: {
+            id: true,
+            specialty: true,
+            user: { select: { name: true, timeZone: true } },
+          },
+        },
+      },
+    });
+
+    // The day is read in each doctor's own time zone, as on their own slot listing
+    const slotsPerDoctor = await Promise.all(
+      members.map(async ({ doctor }) => {
+        const slots = await findBookableSlots(doctor.id, doctor.user.timeZone, selectedDate);
+        return slots.map((slot) => ({
+          ...slot,
+          doctorId: doctor.id,
+          doctorName: doctor.user.name,
+          specialty: doctor.specialty,
+          timeZone: doctor.user.timeZone,
+        }));
+      })
+    );
+    const slots = slotsPerDoctor.flat().sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+
+    res.status(200).json(
+      new ApiResponse(
+        200,
+        { date: toZonedDateString(selectedDate, "UTC"), timeZone: clinic.timeZone, slots },
+        "Clinic availability fetched successfully"
+      )
+    );
+  } catch (error) {
+    res.status(500).json(new ApiError(500, "Failed to fetch clinic availability", [error]));
+  }
+};
+
+// Clinics the caller administers
+const getManagedClinics = async (req: Request, res: Response): Promise<void> => {
+  const userId = (req as any).user?.id;
+
+  try {
+    const clinics = await prisma.clinic.findMany({
+      where: { admins: { some: { userId } } },
+      include: { openingHours: { orderBy: openingHoursOrder } },
+      orderBy: { name: "asc" },
+    });
+
+    res.status(200).json(new ApiResponse(200, clinics, "Clinics fetched successfully"));
+  } catch (error) {
+    res.status(500).json(new ApiError(500, "Failed to fetch clinics", [error]));
+  }
+};
+
+// Change a clinic's details
+const updateClinic = async (req: Request, res: Response): Promise<void> => {
+  const clinicId = (req as any).clinicAdmin.clinicId;
+
+  try {
+    const current = await prisma.clinic.findUniqueOrThrow({ where: { id: clinicId } });
+    const parsed = parseClinicInput(req.body, current);
+    if ("error" in parsed) {
+      res.status(400).json(new ApiError(400, parsed.error));
+      return;
+    }
+
+    const clinic = await prisma.clinic.update({
+      where: { id: clinicId },
+      data: parsed.clinic,
+      include: { openingHours: { orderBy: openingHoursOrder } },
+    });
+
+    res.status(200).json(new ApiResponse(200, clinic, "Clinic updated successfully"));
+  } catch (error) {
+    res.status(500).json(new ApiError(500, "Failed to update clinic", [error]));
+  }
+};
+
+// Replace the clinic's weekly opening hours
+const setClinicOpeningHours = async (req: Request, res: Response): Promise<void> => {
+  const clinicId = (req as any).clinicAdmin.clinicId;
+
+  try {
+    const parsed = parseOpeningHours(req.body.openingHours);
+    if ("error" in parsed) {
+      res.status(400).json(new ApiError(400, parsed.error));
+      return;
+    }
+
+    const openingHours = await prisma.$transaction(async (tx) => {
+      await tx.clinicOpeningHours.deleteMany({ where: { clinicId } });
+      await tx.clinicOpeningHours.createMany({
+        data: parsed.hours.map((hours) => ({ clinicId, ...hours })),
+      });
+      return tx.clinicOpeningHours.findMany({ where: { clinicId }, orderBy: openingHoursOrder });
+    });
+
+    res.status(200).json(new ApiResponse(200, openingHours, "Opening hours updated successfully"));
+  } catch (error) {
+    res.status(500).json(new ApiError(500, "Failed to update opening hours", [error]));
+  }
+};
+
+// Invite a doctor to the clinic. They only become a member, and open their
+// schedule to the clinic admins, once they accept.
+const addClinicDoctor = async (req: Request, res: Response): Promise<void> => {
+  const clinicId = (req as any).clinicAdmin.clinicId;
+  const { doctorId } = req.body;
+
+  try {
+    if (!doctorId || !isValidUUID(doctorId)) {
+      res.status(400).json(new ApiError(400, "Invalid Doctor ID"));
+      return;
+    }
+
+    const doctor = await prisma.doctor.findFirst({
+      where: { id: doctorId, user: { deletedAt: null } },
+      select: { id: true, userId: true },
+    });
+    if (!doctor) {
+      res.status(404).json(new ApiError(404, "Doctor not found"));
+      return;
+    }
+
+    const membership = await prisma.clinicMembership.create({
+      data: { clinicId, doctorId },
+      include: { clinic: { select: { name: true } } },
+    });
+
+    await prisma.notification.create({
+      data: {
+        userId: doctor.userId,
+        type: "CLINIC_INVITATION",
+        title: "Clinic Invitation",
+        message: `${membership.clinic.name} invited you to join. If you accept, its clinic admins can manage your schedule.`,
+      },
+    });
+
+    res.status(201).json(new ApiResponse(201, membership, "Invitation sent to the doctor"));
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+      res.status(409).json(new ApiError(409, "Doctor is already a member of or invited to this clinic"));
+      return;
+    }
+    res.status(500).json(new ApiError(500, "Failed to add doctor to clinic", [error]));
+  }
+};
+
+// Remove a doctor from the clinic, or withdraw their invitation. Their schedule
+// and appointments stay as they are.
+const removeClinicDoctor = async (req: Request, res: Response): Promise<void> => {
+  const clinicId = (req as any).clinicAdmin.clinicId;
+  const doctorId = req.params.doctorId as string;
+
+  try {
+    if (!isValidUUID(doctorId)) {
+      res.status(400).json(new ApiError(400, "Invalid Doctor ID"));
+      return;
+    }
+
+    const removed = await prisma.clinicMembership.deleteMany({ where: { clinicId, doctorId } });
+    if (removed.count === 0) {
+      res.status(404).json(new ApiError(404, "Doctor is not a member of this clinic"));
+      return;
+    }
+
+    res.status(200).json(new ApiResponse(200, null, "Doctor removed from the clinic"));
+  } catch (error) {
+    res.status(500).json(new ApiError(500, "Failed to remove doctor from clinic", [error]));
+  }
+};
+
+// The doctor's clinics: invitations waiting for an answer and memberships
+const getMyClinicMemberships = async (req: Request, res: Response): Promise<void> => {
+  const doctorId = (req as any).user?.doctor?.id;
+
+  try {
+    const memberships = await prisma.clinicMembership.findMany({
+      where: { doctorId },
+      include: { clinic: { select: { id: true, name: true, city: true, country: true } } },
+      orderBy: { createdAt: "desc" },
+    });
+
+    res.status(200).json(
+      new ApiResponse(
+        200,
+        {
+          invitations: memberships.filter((membership) => !membership.acceptedAt),
+          clinics: memberships.filter((membership) => membership.acceptedAt),
+        },
+        "Clinic memberships fetched successfully"
+      )
+    );
+  } catch (error) {
+    res.status(500).json(new ApiError(500, "Failed to fetch clinic memberships", [error]));
+  }
+};
+
+// Accept a clinic's invitation, letting its clinic admins manage the schedule
+const acceptClinicInvitation = async (req: Request, res: Response): Promise<void> => {
+  const doctorId = (req as any).user?.doctor?.id;
+  const clinicId = req.params.clinicId as string;
+
+  try {
+    if (!isValidUUID(clinicId)) {
+      res.status(400).json(new ApiError(400, "Invalid clinic ID"));
+      return;
+    }
+
+    const accepted = await prisma.clinicMembership.updateMany({
+      where: { clinicId, doctorId, acceptedAt: null },
+      data: { acceptedAt: new Date() },
+    });
+    if (accepted.count === 0) {
+      res.status(404).json(new ApiError(404, "No pending invitation from this clinic"));
+      return;
+    }
+
+    const membership = await prisma.clinicMembership.findUnique({
+      where: { clinicId_doctorId: { clinicId, doctorId } },
+      include: { clinic: { select: { id: true, name: true, city: true, country: true } } },
+    });
+
+    res.status(200).json(new ApiResponse(200, membership, "Clinic invitation accepted"));
+  } catch (error) {
+    res.status(500).json(new ApiError(500, "Failed to accept clinic invitation", [error]));
+  }
+};
+
+// Decline a clinic's invitation or leave the clinic
+const leaveClinic = async (req: Request, res: Response): Promise<void> => {
+  const doctorId = (req as any).user?.doctor?.id;
+  const clinicId = req.params.clinicId as string;
+
+  try {
+    if (!isValidUUID(clinicId)) {
+      res.status(400).json(new ApiError(400, "Invalid clinic ID"));
+      return;
+    }
+
+    const removed = await prisma.clinicMembership.deleteMany({ where: { clinicId, doctorId } });
+    if (removed.count === 0) {
+      res.status(404).json(new ApiError(404, "Not a member of or invited to this clinic"));
+      return;
+    }
+
+    res.status(200).json(new ApiResponse(200, null, "Left the clinic"));
+  } catch (error) {
+    res.status(500).json(new ApiError(500, "Failed to leave clinic", [error]));
+  }
+};
+
+// Appoint a user as admin of a clinic
+const addClinicAdmin = async (req: Request, res: Response): Promise<void> => {
+  const clinicId = req.params.clinicId as string;
+  const { userId } = req.body;
+
+  try {
+    if (!isValidUUID(clinicId) || !userId || !isValidUUID(userId)) {
+      res.status(400).json(new ApiError(400, "Valid clinic ID and userId are required"));
+      return;
+    }
+
+    const [clinic, user] = await Promise.all([
+      prisma.clinic.findUnique({ where: { id: clinicId }, select: { id: true } }),
+      prisma.user.findFirst({ where: { id: userId, deletedAt: null }, select: { id: true } }),
+    ]);
+    if (!clinic || !user) {
+      res.status(404).json(new ApiError(404, "Clinic or user not found"));
+      return;
+    }
+
+    const clinicAdmin = await prisma.clinicAdmin.create({ data: { clinicId, userId } });
+
+    res.status(201).json(new ApiResponse(201, clinicAdmin, "Clinic admin added"));
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+      res.status(409).json(new ApiError(409, "User is already an admin of this clinic"));
+      return;
+    }
+    res.status(500).json(new ApiError(500, "Failed to add clinic admin", [error]));
+  }
+};
+
+// Take a user's clinic admin rights away
+const removeClinicAdmin = async (req: Request, res: Response): Promise<void> => {
+  const clinicId = req.params.clinicId as string;
+  const userId = req.params.userId as string;
+
+  try {
+    if (!isValidUUID(clinicId) || !isValidUUID(userId)) {
+      res.status(400).json(new ApiError(400, "Invalid clinic or user ID"));
+      return;
+    }
+
+    const removed = await prisma.clinicAdmin.deleteMany({ where: { clinicId, userId } });
+    if (removed.count === 0) {
+      res.status(404).json(new ApiError(404, "Clinic admin not found"));
+      return;
+    }
+
+    res.status(200).json(new ApiResponse(200, null, "Clinic admin removed"));
+  } catch (error) {
+    res.status(500).json(new ApiError(500, "Failed to remove clinic admin", [error]));
+  }
+};
+
+export {
+  createClinic,
+  listClinics,
+  getClinic,
+  getClinicAvailability,
+  getManagedClinics,
+  updateClinic,
+  setClinicOpeningHours,
+  addClinicDoctor,
+  removeClinicDoctor,
+  getMyClinicMemberships,
+  acceptClinicInvitation,
+  leaveClinic,
+  addClinicAdmin,
+  removeClinicAdmin,
+};
@@ -0,0 +1,262 @@
+import { Request, Response } from "express";
+import { DelegateScope } from "@prisma/client";
+import { ApiError } from "../utils/ApiError";
+import { ApiResponse } from "../utils/ApiResponse";
+import prisma from "../utils/prismClient";
+import { isValidUUID } from "../utils/helper";
+
+const VALID_SCOPES = Object.values(DelegateScope) as string[];
+
+const parseScopes = (scopes: unknown): DelegateScope[] | null => {
+  if (!Array.isArray(scopes) || scopes.length === 0) {
+    return null;
+  }
+  if (scopes.some((scope) => !VALID_SCOPES.includes(scope))) {
+    return null;
+  }
+  return Array.from(new Set(scopes)) as DelegateScope[];
+};
+
+const delegateSelect = {
+  id: true,
+  scopes: true,
+  createdAt: true,
+  updatedAt: true,
+  delegate: {
+    select: {
+      id: true,
+      name: true,
+      email: true,
+      profilePicture: true,
+    },
+  },
+};
+
+// Grant (or re-grant) another user access to the authenticated patient's account
+const grantDelegate = async (req: Request, res: Response): Promise<void> => {
+  const patientId = (req as any).user?.patient?.id;
+  const userId = (req as any).user?.id;
+  const { email, scopes } = req.body;
+
+  try {
+    const parsedScopes = parseScopes(scopes);
+    if (!email || !parsedScopes) {
+      res
+        .status(400)
+        .json(new ApiError(400, `email and a non-empty scopes array are required. Scopes: ${VALID_SCOPES.join(", ")}`));
+      return;
+    }
+
+    const delegateUser = await prisma.user.findFirst({
+      where: {
+        email: { equals: String(email).trim(), mode: "insensitive" },
+        deletedAt: null,
+      },
+    });
+
+    if (!delegateUser) {
+      res.status(404).json(new ApiError(404, "No user found with that email"));
+      return;
+    }
+
+    if (delegateUser.id === userId) {
+      res.status(400).json(new ApiError(400, "You cannot delegate access to yourself"));
+      return;
+    }
+
+    const delegation = await prisma.patientDelegate.upsert({
+      where: {
+        patientId_delegateUserId: { patientId, delegateUserId: delegateUser.id },
+      },
+      update: { scopes: parsedScopes, revokedAt: null },
+      create: {
+        patientId,
+        delegateUserId: delegateUser.id,
+        scopes: parsedScopes,
+      },
+      select: delegateSelect,
+    });
+
+    res.status(201).json(new ApiResponse(201, delegation, "Delegate access granted"));
+  } catch (error) {
+    console.error("Error granting delegate access:", error);
+    res.status(500).json(new ApiError(500, "Failed to grant delegate access!", [error]));
+  }
+};
+
+// Active delegates of the authenticated patient
+const listDelegates = async (req: Request, res: Response): Promise<void> => {
+  const patientId = (req as any).user?.patient?.id;
+
+  try {
+    const delegates = await prisma.patientDelegate.findMany({
+      where: { patientId, revokedAt: null },
+      select: delegateSelect,
+      orderBy: { createdAt: "desc" },
+    });
+
+    res.status(200).json(new ApiResponse(200, delegates));
+  } catch (error) {
+    console.error("Error fetching delegates:", error);
+    res.status(500).json(new ApiError(500, "Failed to fetch delegates!", [error]));
+  }
+};
+
+const updateDelegateScopes = async (req: Request, res: Response): Promise<void> => {
+  const patientId = (req as any).user?.patient?.id;
+  const delegationId = req.params.delegationId as string;
+
+  try {
+    if (!delegationId || !isValidUUID(delegationId)) {
+      res.status(400).json(new ApiError(400, "Valid delegation ID is required"));
+      return;
+    }
+
+    const parsedScopes = parseScopes(req.body.scopes);
+    if (!parsedScopes) {
+      res
+        .status(400)
+        .json(new ApiError(400, `scopes must be a non-empty array of: ${VALID_SCOPES.join(", ")}`));
+      return;
+    }
+
+    const updated = await prisma.patientDelegate.updateMany({
+      where: { id: delegationId, patientId, revokedAt: null },
+      data: { scopes: parsedScopes },
+    });
+
+    if (updated.count === 0) {
+      res.status(404).json(new ApiError(404, "Delegate not found"));
+      return;
+    }
+
+    const delegation = await prisma.patientDelegate.findUnique({
+      where: { id: delegationId },
+      select: delegateSelect,
+    });
+
+    res.status(200).json(new ApiResponse(200, delegation, "Delegate access updated"));
+  } catch (error) {
+    console.error("Error updating delegate access:", error);
+    res.status(500).json(new ApiError(500, "Failed to update delegate access!", [error]));
+  }
+};
+
+const revokeDelegate = async (req: Request, res: Response): Promise<void> => {
+  const patientId = (req as any).user?.patient?.id;
+  const delegationId = req.params.delegationId as string;
+
+  try {
+    if (!delegationId || !isValidUUID(delegationId)) {
+      res.status(400).json(new ApiError(400, "Valid delegation ID is required"));
+      return;
+    }
+
+    const revoked = await prisma.patientDelegate.updateMany({
+      where: { id: delegationId, patientId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+
+    if (revoked.count === 0) {
+      res.status(404).json(new ApiError(404, "Delegate not found"));
+      return;
+    }
+
+    res.status(200).json(new ApiResponse(200, {}, "Delegate access revoked"));
+  } catch (error) {
+    console.error("Error revoking delegate access:", error);
+    res.status(500).json(new ApiError(500, "Failed to revoke delegate access!", [error]));
+  }
+};
+
+// Everything delegates have done on the authenticated patient's account
+const getDelegationAuditLog = async (req: Request, res: Response): Promise<void> => {
+  const patientId = (req as any).user?.patient?.id;
+
+  try {
+    const page = Math.max(1, parseInt(req.query.page as string) || 1);
+    const limit = Math.min(100, Math.max(1, parseInt(req.query.limit as string) || 20));
+
+    const [entries, totalCount] = await Promise.all([
+      prisma.delegationAuditLog.findMany({
+        where: { patientId },
+        select: {
+          id: true,
+          method: true,
+          path: true,
+          statusCode: true,
+          createdAt: true,
+          delegation: {
+            select: {
+              delegate: { select: { id: true, name: true, email: true } },
+            },
+          },
+        },
+        orderBy: { createdAt: "desc" },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.delegationAuditLog.count({ where: { patientId } }),
+    ]);
+
+    const totalPages = Math.ceil(totalCount / limit);
+
+    res.status(200).json(
+      new ApiResponse(200, {
+        entries,
+        pagination: {
+          page,
+          limit,
+          totalCount,
+          totalPages,
+          hasNextPage: page < totalPages,
+          hasPrevPage: page > 1,
+        },
+      })
+    );
+  } catch (error) {
+    console.error("Error fetching delegation audit log:", error);
+    res.status(500).json(new ApiError(500, "Failed to fetch delegation audit log!", [error]));
+  }
+};
+
+// Patients the authenticated user may act for, with the X-Acting-Patient-Id to send
+const listMyDelegations = async (req: Request, res: Response): Promise<void> => {
+  const userId = (req as any).user?.id;
+
+  try {
+    const delegations = await prisma.patientDelegate.findMany({
+      where: {
+        delegateUserId: userId,
+        revokedAt: null,
+        patient: { user: { deletedAt: null } },
+      },
+      select: {
+        id: true,
+        scopes: true,
+        createdAt: true,
+        patient: {
+          select: {
+            id: true,
+            user: { select: { name: true, profilePicture: true } },
+          },
+        },
+      },
+      orderBy: { createdAt: "desc" },
+    });
+
+    res.status(200).json(new ApiResponse(200, delegations));
+  } catch (error) {
+    console.error("Error fetching delegations:", error);
+    res.status(500).json(new ApiError(500, "Failed to fetch delegations!", [error]));
+  }
+};
+
+export {
+  grantDelegate,
+  listDelegates,
+  updateDelegateScopes,
+  revokeDelegate,
+  getDelegationAuditLog,
+  listMyDelegations,
+};
@@ -1,13 +1,47 @@
 import { Request, Response } from "express";
-import { UserInRequest } from "../utils/helper";
+import { getActorUserId, isValidUUID, UserInRequest } from "../utils/helper";
 import {
   AppointmentStatus,
   TimeSlotStatus,
   Prisma,
+  CredentialDocumentType,
+  DoctorVerificationStatus,
+  Role,
 } from "@prisma/client";
 import { ApiResponse } from "../utils/ApiResponse";
 import { ApiError } from "../utils/ApiError";
 import prisma from "../utils/prismClient";
+import {
+  AvailabilityRuleWindow,
+  parseTimeOfDay,
+  rulesOverlap,
+} from "../utils/availability";
+import {
+  addCalendarDays,
+  calendarDateInZone,
+  formatDateInZone,
+  formatTimeInZone,
+  parseCalendarDate,
+  zonedTimeToUtc,
+} from "../utils/timezone";
+import { offerSlotToWaitlist, withdrawSlotOffers } from "../utils/waitlist";
+import { appointmentPartiesInclude, proposeAppointmentTimes } from "../utils/reschedule";
+import { appointmentIcsAttachment } from "../utils/ical";
+import { countRecentNoShows } from "../utils/noShows";
+import {
+  getSchedulingPolicy,
+  ruleWorkingHoursViolation,
+  SchedulingPolicy,
+  withBuffer,
+  workingHoursViolation,
+} from "../utils/schedulingPolicy";
+import { refundAppointmentPayment } from "../payments/invoices";
+import { transitionAppointment } from "../utils/appointmentStateMachine";
+import {
+  CancellationPolicy,
+  cancellationPolicySummary,
+  getCancellationPolicy,
+} from "../utils/cancellationPolicy";
 import { time } from "console";
 import doc from "pdfkit";
 import { sendEmail, appointmentStatusTemplate, prescriptionTemplate } from "../utils/emailService";
@@ -39,11 +73,7 @@ const viewDoctorAppointment = async (
     }
 
     if (upcoming === "true") {
-      filters.timeSlot = {
-        startTime: {
-          gte: new Date(),
-        },
-      };
+      filters.scheduledAt = { gte: new Date() };
     }
 
     const appointments = await prisma.appointment.findMany({
@@ -61,11 +91,7 @@ const viewDoctorAppointment = async (
         },
         timeSlot: true,
       },
-      // orderBy: {
-      //   timeSlot: {
-      //     startTime: "asc",
-      //   },
-      // },
+      orderBy: { scheduledAt: "asc" },
     });
 
     const formattedAppointments = appointments.map((appointment: any) => ({
@@ -74,6 +100,7 @@ const viewDoctorAppointment = async (
       patientName: appointment.patient.user.name,
       profilePicture: appointment.patient.user.profilePicture,
       notes: appointment.notes,
+      scheduledAt: appointment.scheduledAt,
       appointmentTime: {
         startTime: appointment.timeSlot?.startTime,
         endTime: appointment.timeSlot?.endTime,
@@ -88,6 +115,31 @@ const viewDoctorAppointment = async (
   }
 };
 
+// Tells the patient the doctor cancelled, with an .ics cancellation for their calendar
+const emailPatientCancellation = (
+  appointment: { id: string; scheduledAt: Date; patient: { user: { email: string; timeZone: string } } },
+  doctorName: string,
+  reason?: string
+) => {
+  const { email, timeZone } = appointment.patient.user;
+  appointmentIcsAttachment(appointment.id, "CANCEL", Role.PATIENT)
+    .then((invite) =>
+      sendEmail({
+        to: email,
+        subject: "Appointment Cancelled",
+        html: appointmentStatusTemplate(
+          doctorName,
+          "CANCELLED",
+          formatDateInZone(appointment.scheduledAt, timeZone),
+          formatTimeInZone(appointment.scheduledAt, timeZone),
+          reason
+        ),
+        attachments: [invite],
+      })
+    )
+    .catch(err => console.error("Failed to send appointment status email:", err));
+};
+
 const updateAppointmentStatus = async (req: Request, res: Response) => {
   const { id } = (req as any).params;
   const { status, notes, prescriptionText } = req.body;
@@ -109,6 +161,7 @@ const updateAppointmentStatus = async (req: Request, res: Response) => {
               select: {
                 name: true,
                 email: true,
+                timeZone: true,
               }
             }
           }
@@ -124,17 +177,20 @@ const updateAppointmentStatus = async (req: Request, res: Response) => {
         },
       },
     });
-    if (!appointment) {
+    if (!appointment || appointment.doctorId !== (req as any).user?.doctor?.id) {
       res.status(400).json(new ApiError(400, "Appointment not found!"));
       return;
     }
-    const updatedAppointment = await prisma.appointment.update({
-      where: { id },
-      data: {
-        status: status as AppointmentStatus,
-        notes: notes || undefined,
-      },
-    });
+    await prisma.$transaction((tx) =>
+      transitionAppointment(
+        tx,
+        appointment,
+        status as AppointmentStatus,
+        { role: Role.DOCTOR, userId: getActorUserId(req) },
+        { reason: notes, data: { notes: notes || undefined } }
+      )
+    );
+    const updatedAppointment = await prisma.appointment.findUniqueOrThrow({ where: { id } });
     if (status === "CANCELLED") {
       if (appointment.timeSlotId) {
         await prisma.timeSlot.update({
@@ -143,7 +199,10 @@ const updateAppointmentStatus = async (req: Request, res: Response) => {
             status: TimeSlotStatus.AVAILABLE,
           },
         });
+        await offerSlotToWaitlist(appointment.timeSlotId);
       }
+      await refundAppointmentPayment(appointment, "Appointment cancelled by the doctor");
+      emailPatientCancellation(appointment, appointment.doctor.user.name, notes);
     }
     if (status === "COMPLETED" && prescriptionText) {
       const prescription = await prisma.prescription.create({
@@ -166,11 +225,11 @@ const updateAppointmentStatus = async (req: Request, res: Response) => {
 
       // Send prescription email asynchronously
       sendEmail({
-        to: (appointment as any).patient.user.email,
+        to: appointment.patient.user.email,
         subject: "New Prescription Available - CareXpert",
         html: prescriptionTemplate(
-          (appointment as any).doctor.user.name,
-          new Date().toLocaleDateString()
+          appointment.doctor.user.name,
+          formatDateInZone(prescription.dateIssued, appointment.patient.user.timeZone)
         ),
       }).catch(err => console.error("Failed to send prescription email:", err));
     }
@@ -184,6 +243,10 @@ const updateAppointmentStatus = async (req: Request, res: Response) => {
         )
       );
   } catch (error) {
+    if (error instanceof ApiError) {
+      res.status(error.statusCode).json(error);
+      return;
+    }
     res
       .status(500)
       .json(new ApiError(500, "Failed to update appointment", [error]));
@@ -216,7 +279,7 @@ const addTimeslot = async (req: Request, res: Response) => {
     const userId = (req as any).user?.id;
     const doctor = await prisma.doctor.findUnique({
       where: { userId },
-      select: { id: true },
+      select: { id: true, user: { select: { timeZone: true } } },
     });
 
     if (!doctor) {
@@ -224,11 +287,20 @@ const addTimeslot = async (req: Request, res: Response) => {
       return;
     }
 
+    const policy = await getSchedulingPolicy(prisma, doctor.id);
+    const outsideWorkingHours = workingHoursViolation(policy, start, end, doctor.user.timeZone);
+    if (outsideWorkingHours) {
+      res.status(400).json(new ApiError(400, outsideWorkingHours));
+      return;
+    }
+
+    // Slots closer than the buffer count as overlapping
+    const buffered = withBuffer(policy, start, end);
     const existingTimeslot = await prisma.timeSlot.findFirst({
       where: {
         doctorId: doctor.id,
-        startTime: { lt: end },
-        endTime: { gt: start },
+        startTime: { lt: buffered.end },
+        endTime: { gt: buffered.start },
       },
       select: { id: true },
     });
@@ -236,7 +308,14 @@ const addTimeslot = async (req: Request, res: Response) => {
     if (existingTimeslot) {
       res
         .status(400)
-        .json(new ApiError(400, "Timeslot overlap with the existing timeslot"));
+        .json(
+          new ApiError(
+            400,
+            policy.bufferMinutes > 0
+              ? `Timeslot must be at least ${policy.bufferMinutes} minutes away from existing timeslots`
+              : "Timeslot overlap with the existing timeslot"
+          )
+        );
       return;
     }
 
@@ -281,7 +360,7 @@ const generateBulkTimeSlots = async (req: Request, res: Response) => {
     const userId = (req as any).user?.id;
     const doctor = await prisma.doctor.findUnique({
       where: { userId },
-      select: { id: true },
+      select: { id: true, user: { select: { timeZone: true } } },
     });
 
     if (!doctor) {
@@ -289,11 +368,13 @@ const generateBulkTimeSlots = async (req: Request, res: Response) => {
       return;
     }
 
-    const start = new Date(startDate);
-    const end = new Date(endDate);
+    // Dates and times are wall-clock values in the doctor's time zone
+    const timeZone = doctor.user.timeZone;
+    const start = parseCalendarDate(startDate);
+    const end = parseCalendarDate(endDate);
     
-    if (isNaN(start.getTime()) || isNaN(end.getTime())) {
-      res.status(400).json(new ApiError(400, "Invalid date format"));
+    if (!start || !end) {
+      res.status(400).json(new ApiError(400, "Invalid date format. Use YYYY-MM-DD"));
       return;
     }
 
@@ -310,9 +391,12 @@ const generateBulkTimeSlots = async (req: Request, res: Response) => {
       return;
     }
 
+    // Slots are spaced by the buffer and kept inside working hours
+    const policy = await getSchedulingPolicy(prisma, doctor.id);
+
     const createdSlots: any[] = [];
     const skippedSlots: any[] = [];
-    const currentDate = new Date(start);
+    let currentDate = start;
 
     // Loop through each date
     while (currentDate <= end) {
@@ -329,28 +413,27 @@ const generateBulkTimeSlots = async (req: Request, res: Response) => {
         const slotEndHour = Math.floor(slotEndMinutes / 60);
         const slotEndMinute = slotEndMinutes % 60;
 
-        const slotStart = new Date(dateStr);
-        slotStart.setHours(slotStartHour, slotStartMinute, 0, 0);
-        
-        const slotEnd = new Date(dateStr);
-        slotEnd.setHours(slotEndHour, slotEndMinute, 0, 0);
+        const slotStart = zonedTimeToUtc(currentDate, currentMinutes, timeZone);
+        const slotEnd = zonedTimeToUtc(currentDate, slotEndMinutes, timeZone);
 
-        // Check for overlap
+        // Check for overlap, counting the buffer around each slot
+        const buffered = withBuffer(policy, slotStart, slotEnd);
         const existingTimeslot = await prisma.timeSlot.findFirst({
           where: {
             doctorId: doctor.id,
-            startTime: { lt: slotEnd },
-            endTime: { gt: slotStart },
+            startTime: { lt: buffered.end },
+            endTime: { gt: buffered.start },
           },
           select: { id: true },
         });
+        const outsideWorkingHours = workingHoursViolation(policy, slotStart, slotEnd, timeZone);
 
-        if (existingTimeslot) {
+        if (existingTimeslot || outsideWorkingHours) {
           skippedSlots.push({
             date: dateStr,
             startTime: `${slotStartHour < 10 ? '0' : ''}${slotStartHour}:${slotStartMinute < 10 ? '0' : ''}${slotStartMinute}`,
             endTime: `${slotEndHour < 10 ? '0' : ''}${slotEndHour}:${slotEndMinute < 10 ? '0' : ''}${slotEndMinute}`,
-            reason: "Overlaps with existing slot"
+            reason: outsideWorkingHours ?? (policy.bufferMinutes > 0 ? "Overlaps with or is too close to an existing slot" : "Overlaps with existing slot")
           });
         } else {
           // Create the timeslot
@@ -364,11 +447,11 @@ const generateBulkTimeSlots = async (req: Request, res: Response) => {
           createdSlots.push(timeSlot);
         }
 
-        currentMinutes += durationInMinutes;
+        currentMinutes += durationInMinutes + policy.bufferMinutes;
       }
 
       // Move to next day
-      currentDate.setDate(currentDate.getDate() + 1);
+      currentDate = addCalendarDays(currentDate, 1);
     }
 
     res.status(200).json(new ApiResponse(200, {
@@ -392,26 +475,37 @@ const cancelAppointment = async (req: Request, res: any) => {
       res
         .status(400)
         .json(new ApiError(400, "Only doctor can cancel Appointments!"));
+      return;
     }
     const appointment = await prisma.appointment.findUnique({
       where: { id: appointmentId },
-      include: { timeSlot: true },
+      include: {
+        timeSlot: true,
+        patient: { select: { user: { select: { email: true, timeZone: true } } } },
+        doctor: { select: { user: { select: { name: true } } } },
+      },
     });
 
     if (!appointment || doctorId !== appointment.doctorId) {
       res
         .status(400)
         .json(new ApiError(400, "Appointment not found or Unauthorized"));
+      return;
     } else if (appointment.status === AppointmentStatus.CANCELLED) {
       res.status(400).json(new ApiError(400, "Appointment already Cancelled!"));
+      return;
     }
 
-    const updatedAppointment = await prisma.appointment.update({
-      where: { id: appointmentId },
-      data: {
-        status: AppointmentStatus.CANCELLED,
-      },
-    });
+    // Cancellations by the doctor are always free for the patient
+    await prisma.$transaction((tx) =>
+      transitionAppointment(
+        tx,
+        appointment,
+        AppointmentStatus.CANCELLED,
+        { role: Role.DOCTOR, userId: getActorUserId(req) },
+        { reason: "Cancelled by the doctor" }
+      )
+    );
 
     // Update time slot if it exists
     if (appointment?.timeSlotId) {
@@ -421,11 +515,20 @@ const cancelAppointment = async (req: Request, res: any) => {
           status: TimeSlotStatus.AVAILABLE,
         },
       });
+      await offerSlotToWaitlist(appointment.timeSlotId);
+    }
+    if (appointment) {
+      await refundAppointmentPayment(appointment, "Appointment cancelled by the doctor");
+      emailPatientCancellation(appointment, appointment.doctor.user.name);
     }
     return res
       .status(200)
       .json(new ApiResponse(500, "Appointment Cancelled successfully!"));
   } catch (error) {
+    if (error instanceof ApiError) {
+      res.status(error.statusCode).json(error);
+      return;
+    }
     res
       .status(500)
       .json(
@@ -550,7 +653,7 @@ const updateTimeSlot = async (req: Request, res: Response) => {
 };
 
 const deleteTimeSlot = async (req: Request, res: Response) => {
-  const timeSlotID = (req as any).params.timeSlotID;
+  const timeSlotID = req.params.timeSlotId as string;
   const doctorId = (req as any).user?.doctor?.id;
 
   if (!doctorId) {
@@ -580,8 +683,11 @@ const deleteTimeSlot = async (req: Request, res: Response) => {
       return;
     }
 
-    await prisma.timeSlot.delete({
-      where: { id: timeSlotID },
+    await prisma.$transaction(async (tx) => {
+      await withdrawSlotOffers(tx, timeSlotID);
+      await tx.timeSlot.delete({
+        where: { id: timeSlotID },
+      });
     });
 
     res
@@ -690,11 +796,7 @@ const getAllDoctorAppointments = async (
     }
 
     if (upcoming === "true") {
-      filters.timeSlot = {
-        startTime: {
-          gte: new Date(),
-        },
-      };
+      filters.scheduledAt = { gte: new Date() };
     }
 
     const appointments = await prisma.appointment.findMany({
@@ -713,17 +815,14 @@ const getAllDoctorAppointments = async (
         },
         timeSlot: true,
       },
-      orderBy: {
-        timeSlot: {
-          startTime: "asc",
-        },
-      },
+      orderBy: { scheduledAt: "asc" },
     });
 
     const formattedAppointments = appointments.map((appointment: any) => ({
       id: appointment.id,
       status: appointment.status,
       appointmentType: appointment.appointmentType,
+      scheduledAt: appointment.scheduledAt,
       date: appointment.date,
       time: appointment.time,
       notes: appointment.notes,
@@ -792,10 +891,16 @@ const getPendingAppointmentRequests = async (req: Request, res: Response): Promi
       },
     });
 
+    const noShowCounts = await countRecentNoShows(
+      prisma,
+      [...new Set(pendingRequests.map((request) => request.patientId))]
+    );
+
     const formattedRequests = pendingRequests.map((request: any) => ({
       id: request.id,
       status: request.status,
       appointmentType: request.appointmentType,
+      scheduledAt: request.scheduledAt,
       date: request.date,
       time: request.time,
       notes: request.notes,
@@ -807,6 +912,8 @@ const getPendingAppointmentRequests = async (req: Request, res: Response): Promi
         email: request.patient.user.email,
         profilePicture: request.patient.user.profilePicture,
         medicalHistory: request.patient.medicalHistory,
+        // Missed appointments with any doctor in the last NO_SHOW_LOOKBACK_DAYS
+        noShowCount: noShowCounts.get(request.patientId) ?? 0,
       },
       timeSlot: request.timeSlot ? {
         id: request.timeSlot.id,
@@ -824,13 +931,14 @@ const getPendingAppointmentRequests = async (req: Request, res: Response): Promi
 };
 
 const respondToAppointmentRequest = async (req: Request, res: Response): Promise<void> => {
-  const { appointmentId } = req.params;
-  const { action, rejectionReason, alternativeSlots } = req.body; // action: "accept" or "reject"
+  const appointmentId = req.params.appointmentId as string;
+  // action: "accept", "reject" or "propose" (options: other times for the patient to pick from)
+  const { action, rejectionReason, options, message: proposalMessage } = req.body;
   const userId = (req as any).user?.id;
 
   try {
-    if (!["accept", "reject"].includes(action)) {
-      res.status(400).json(new ApiError(400, "Action must be 'accept' or 'reject'"));
+    if (!["accept", "reject", "propose"].includes(action)) {
+      res.status(400).json(new ApiError(400, "Action must be 'accept', 'reject' or 'propose'"));
       return;
     }
 
@@ -854,6 +962,7 @@ const respondToAppointmentRequest = async (req: Request, res: Response): Promise
                 id: true,
                 name: true,
                 email: true,
+                timeZone: true,
               },
             },
           },
@@ -872,17 +981,40 @@ const respondToAppointmentRequest = async (req: Request, res: Response): Promise
       return;
     }
 
+    // Counter-propose: the request stays pending until the patient accepts one of
+    // the times, which moves and confirms it
+    if (action === "propose") {
+      const withParties = await prisma.appointment.findUniqueOrThrow({
+        where: { id: appointmentId },
+        include: appointmentPartiesInclude,
+      });
+      const proposal = await proposeAppointmentTimes(
+        withParties,
+        Role.DOCTOR,
+        userId,
+        options,
+        typeof proposalMessage === "string" ? proposalMessage.trim() : null
+      );
+      res.status(201).json(new ApiResponse(201, proposal, "New times proposed to the patient"));
+      return;
+    }
+
     let updatedAppointment;
     let notification;
+    // Shown to the patient in their own time zone
+    const patientTimeZone = appointment.patient.user.timeZone;
+    const appointmentDate = formatDateInZone(appointment.scheduledAt, patientTimeZone);
+    const appointmentTime = formatTimeInZone(appointment.scheduledAt, patientTimeZone);
 
     if (action === "accept") {
       // Accept the appointment
-      updatedAppointment = await prisma.appointment.update({
-        where: { id: appointmentId },
-        data: {
-          status: AppointmentStatus.CONFIRMED,
-        },
-      });
+      await prisma.$transaction((tx) =>
+        transitionAppointment(tx, appointment, AppointmentStatus.CONFIRMED, {
+          role: Role.DOCTOR,
+          userId: getActorUserId(req),
+        })
+      );
+      updatedAppointment = await prisma.appointment.findUniqueOrThrow({ where: { id: appointmentId } });
 
       // Create notification for patient
       notification = await prisma.notification.create({
@@ -890,7 +1022,7 @@ const respondToAppointmentRequest = async (req: Request, res: Response): Promise
           userId: appointment.patient.user.id,
           type: "APPOINTMENT_ACCEPTED",
           title: "Appointment Confirmed",
-          message: `Your appointment with Dr. ${doctor.user.name} has been confirmed for ${new Date(appointment.date).toLocaleDateString()} at ${appointment.time}.`,
+          message: `Your appointment with Dr. ${doctor.user.name} has been confirmed for ${appointmentDate} at ${appointmentTime}.`,
           appointmentId: appointment.id,
         },
       });
@@ -905,22 +1037,23 @@ const respondToAppointmentRequest = async (req: Request, res: Response): Promise
 
     } else {
       // Reject the appointment
-      updatedAppointment = await prisma.appointment.update({
-        where: { id: appointmentId },
-        data: {
-          status: AppointmentStatus.REJECTED,
-          notes: rejectionReason || "Appointment request rejected by doctor",
-        },
-      });
+      const notes = rejectionReason || "Appointment request rejected by doctor";
+      await prisma.$transaction((tx) =>
+        transitionAppointment(
+          tx,
+          appointment,
+          AppointmentStatus.REJECTED,
+          { role: Role.DOCTOR, userId: getActorUserId(req) },
+          { reason: notes, data: { notes } }
+        )
+      );
+      updatedAppointment = await prisma.appointment.findUniqueOrThrow({ where: { id: appointmentId } });
 
-      // Create notification for patient with alternative slots
+      // Create notification for patient
       let message = `Your appointment request with Dr. ${doctor.user.name} has been declined.`;
       if (rejectionReason) {
         message += ` Reason: ${rejectionReason}`;
       }
-      if (alternativeSlots && alternativeSlots.length > 0) {
-        message += ` Suggested alternative time slots: ${alternativeSlots.join(", ")}`;
-      }
 
       notification = await prisma.notification.create({
         data: {
@@ -938,21 +1071,27 @@ const respondToAppointmentRequest = async (req: Request, res: Response): Promise
           where: { id: appointment.timeSlotId },
           data: { status: TimeSlotStatus.AVAILABLE },
         });
+        await offerSlotToWaitlist(appointment.timeSlotId);
       }
     }
 
-    // Send email to patient asynchronously
-    sendEmail({
-      to: appointment.patient.user.email,
-      subject: action === "accept" ? "Appointment Confirmed" : "Appointment Request Declined",
-      html: appointmentStatusTemplate(
-        doctor.user.name,
-        action === "accept" ? "CONFIRMED" : "REJECTED",
-        new Date(appointment.date).toLocaleDateString(),
-        appointment.time,
-        action === "accept" ? undefined : rejectionReason
-      ),
-    }).catch(err => console.error("Failed to send appointment status email:", err));
+    // Send email to patient asynchronously, with a calendar invite (or its cancellation)
+    appointmentIcsAttachment(appointment.id, action === "accept" ? "REQUEST" : "CANCEL", Role.PATIENT)
+      .then((invite) =>
+        sendEmail({
+          to: appointment.patient.user.email,
+          subject: action === "accept" ? "Appointment Confirmed" : "Appointment Request Declined",
+          html: appointmentStatusTemplate(
+            doctor.user.name,
+            action === "accept" ? "CONFIRMED" : "REJECTED",
+            appointmentDate,
+            appointmentTime,
+            action === "accept" ? undefined : rejectionReason
+          ),
+          attachments: [invite],
+        })
+      )
+      .catch(err => console.error("Failed to send appointment status email:", err));
 
     res.status(200).json(new ApiResponse(200, {
       appointment: updatedAppointment,
@@ -961,6 +1100,10 @@ const respondToAppointmentRequest = async (req: Request, res: Response): Promise
     }));
 
   } catch (error) {
+    if (error instanceof ApiError) {
+      res.status(error.statusCode).json(error);
+      return;
+    }
     console.error("Error responding to appointment request:", error);
     res.status(500).json(new ApiError(500, "Failed to process appointment request!", [error]));
   }
@@ -1100,10 +1243,15 @@ const addPrescriptionToAppointment = async (req: Request, res: Response): Promis
 
 // Mark an appointment as completed
 const markAppointmentCompleted = async (req: Request, res: Response): Promise<void> => {
-  const { appointmentId } = req.params;
+  const appointmentId = req.params.appointmentId as string;
   const doctorUserId = (req as any).user?.id;
 
   try {
+    if (!isValidUUID(appointmentId)) {
+      res.status(400).json(new ApiError(400, "Invalid appointment ID"));
+      return;
+    }
+
     const doctor = await prisma.doctor.findUnique({ where: { userId: doctorUserId } });
     if (!doctor) {
       res.status(403).json(new ApiError(403, "Only doctors can change status"));
@@ -1116,17 +1264,828 @@ const markAppointmentCompleted = async (req: Request, res: Response): Promise<vo
       return;
     }
 
-    const updated = await prisma.appointment.update({
-      where: { id: appointmentId },
-      data: { status: AppointmentStatus.COMPLETED },
-    });
+    await prisma.$transaction((tx) =>
+      transitionAppointment(tx, appointment, AppointmentStatus.COMPLETED, {
+        role: Role.DOCTOR,
+        userId: getActorUserId(req),
+      })
+    );
 
+    const updated = await prisma.appointment.findUnique({ where: { id: appointment.id } });
     res.status(200).json(new ApiResponse(200, updated, "Appointment marked as completed"));
   } catch (error) {
+    if (error instanceof ApiError) {
+      res.status(error.statusCode).json(error);
+      return;
+    }
     res.status(500).json(new ApiError(500, "Failed to mark appointment as completed", [error]));
   }
 };
 
+// Record that the patient didn't attend a confirmed appointment whose time has passed
+const markAppointmentNoShow = async (req: Request, res: Response): Promise<void> => {
+  const appointmentId = req.params.appointmentId as string;
+  const doctorId = (req as any).user?.doctor?.id;
+
+  try {
+    if (!isValidUUID(appointmentId)) {
+      res.status(400).json(new ApiError(400, "Invalid appointment ID"));
+      return;
+    }
+
+    const appointment = await prisma.appointment.findUnique({
+      where: { id: appointmentId },
+      include: {
+        patient: { select: { user: { select: { id: true, timeZone: true } } } },
+        doctor: { select: { user: { select: { name: true } } } },
+      },
+    });
+    if (!appointment || appointment.doctorId !== doctorId) {
+      res.status(404).json(new ApiError(404, "Appointment not found or unauthorized"));
+      return;
+    }
+
+    // Only confirmed appointments whose time has come
+    await prisma.$transaction((tx) =>
+      transitionAppointment(tx, appointment, AppointmentStatus.NO_SHOW, {
+        role: Role.DOCTOR,
+        userId: getActorUserId(req),
+      })
+    );
+
+    await prisma.notification.create({
+      data: {
+        userId: appointment.patient.user.id,
+        type: "APPOINTMENT_NO_SHOW",
+        title: "Missed Appointment",
+        message: `Your appointment with Dr. ${appointment.doctor.user.name} on ${formatDateInZone(appointment.scheduledAt, appointment.patient.user.timeZone)} at ${formatTimeInZone(appointment.scheduledAt, appointment.patient.user.timeZone)} was marked as missed.`,
+        appointmentId,
+      },
+    });
+
+    const updated = await prisma.appointment.findUnique({ where: { id: appointmentId } });
+    res.status(200).json(new ApiResponse(200, updated, "Appointment marked as a no-show"));
+  } catch (error) {
+    if (error instanceof ApiError) {
+      res.status(error.statusCode).json(error);
+      return;
+    }
+    res.status(500).json(new ApiError(500, "Failed to mark appointment as a no-show", [error]));
+  }
+};
+
+// Past confirmed appointments the outcome sweep has asked the doctor to resolve
+const getAppointmentsAwaitingOutcome = async (req: Request, res: Response): Promise<void> => {
+  const doctorId = (req as any).user?.doctor?.id;
+
+  try {
+    const appointments = await prisma.appointment.findMany({
+      where: {
+        doctorId,
+        status: AppointmentStatus.CONFIRMED,
+        outcomeRequestedAt: { not: null },
+      },
+      include: {
+        patient: { select: { id: true, user: { select: { name: true, email: true } } } },
+        timeSlot: true,
+      },
+      orderBy: { scheduledAt: "asc" },
+    });
+
+    const noShowCounts = await countRecentNoShows(
+      prisma,
+      [...new Set(appointments.map((appointment) => appointment.patientId))]
+    );
+
+    const formatted = appointments.map((appointment) => ({
+      id: appointment.id,
+      scheduledAt: appointment.scheduledAt,
+      date: appointment.date,
+      time: appointment.time,
+      appointmentType: appointment.appointmentType,
+      outcomeRequestedAt: appointment.outcomeRequestedAt,
+      patient: {
+        id: appointment.patient.id,
+        name: appointment.patient.user.name,
+        email: appointment.patient.user.email,
+        noShowCount: noShowCounts.get(appointment.patientId) ?? 0,
+      },
+      timeSlot: appointment.timeSlot,
+    }));
+
+    res.status(200).json(new ApiResponse(200, formatted, "Appointments awaiting an outcome fetched successfully"));
+  } catch (error) {
+    res.status(500).json(new ApiError(500, "Failed to fetch appointments awaiting an outcome", [error]));
+  }
+};
+
+// Documents are frozen while an admin is looking at them
+const CREDENTIAL_LOCKED_STATUSES: DoctorVerificationStatus[] = [
+  DoctorVerificationStatus.SUBMITTED,
+  DoctorVerificationStatus.UNDER_REVIEW,
+];
+const SUBMITTABLE_STATUSES: DoctorVerificationStatus[] = [
+  DoctorVerificationStatus.NOT_SUBMITTED,
+  DoctorVerificationStatus.REJECTED,
+  DoctorVerificationStatus.EXPIRED,
+];
+
+// Upload a license / registration document for credential verification
+const uploadCredential = async (req: Request, res: Response): Promise<void> => {
+  const doctorUserId = (req as any).user?.id;
+  const { type } = req.body;
+  const file = (req as any).file;
+
+  try {
+    if (!file) {
+      res.status(400).json(new ApiError(400, "No file uploaded"));
+      return;
+    }
+
+    if (!type || !Object.values(CredentialDocumentType).includes(type)) {
+      res
+        .status(400)
+        .json(new ApiError(400, `type must be one of: ${Object.values(CredentialDocumentType).join(", ")}`));
+      return;
+    }
+
+    const doctor = await prisma.doctor.findUnique({ where: { userId: doctorUserId } });
+    if (!doctor) {
+      res.status(404).json(new ApiError(404, "Doctor profile not found"));
+      return;
+    }
+
+    if (CREDENTIAL_LOCKED_STATUSES.includes(doctor.verificationStatus)) {
+      res
+        .status(409)
+        .json(new ApiError(409, "Documents cannot be changed while your verification is under review"));
+      return;
+    }
+
+    const credential = await prisma.doctorCredential.create({
+      data: {
+        doctorId: doctor.id,
+        type,
+        filename: file.originalname,
+        fileUrl: file.path,
+        mimeType: file.mimetype,
+        fileSize: file.size,
+      },
+    });
+
+    res.status(201).json(new ApiResponse(201, credential, "Document uploaded successfully"));
+  } catch (error) {
+    res.status(500).json(new ApiError(500, "Failed to upload document", [error]));
+  }
+};
+
+// Current verification status, uploaded documents and review history
+const getVerificationStatus = async (req: Request, res: Response): Promise<void> => {
+  const doctorUserId = (req as any).user?.id;
+
+  try {
+    const doctor = await prisma.doctor.findUnique({
+      where: { userId: doctorUserId },
+      select: {
+        id: true,
+        verificationStatus: true,
+        licenseNumber: true,
+        licenseExpiresAt: true,
+        verifiedAt: true,
+        credentials: { orderBy: { uploadedAt: "desc" } },
+        // Reviewer notes are internal; doctors only see the outcome and rejection reason
+        verificationReviews: {
+          select: {
+            fromStatus: true,
+            toStatus: true,
+            rejectionReason: true,
+            createdAt: true,
+          },
+          orderBy: { createdAt: "desc" },
+        },
+      },
+    });
+
+    if (!doctor) {
+      res.status(404).json(new ApiError(404, "Doctor profile not found"));
+      return;
+    }
+
+    res.status(200).json(new ApiResponse(200, doctor, "Verification status fetched successfully"));
+  } catch (error) {
+    res.status(500).json(new ApiError(500, "Failed to fetch verification status", [error]));
+  }
+};
+
+// Submit uploaded documents for admin review
+const submitForVerification = async (req: Request, res: Response): Promise<void> => {
+  const doctorUserId = (req as any).user?.id;
+  const { licenseNumber, licenseExpiresAt } = req.body;
+
+  try {
+    if (!licenseNumber || typeof licenseNumber !== "string" || licenseNumber.trim() === "") {
+      res.status(400).json(new ApiError(400, "licenseNumber is required"));
+      return;
+    }
+
+    const expiresAt = new Date(licenseExpiresAt);
+    if (!licenseExpiresAt || isNaN(expiresAt.getTime()) || expiresAt <= new Date()) {
+      res.status(400).json(new ApiError(400, "licenseExpiresAt must be a valid future date"));
+      return;
+    }
+
+    const doctor = await prisma.doctor.findUnique({
+      where: { userId: doctorUserId },
+      include: { credentials: { select: { type: true } } },
+    });
+    if (!doctor) {
+      res.status(404).json(new ApiError(404, "Doctor profile not found"));
+      return;
+    }
+
+    if (!SUBMITTABLE_STATUSES.includes(doctor.verificationStatus)) {
+      res
+        .status(409)
+        .json(new ApiError(409, `Cannot submit for verification while status is ${doctor.verificationStatus}`));
+      return;
+    }
+
+    const uploadedTypes = doctor.credentials.map((credential) => credential.type);
+    if (
+      !uploadedTypes.includes(CredentialDocumentType.LICENSE) ||
+      !uploadedTypes.includes(CredentialDocumentType.REGISTRATION)
+    ) {
+      res
+        .status(400)
+        .json(new ApiError(400, "Upload at least one LICENSE and one REGISTRATION document before submitting"));
+      return;
+    }
+
+    const updated = await prisma.$transaction(async (tx) => {
+      // Conditional on the status we checked so a concurrent review cannot be overwritten
+      const result = await tx.doctor.updateMany({
+        where: { id: doctor.id, verificationStatus: doctor.verificationStatus },
+        data: {
+          verificationStatus: DoctorVerificationStatus.SUBMITTED,
+          licenseNumber: licenseNumber.trim(),
+          licenseExpiresAt: expiresAt,
+          verificationSubmittedAt: new Date(),
+        },
+      });
+      if (result.count === 0) {
+        return null;
+      }
+
+      await tx.doctorVerificationReview.create({
+        data: {
+          doctorId: doctor.id,
+          fromStatus: doctor.verificationStatus,
+          toStatus: DoctorVerificationStatus.SUBMITTED,
+        },
+      });
+
+      return tx.doctor.findUnique({
+        where: { id: doctor.id },
+        select: {
+          id: true,
+          verificationStatus: true,
+          licenseNumber: true,
+          licenseExpiresAt: true,
+        },
+      });
+    });
+
+    if (!updated) {
+      res.status(409).json(new ApiError(409, "Verification status changed, please retry"));
+      return;
+    }
+
+    res.status(200).json(new ApiResponse(200, updated, "Submitted for verification"));
+  } catch (error) {
+    res.status(500).json(new ApiError(500, "Failed to submit for verification", [error]));
+  }
+};
+
+// Validates the body of a create / update request for a recurring availability rule.
+// On update, fields that are not sent keep their current values.
+const parseAvailabilityRuleInput = (
+  body: any,
+  today: Date,
+  current?: AvailabilityRuleWindow
+): { rule: Omit<AvailabilityRuleWindow, "id"> } | { error: string } => {
+  const daysOfWeek = body.daysOfWeek ?? current?.daysOfWeek;
+  if (
+    !Array.isArray(daysOfWeek) ||
+    daysOfWeek.length === 0 ||
+    !daysOfWeek.every((day: unknown) => Number.isInteger(day) && (day as number) >= 0 && (day as number) <= 6)
+  ) {
+    return { error: "daysOfWeek must be a non-empty array of weekdays (0 = Sunday ... 6 = Saturday)" };
+  }
+
+  const startTime = body.startTime ?? current?.startTime;
+  const endTime = body.endTime ?? current?.endTime;
+  const startMinutes = parseTimeOfDay(startTime);
+  const endMinutes = parseTimeOfDay(endTime);
+  if (startMinutes === null || endMinutes === null) {
+    return { error: "startTime and endTime are required. Use HH:mm" };
+  }
+
+  const slotDurationMinutes = body.slotDurationMinutes ?? current?.slotDurationMinutes;
+  if (!Number.isInteger(slotDurationMinutes) || slotDurationMinutes <= 0 || slotDurationMinutes > 180) {
+    return { error: "slotDurationMinutes must be between 1 and 180 minutes" };
+  }
+
+  if (endMinutes - startMinutes < slotDurationMinutes) {
+    return { error: "endTime must leave room for at least one slot after startTime" };
+  }
+
+  const consultationFee = body.consultationFee ?? current?.consultationFee ?? 0;
+  if (!Number.isInteger(consultationFee) || consultationFee < 0) {
+    return { error: "consultationFee must be a non-negative integer" };
+  }
+
+  const validFrom =
+    body.validFrom !== undefined ? parseCalendarDate(body.validFrom) : current?.validFrom ?? today;
+  if (!validFrom) {
+    return { error: "validFrom must be a date in YYYY-MM-DD format" };
+  }
+
+  // null / omitted on create means "until further notice"
+  let validUntil = current?.validUntil ?? null;
+  if (body.validUntil !== undefined) {
+    validUntil = body.validUntil === null ? null : parseCalendarDate(body.validUntil);
+    if (body.validUntil !== null && !validUntil) {
+      return { error: "validUntil must be a date in YYYY-MM-DD format or null" };
+    }
+  }
+  if (validUntil && validUntil < validFrom) {
+    return { error: "validUntil must not be before validFrom" };
+  }
+
+  return {
+    rule: {
+      daysOfWeek: Array.from(new Set<number>(daysOfWeek)).sort(),
+      startTime,
+      endTime,
+      slotDurationMinutes,
+      consultationFee,
+      validFrom,
+      validUntil,
+    },
+  };
+};
+
+const findOverlappingRule = async (
+  doctorId: string,
+  rule: AvailabilityRuleWindow
+) => {
+  const activeRules = await prisma.availabilityRule.findMany({
+    where: { doctorId, isActive: true, id: { not: rule.id } },
+  });
+  return activeRules.find((other) => rulesOverlap(rule, other)) ?? null;
+};
+
+// Create a recurring weekly availability rule, e.g. Mon/Wed 09:00-13:00 in 20 minute
+// slots. Times are in the doctor's time zone.
+const createAvailabilityRule = async (req: Request, res: Response): Promise<void> => {
+  const doctorUserId = (req as any).user?.id;
+
+  try {
+    const doctor = await prisma.doctor.findUnique({
+      where: { userId: doctorUserId },
+      select: { id: true, user: { select: { timeZone: true } } },
+    });
+    if (!doctor) {
+      res.status(404).json(new ApiError(404, "Doctor profile not found"));
+      return;
+    }
+
+    const today = calendarDateInZone(new Date(), doctor.user.timeZone);
+    const parsed = parseAvailabilityRuleInput(req.body, today);
+    if ("error" in parsed) {
+      res.status(400).json(new ApiError(400, parsed.error));
+      return;
+    }
+
+    const outsideWorkingHours = ruleWorkingHoursViolation(
+      await getSchedulingPolicy(prisma, doctor.id),
+      parsed.rule
+    );
+    if (outsideWorkingHours) {
+      res.status(400).json(new ApiError(400, outsideWorkingHours));
+      return;
+    }
+
+    const overlapping = await findOverlappingRule(doctor.id, { id: "", ...parsed.rule });
+    if (overlapping) {
+      res
+        .status(409)
+        .json(new ApiError(409, "Rule overlaps with an existing availability rule", [{ ruleId: overlapping.id }]));
+      return;
+    }
+
+    const rule = await prisma.availabilityRule.create({
+      data: { doctorId: doctor.id, ...parsed.rule },
+    });
+
+    res.status(201).json(new ApiResponse(201, rule, "Availability rule created successfully"));
+  } catch (error) {
+    res.status(500).json(new ApiError(500, "Failed to create availability rule", [error]));
+  }
+};
+
+// List the doctor's availability rules together with their exceptions
+const listAvailabilityRules = async (req: Request, res: Response): Promise<void> => {
+  const doctorUserId = (req as any).user?.id;
+
+  try {
+    const doctor = await prisma.doctor.findUnique({
+      where: { userId: doctorUserId },
+      select: { id: true, user: { select: { timeZone: true } } },
+    });
+    if (!doctor) {
+      res.status(404).json(new ApiError(404, "Doctor profile not found"));
+      return;
+    }
+
+    const today = calendarDateInZone(new Date(), doctor.user.timeZone);
+    const [rules, exceptions] = await Promise.all([
+      prisma.availabilityRule.findMany({
+        where: { doctorId: doctor.id },
+        orderBy: [{ isActive: "desc" }, { createdAt: "asc" }],
+      }),
+      prisma.availabilityException.findMany({
+        where: { doctorId: doctor.id, date: { gte: today } },
+        orderBy: { date: "asc" },
+      }),
+    ]);
+
+    res
+      .status(200)
+      .json(new ApiResponse(200, { timeZone: doctor.user.timeZone, rules, exceptions }, "Availability rules fetched successfully"));
+  } catch (error) {
+    res.status(500).json(new ApiError(500, "Failed to fetch availability rules", [error]));
+  }
+};
+
+// Change a rule's hours, days, validity or pause it with isActive: false.
+// Slots that were already booked from the rule are not affected.
+const updateAvailabilityRule = async (req: Request, res: Response): Promise<void> => {
+  const doctorUserId = (req as any).user?.id;
+  const ruleId = req.params.ruleId as string;
+  const { isActive } = req.body;
+
+  try {
+    if (!isValidUUID(ruleId)) {
+      res.status(400).json(new ApiError(400, "Invalid rule ID"));
+      return;
+    }
+
+    if (isActive !== undefined && typeof isActive !== "boolean") {
+      res.status(400).json(new ApiError(400, "isActive must be a boolean"));
+      return;
+    }
+
+    const rule = await prisma.availabilityRule.findFirst({
+      where: { id: ruleId, doctor: { userId: doctorUserId } },
+      include: { doctor: { select: { user: { select: { timeZone: true } } } } },
+    });
+    if (!rule) {
+      res.status(404).json(new ApiError(404, "Availability rule not found"));
+      return;
+    }
+
+    const today = calendarDateInZone(new Date(), rule.doctor.user.timeZone);
+    const parsed = parseAvailabilityRuleInput(req.body, today, rule);
+    if ("error" in parsed) {
+      res.status(400).json(new ApiError(400, parsed.error));
+      return;
+    }
+
+    const outsideWorkingHours = ruleWorkingHoursViolation(
+      await getSchedulingPolicy(prisma, rule.doctorId),
+      parsed.rule
+    );
+    if (outsideWorkingHours) {
+      res.status(400).json(new ApiError(400, outsideWorkingHours));
+      return;
+    }
+
+    if (isActive ?? rule.isActive) {
+      const overlapping = await findOverlappingRule(rule.doctorId, { id: rule.id, ...parsed.rule });
+      if (overlapping) {
+        res
+          .status(409)
+          .json(new ApiError(409, "Rule overlaps with an existing availability rule", [{ ruleId: overlapping.id }]));
+        return;
+      }
+    }
+
+    const updated = await prisma.availabilityRule.update({
+      where: { id: rule.id },
+      data: { ...parsed.rule, ...(isActive !== undefined && { isActive }) },
+    });
+
+    res.status(200).json(new ApiResponse(200, updated, "Availability rule updated successfully"));
+  } catch (error) {
+    res.status(500).json(new ApiError(500, "Failed to update availability rule", [error]));
+  }
+};
+
+// Delete a rule. Appointments already booked from it keep their time slots.
+const deleteAvailabilityRule = async (req: Request, res: Response): Promise<void> => {
+  const doctorUserId = (req as any).user?.id;
+  const ruleId = req.params.ruleId as string;
+
+  try {
+    if (!isValidUUID(ruleId)) {
+      res.status(400).json(new ApiError(400, "Invalid rule ID"));
+      return;
+    }
+
+    const result = await prisma.availabilityRule.deleteMany({
+      where: { id: ruleId, doctor: { userId: doctorUserId } },
+    });
+    if (result.count === 0) {
+      res.status(404).json(new ApiError(404, "Availability rule not found"));
+      return;
+    }
+
+    res.status(200).json(new ApiResponse(200, null, "Availability rule deleted successfully"));
+  } catch (error) {
+    res.status(500).json(new ApiError(500, "Failed to delete availability rule", [error]));
+  }
+};
+
+// Take a day, or part of a day, out of one rule (ruleId) or out of all rules
+const createAvailabilityException = async (req: Request, res: Response): Promise<void> => {
+  const doctorUserId = (req as any).user?.id;
+  const { ruleId, date, startTime, endTime, reason } = req.body;
+
+  try {
+    const day = parseCalendarDate(date);
+    if (!day) {
+      res.status(400).json(new ApiError(400, "date must be in YYYY-MM-DD format"));
+      return;
+    }
+
+    if ((startTime === undefined) !== (endTime === undefined)) {
+      res.status(400).json(new ApiError(400, "Send both startTime and endTime, or neither for the whole day"));
+      return;
+    }
+    if (startTime !== undefined) {
+      const startMinutes = parseTimeOfDay(startTime);
+      const endMinutes = parseTimeOfDay(endTime);
+      if (startMinutes === null || endMinutes === null || endMinutes <= startMinutes) {
+        res.status(400).json(new ApiError(400, "startTime and endTime must be HH:mm with endTime after startTime"));
+        return;
+      }
+    }
+
+    const doctor = await prisma.doctor.findUnique({
+      where: { userId: doctorUserId },
+      select: { id: true },
+    });
+    if (!doctor) {
+      res.status(404).json(new ApiError(404, "Doctor profile not found"));
+      return;
+    }
+
+    if (ruleId !== undefined && ruleId !== null) {
+      const rule = isValidUUID(ruleId)
+        ? await prisma.availabilityRule.findFirst({
+            where: { id: ruleId, doctorId: doctor.id },
+            select: { id: true },
+          })
+        : null;
+      if (!rule) {
+        res.status(404).json(new ApiError(404, "Availability rule not found"));
+        return;
+      }
+    }
+
+    const exception = await prisma.availabilityException.create({
+      data: {
+        doctorId: doctor.id,
+        ruleId: ruleId ?? null,
+        date: day,
+        startTime: startTime ?? null,
+        endTime: endTime ?? null,
+        reason: typeof reason === "string" ? reason.trim() || null : null,
+      },
+    });
+
+    res.status(201).json(new ApiResponse(201, exception, "Availability exception created successfully"));
+  } catch (error) {
+    res.status(500).json(new ApiError(500, "Failed to create availability exception", [error]));
+  }
+};
+
+const deleteAvailabilityException = async (req: Request, res: Response): Promise<void> => {
+  const doctorUserId = (req as any).user?.id;
+  const exceptionId = req.params.exceptionId as string;
+
+  try {
+    if (!isValidUUID(exceptionId)) {
+      res.status(400).json(new ApiError(400, "Invalid exception ID"));
+      return;
+    }
+
+    const result = await prisma.availabilityException.deleteMany({
+      where: { id: exceptionId, doctor: { userId: doctorUserId } },
+    });
+    if (result.count === 0) {
+      res.status(404).json(new ApiError(404, "Availability exception not found"));
+      return;
+    }
+
+    res.status(200).json(new ApiResponse(200, null, "Availability exception deleted successfully"));
+  } catch (error) {
+    res.status(500).json(new ApiError(500, "Failed to delete availability exception", [error]));
+  }
+};
+
+// Validates a scheduling policy update. Fields that are not sent keep their
+// current values; send null to lift the daily cap or the working hours.
+const parseSchedulingPolicyInput = (
+  body: any,
+  current: SchedulingPolicy
+): { policy: SchedulingPolicy } | { error: string } => {
+  const bufferMinutes = body.bufferMinutes ?? current.bufferMinutes;
+  if (!Number.isInteger(bufferMinutes) || bufferMinutes < 0 || bufferMinutes > 240) {
+    return { error: "bufferMinutes must be between 0 and 240" };
+  }
+
+  const maxAppointmentsPerDay =
+    body.maxAppointmentsPerDay !== undefined ? body.maxAppointmentsPerDay : current.maxAppointmentsPerDay;
+  if (
+    maxAppointmentsPerDay !== null &&
+    (!Number.isInteger(maxAppointmentsPerDay) || maxAppointmentsPerDay < 1 || maxAppointmentsPerDay > 200)
+  ) {
+    return { error: "maxAppointmentsPerDay must be between 1 and 200, or null for no cap" };
+  }
+
+  const minNoticeMinutes = body.minNoticeMinutes ?? current.minNoticeMinutes;
+  if (!Number.isInteger(minNoticeMinutes) || minNoticeMinutes < 0 || minNoticeMinutes > 30 * 24 * 60) {
+    return { error: "minNoticeMinutes must be between 0 and 43200 (30 days)" };
+  }
+
+  const workdayStart = body.workdayStart !== undefined ? body.workdayStart : current.workdayStart;
+  const workdayEnd = body.workdayEnd !== undefined ? body.workdayEnd : current.workdayEnd;
+  if ((workdayStart === null) !== (workdayEnd === null)) {
+    return { error: "workdayStart and workdayEnd must be set together" };
+  }
+  if (workdayStart !== null) {
+    const startMinutes = parseTimeOfDay(workdayStart);
+    const endMinutes = parseTimeOfDay(workdayEnd);
+    if (startMinutes === null || endMinutes === null) {
+      return { error: "workdayStart and workdayEnd must use HH:mm" };
+    }
+    if (endMinutes <= startMinutes) {
+      return { error: "workdayEnd must be after workdayStart" };
+    }
+  }
+
+  const workingDays = body.workingDays ?? current.workingDays;
+  if (
+    !Array.isArray(workingDays) ||
+    !workingDays.every((day: unknown) => Number.isInteger(day) && (day as number) >= 0 && (day as number) <= 6)
+  ) {
+    return { error: "workingDays must be an array of weekdays (0 = Sunday ... 6 = Saturday), empty for every day" };
+  }
+
+  return {
+    policy: {
+      bufferMinutes,
+      maxAppointmentsPerDay,
+      minNoticeMinutes,
+      workdayStart,
+      workdayEnd,
+      workingDays: Array.from(new Set<number>(workingDays)).sort(),
+    },
+  };
+};
+
+// The doctor's scheduling policy, or the defaults (no limits) if none was set
+const getMySchedulingPolicy = async (req: Request, res: Response): Promise<void> => {
+  const doctorId = (req as any).user?.doctor?.id;
+
+  try {
+    const policy = await getSchedulingPolicy(prisma, doctorId);
+    res.status(200).json(new ApiResponse(200, policy, "Scheduling policy fetched successfully"));
+  } catch (error) {
+    res.status(500).json(new ApiError(500, "Failed to fetch scheduling policy", [error]));
+  }
+};
+
+// Set buffer time, daily cap, minimum notice and working hours. Applies to new
+// slots and bookings; existing slots and appointments are left as they are.
+const updateSchedulingPolicy = async (req: Request, res: Response): Promise<void> => {
+  const doctorId = (req as any).user?.doctor?.id;
+
+  try {
+    const current = await getSchedulingPolicy(prisma, doctorId);
+    const parsed = parseSchedulingPolicyInput(req.body, current);
+    if ("error" in parsed) {
+      res.status(400).json(new ApiError(400, parsed.error));
+      return;
+    }
+
+    // Active rules must stay inside the new working hours
+    const rules = await prisma.availabilityRule.findMany({ where: { doctorId, isActive: true } });
+    const conflicting = rules.find((rule) => ruleWorkingHoursViolation(parsed.policy, rule));
+    if (conflicting) {
+      res
+        .status(409)
+        .json(
+          new ApiError(409, "An active availability rule falls outside these working hours", [
+            { ruleId: conflicting.id },
+          ])
+        );
+      return;
+    }
+
+    const policy = await prisma.doctorSchedulingPolicy.upsert({
+      where: { doctorId },
+      create: { doctorId, ...parsed.policy },
+      update: parsed.policy,
+    });
+
+    res.status(200).json(new ApiResponse(200, policy, "Scheduling policy updated successfully"));
+  } catch (error) {
+    res.status(500).json(new ApiError(500, "Failed to update scheduling policy", [error]));
+  }
+};
+
+// Validates a cancellation policy update. Fields that are not sent keep their
+// current values; send null to lift the monthly limit.
+const parseCancellationPolicyInput = (
+  body: any,
+  current: CancellationPolicy
+): { policy: CancellationPolicy } | { error: string } => {
+  const freeCancelMinutes = body.freeCancelMinutes ?? current.freeCancelMinutes;
+  if (!Number.isInteger(freeCancelMinutes) || freeCancelMinutes < 0 || freeCancelMinutes > 30 * 24 * 60) {
+    return { error: "freeCancelMinutes must be between 0 and 43200 (30 days)" };
+  }
+
+  const lateCancelFeePercent = body.lateCancelFeePercent ?? current.lateCancelFeePercent;
+  if (!Number.isInteger(lateCancelFeePercent) || lateCancelFeePercent < 0 || lateCancelFeePercent > 100) {
+    return { error: "lateCancelFeePercent must be between 0 and 100" };
+  }
+
+  const maxCancellationsPerMonth =
+    body.maxCancellationsPerMonth !== undefined ? body.maxCancellationsPerMonth : current.maxCancellationsPerMonth;
+  if (
+    maxCancellationsPerMonth !== null &&
+    (!Number.isInteger(maxCancellationsPerMonth) || maxCancellationsPerMonth < 1 || maxCancellationsPerMonth > 100)
+  ) {
+    return { error: "maxCancellationsPerMonth must be between 1 and 100, or null for no limit" };
+  }
+
+  return { policy: { freeCancelMinutes, lateCancelFeePercent, maxCancellationsPerMonth } };
+};
+
+// The doctor's cancellation policy, or the defaults (free at any time) if none was set
+const getMyCancellationPolicy = async (req: Request, res: Response): Promise<void> => {
+  const doctorId = (req as any).user?.doctor?.id;
+
+  try {
+    const policy = await getCancellationPolicy(prisma, doctorId);
+    res
+      .status(200)
+      .json(new ApiResponse(200, cancellationPolicySummary(policy), "Cancellation policy fetched successfully"));
+  } catch (error) {
+    res.status(500).json(new ApiError(500, "Failed to fetch cancellation policy", [error]));
+  }
+};
+
+// Set the free-cancel window, late-cancellation fee and monthly cancellation
+// limit. Applies to every later cancellation, including of existing appointments.
+const updateCancellationPolicy = async (req: Request, res: Response): Promise<void> => {
+  const doctorId = (req as any).user?.doctor?.id;
+
+  try {
+    const current = await getCancellationPolicy(prisma, doctorId);
+    const parsed = parseCancellationPolicyInput(req.body, current);
+    if ("error" in parsed) {
+      res.status(400).json(new ApiError(400, parsed.error));
+      return;
+    }
+
+    const policy = await prisma.doctorCancellationPolicy.upsert({
+      where: { doctorId },
+      create: { doctorId, ...parsed.policy },
+      update: parsed.policy,
+    });
+
+    res
+      .status(200)
+      .json(new ApiResponse(200, cancellationPolicySummary(policy), "Cancellation policy updated successfully"));
+  } catch (error) {
+    res.status(500).json(new ApiError(500, "Failed to update cancellation policy", [error]));
+  }
+};
+
 export {
   viewDoctorAppointment,
   updateAppointmentStatus,
@@ -1146,4 +2105,19 @@ export {
   markNotificationAsRead,
   addPrescriptionToAppointment,
   markAppointmentCompleted,
+  markAppointmentNoShow,
+  getAppointmentsAwaitingOutcome,
+  uploadCredential,
+  getVerificationStatus,
+  submitForVerification,
+  createAvailabilityRule,
+  listAvailabilityRules,
+  updateAvailabilityRule,
+  deleteAvailabilityRule,
+  createAvailabilityException,
+  deleteAvailabilityException,
+  getMySchedulingPolicy,
+  updateSchedulingPolicy,
+  getMyCancellationPolicy,
+  updateCancellationPolicy,
 };
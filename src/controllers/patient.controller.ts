@@ -2,18 +2,51 @@ import { Request, Response } from "express";
 import { ApiError } from "../utils/ApiError";
 import { ApiResponse } from "../utils/ApiResponse";
 import prisma from "../utils/prismClient";
-import { isValidUUID, UserInRequest } from "../utils/helper";
+import { getActorUserId, isValidUUID, UserInRequest } from "../utils/helper";
 import {
   TimeSlotStatus,
   AppointmentStatus,
   Role,
   AppointmentType,
+  DoctorVerificationStatus,
+  Prisma,
 } from "@prisma/client";
-import PDFDocument from "pdfkit";
+import {
+  prescriptionPdfInclude,
+  renderPrescriptionPdf,
+} from "../utils/prescriptionPdf";
+import {
+  formatDateInZone,
+  formatTimeInZone,
+  parseCalendarDate,
+  toZonedTimeString,
+  zonedTimeToUtc,
+} from "../utils/timezone";
+import {
+  appointmentTimeFields,
+  consultationFeeAt,
+  findOverlappingBlackout,
+  materializeRuleSlot,
+} from "../utils/scheduling";
+import {
+  findOpenWaitlistOffer,
+  offerSlotToWaitlist,
+} from "../utils/waitlist";
+import { bookableSlotWhere, clearedHold, isSlotBookableBy } from "../utils/slotHolds";
+import { findBookableSlots } from "../utils/slotListing";
+import { assertPatientMayBook } from "../utils/noShows";
+import { assertSchedulingPolicy } from "../utils/schedulingPolicy";
+import { refundAppointmentPayment } from "../payments/invoices";
+import { assessPatientCancellation, cancellationPolicySummary, getCancellationPolicy } from "../utils/cancellationPolicy";
+import { bookingHistoryEntry, transitionAppointment } from "../utils/appointmentStateMachine";
+import { appointmentIcsAttachment, DEFAULT_APPOINTMENT_MINUTES } from "../utils/ical";
+import { sendEmail, patientCancellationTemplate } from "../utils/emailService";
+import archiver from "archiver";
+import { Readable } from "stream";
 import fs from "fs";
 
 const searchDoctors = async (req: any, res: Response) => {
-  const { specialty, location } = req.query;
+  const { specialty, location, clinicId } = req.query;
 
   // Input validation
   // if (!specialty && !location) {
@@ -29,9 +62,19 @@ const searchDoctors = async (req: any, res: Response) => {
   // }
 
   try {
+    if (clinicId && !isValidUUID(clinicId as string)) {
+      res.status(400).json(new ApiError(400, "Invalid clinic ID"));
+      return;
+    }
+
     const doctors = await prisma.doctor.findMany({
       where: {
         AND: [
+          // Only verified doctors whose license is still valid are listed
+          {
+            verificationStatus: DoctorVerificationStatus.APPROVED,
+            licenseExpiresAt: { gt: new Date() },
+          },
           specialty
             ? {
                 specialty: {
@@ -48,6 +91,11 @@ const searchDoctors = async (req: any, res: Response) => {
                 },
               }
             : {},
+          clinicId
+            ? {
+                clinicMemberships: { some: { clinicId: clinicId as string, acceptedAt: { not: null } } },
+              }
+            : {},
         ],
       },
       include: {
@@ -58,6 +106,12 @@ const searchDoctors = async (req: any, res: Response) => {
             profilePicture: true,
           },
         },
+        clinicMemberships: {
+          where: { acceptedAt: { not: null } },
+          select: {
+            clinic: { select: { id: true, name: true, city: true } },
+          },
+        },
       },
     });
 
@@ -82,22 +136,28 @@ const availableTimeSlots = async (req: any, res: Response): Promise<void> => {
     // Check if doctor exists
     const doctor = await prisma.doctor.findUnique({
       where: { id: doctorId },
+      select: {
+        specialty: true,
+        clinicLocation: true,
+        user: {
+          select: {
+            name: true,
+            timeZone: true,
+          },
+        },
+      },
     });
 
     if (!doctor) {
       res.status(400).json(new ApiError(400, "Doctor not available"));
       return;
     }
+    const timeZone = doctor.user.timeZone;
 
-    // Build where condition
-    const whereCondition: any = {
-      doctorId,
-      status: TimeSlotStatus.AVAILABLE,
-    };
-
+    let selectedDate: Date | null = null;
     if (date) {
-      const selectedDate = new Date(date as string);
-      if (isNaN(selectedDate.getTime())) {
+      selectedDate = parseCalendarDate(date);
+      if (!selectedDate) {
         res
           .status(400)
           .json(
@@ -105,55 +165,22 @@ const availableTimeSlots = async (req: any, res: Response): Promise<void> => {
           );
         return;
       }
-
-      // Set time range for the selected date
-      const startOfDay = new Date(selectedDate);
-      startOfDay.setHours(0, 0, 0, 0);
-
-      const endOfDay = new Date(selectedDate);
-      endOfDay.setHours(23, 59, 59, 999);
-
-      whereCondition.startTime = {
-        gte: startOfDay,
-        lt: endOfDay,
-      };
     }
 
-    // Fetch available time slots
-    const availableSlots = await prisma.timeSlot.findMany({
-      where: whereCondition,
-      orderBy: {
-        startTime: "asc",
-      },
-      select: {
-        id: true,
-        startTime: true,
-        endTime: true,
-        status: true,
-        doctor: {
-          select: {
-            specialty: true,
-            clinicLocation: true,
-            user: {
-              select: {
-                name: true,
-              },
-            },
-          },
-        },
-      },
-    });
-
-    // Format the response
-    const formattedSlots = availableSlots.map((slot) => ({
-      id: slot.id,
-      startTime: slot.startTime,
-      endTime: slot.endTime,
-      status: slot.status,
-      doctorName: slot.doctor.user.name,
-      specialty: slot.doctor.specialty,
-      location: slot.doctor.clinicLocation,
-    }));
+    // Shown with every slot so patients know the terms before they book
+    const cancellationPolicy = cancellationPolicySummary(await getCancellationPolicy(prisma, doctorId));
+
+    // Rule slots have no id yet; they are booked with { ruleId, startTime } and
+    // stored at that point.
+    const formattedSlots = (await findBookableSlots(doctorId, timeZone, selectedDate))
+      .map((slot) => ({
+        ...slot,
+        timeZone,
+        doctorName: doctor.user.name,
+        specialty: doctor.specialty,
+        location: doctor.clinicLocation,
+        cancellationPolicy,
+      }));
 
     res.status(200).json(new ApiResponse(200, formattedSlots));
   } catch (error) {
@@ -162,7 +189,7 @@ const availableTimeSlots = async (req: any, res: Response): Promise<void> => {
 };
 
 const bookAppointment = async (req: any, res: Response): Promise<void> => {
-  const { timeSlotId } = req.body;
+  const { timeSlotId, ruleId, startTime } = req.body;
   // const patientId = req.user?.patient?.id; // Get patient ID from authenticated user
   const userId = (req as any).user?.id;
   const patient = await prisma.patient.findUnique({
@@ -179,17 +206,33 @@ const bookAppointment = async (req: any, res: Response): Promise<void> => {
       return;
     }
 
-    // Validate timeSlotId
-    if (!timeSlotId) {
-      res.status(400).json(new ApiError(400, "Time slot id is required"));
+    // Either a stored slot, or a slot of a recurring availability rule
+    const ruleSlotStart = ruleId ? new Date(startTime) : null;
+    if (!timeSlotId && !ruleId) {
+      res
+        .status(400)
+        .json(new ApiError(400, "Time slot id, or ruleId and startTime, is required"));
+      return;
+    }
+    if (!timeSlotId && (!isValidUUID(ruleId) || !ruleSlotStart || isNaN(ruleSlotStart.getTime()))) {
+      res.status(400).json(new ApiError(400, "Valid ruleId and startTime are required"));
       return;
     }
 
     // Use transaction to ensure atomicity
     const result = await prisma.$transaction(async (prisma) => {
+      await assertPatientMayBook(prisma, patient.id);
+
+      let bookedSlotId: string = timeSlotId;
+
+      if (!bookedSlotId) {
+        const created = await materializeRuleSlot(prisma, ruleId, ruleSlotStart!);
+        bookedSlotId = created.id;
+      }
+
       // Get the time slot and check if it's available
       const timeSlot = await prisma.timeSlot.findUnique({
-        where: { id: timeSlotId },
+        where: { id: bookedSlotId },
         include: {
           doctor: {
             select: {
@@ -197,6 +240,7 @@ const bookAppointment = async (req: any, res: Response): Promise<void> => {
               user: {
                 select: {
                   name: true,
+                  timeZone: true,
                 },
               },
             },
@@ -205,19 +249,30 @@ const bookAppointment = async (req: any, res: Response): Promise<void> => {
       });
 
       if (!timeSlot) {
-        res.status(404).json({
-          success: false,
-          message: "Time slot not found",
-        });
-        return;
+        throw new ApiError(404, "Time slot not found");
       }
 
-      if (timeSlot.status !== TimeSlotStatus.AVAILABLE) {
-        // throw new Error("This time slot is no longer available");
-        res.status(400).json(new ApiError(400, "Timeslote is already booked"));
-        return;
+      // A slot the patient is holding is booked like an open one
+      if (!isSlotBookableBy(timeSlot, patient.id)) {
+        throw new ApiError(400, "Timeslote is already booked");
       }
 
+      if (await findOverlappingBlackout(prisma, timeSlot.doctorId, timeSlot.startTime, timeSlot.endTime)) {
+        throw new ApiError(409, "The doctor is unavailable at this time");
+      }
+
+      if (await findOpenWaitlistOffer(prisma, timeSlot.id)) {
+        throw new ApiError(409, "This time slot is being held for a waitlisted patient");
+      }
+
+      await assertSchedulingPolicy(
+        prisma,
+        timeSlot.doctorId,
+        timeSlot.startTime,
+        timeSlot.endTime,
+        timeSlot.doctor.user.timeZone
+      );
+
       // Check if patient already has an appointment at this time
       const existingAppointment = await prisma.appointment.findFirst({
         where: {
@@ -238,67 +293,74 @@ const bookAppointment = async (req: any, res: Response): Promise<void> => {
       // console.log(existingAppointment)
 
       if (existingAppointment) {
-        res
-          .status(400)
-          .json(new ApiError(400, "You have already appointment in this time"));
-        return;
+        throw new ApiError(400, "You have already appointment in this time");
       }
-      // Create appointment and update time slot status
-      const [appointment, updatedTimeSlot] = await Promise.all([
-        prisma.appointment.create({
-          data: {
-            patientId: patient.id,
-            doctorId: timeSlot.doctorId,
-            timeSlotId,
-            date: timeSlot.startTime,
-            time: timeSlot.startTime.toTimeString().slice(0, 5), // Extract HH:mm format
-            status: AppointmentStatus.PENDING,
-          },
-          include: {
-            patient: {
-              select: {
-                user: {
-                  select: {
-                    name: true,
-                  },
+
+      // Claim the slot first. Only one concurrent booking can flip it to BOOKED,
+      // and the partial unique index on active appointments per slot rejects
+      // anything that slips past this.
+      const claimed = await prisma.timeSlot.updateMany({
+        where: { id: bookedSlotId, ...bookableSlotWhere(patient.id) },
+        data: { status: TimeSlotStatus.BOOKED, ...clearedHold },
+      });
+      if (claimed.count === 0) {
+        throw new ApiError(409, "This time slot is no longer available");
+      }
+
+      const appointment = await prisma.appointment.create({
+        data: {
+          patientId: patient.id,
+          doctorId: timeSlot.doctorId,
+          timeSlotId: bookedSlotId,
+          ...appointmentTimeFields(timeSlot.startTime, timeSlot.doctor.user.timeZone),
+          consultationFee: timeSlot.consultationFee,
+          status: AppointmentStatus.PENDING,
+          statusHistory: bookingHistoryEntry(getActorUserId(req)),
+        },
+        include: {
+          patient: {
+            select: {
+              user: {
+                select: {
+                  name: true,
                 },
               },
             },
-            doctor: {
-              select: {
-                user: {
-                  select: {
-                    name: true,
-                  },
+          },
+          doctor: {
+            select: {
+              user: {
+                select: {
+                  name: true,
                 },
-                specialty: true,
-                clinicLocation: true,
               },
+              specialty: true,
+              clinicLocation: true,
             },
-            timeSlot: true,
           },
-        }),
-        prisma.timeSlot.update({
-          where: { id: timeSlotId },
-          data: { status: TimeSlotStatus.BOOKED },
-        }),
-      ]);
-
-      return { appointment, updatedTimeSlot };
+          timeSlot: true,
+        },
+      });
+
+      return { appointment };
     });
 
     // Format the response
     const formattedAppointment = {
-      id: result?.appointment.id,
-      status: result?.appointment.status,
-      patientName: result?.appointment.patient.user.name,
-      doctorName: result?.appointment.doctor.user.name,
-      specialty: result?.appointment.doctor.specialty,
-      location: result?.appointment.doctor.clinicLocation,
+      id: result.appointment.id,
+      status: result.appointment.status,
+      patientName: result.appointment.patient.user.name,
+      doctorName: result.appointment.doctor.user.name,
+      specialty: result.appointment.doctor.specialty,
+      location: result.appointment.doctor.clinicLocation,
       appointmentTime: {
-        start: result?.appointment.timeSlot?.startTime,
-        end: result?.appointment.timeSlot?.endTime,
+        start: result.appointment.timeSlot?.startTime,
+        end: result.appointment.timeSlot?.endTime,
       },
+      cancellationPolicy: cancellationPolicySummary(
+        await getCancellationPolicy(prisma, result.appointment.doctorId),
+        result.appointment.scheduledAt
+      ),
     };
 
     res.status(200).json(
@@ -308,6 +370,18 @@ const bookAppointment = async (req: any, res: Response): Promise<void> => {
       })
     );
   } catch (error) {
+    if (error instanceof ApiError) {
+      res.status(error.statusCode).json(error);
+      return;
+    }
+    // P2002: unique index hit by a concurrent booking; P2034: transaction write conflict
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      (error.code === "P2002" || error.code === "P2034")
+    ) {
+      res.status(409).json(new ApiError(409, "This time slot is no longer available"));
+      return;
+    }
     res.status(500).json(new ApiError(500, "Internal Server Error", [error]));
   }
 };
@@ -378,11 +452,7 @@ const getUpcomingAppointments = async (
     const appointments = await prisma.appointment.findMany({
       where: {
         patientId,
-        timeSlot: {
-          startTime: {
-            gte: new Date(),
-          },
-        },
+        scheduledAt: { gte: new Date() },
       },
       include: {
         doctor: {
@@ -399,11 +469,7 @@ const getUpcomingAppointments = async (
         },
         timeSlot: true,
       },
-      orderBy: {
-        timeSlot: {
-          startTime: "asc",
-        },
-      },
+      orderBy: { scheduledAt: "asc" },
     });
 
     const formattedAppointments = appointments.map((appointment) => ({
@@ -414,7 +480,7 @@ const getUpcomingAppointments = async (
       specialty: appointment.doctor.specialty,
       location: appointment.doctor.clinicLocation,
       appointmentTime: {
-        start: appointment.timeSlot?.startTime,
+        start: appointment.timeSlot?.startTime ?? appointment.scheduledAt,
         end: appointment.timeSlot?.endTime,
       },
     }));
@@ -441,11 +507,7 @@ const getPastAppointments = async (req: any, res: Response): Promise<void> => {
     const appointments = await prisma.appointment.findMany({
       where: {
         patientId,
-        timeSlot: {
-          startTime: {
-            lt: new Date(),
-          },
-        },
+        scheduledAt: { lt: new Date() },
       },
       include: {
         doctor: {
@@ -462,11 +524,7 @@ const getPastAppointments = async (req: any, res: Response): Promise<void> => {
         },
         timeSlot: true,
       },
-      orderBy: {
-        timeSlot: {
-          startTime: "asc",
-        },
-      },
+      orderBy: { scheduledAt: "asc" },
     });
 
     const formattedAppointments = appointments.map((appointment) => ({
@@ -477,7 +535,7 @@ const getPastAppointments = async (req: any, res: Response): Promise<void> => {
       specialty: appointment.doctor.specialty,
       location: appointment.doctor.clinicLocation,
       appointmentTime: {
-        start: appointment.timeSlot?.startTime,
+        start: appointment.timeSlot?.startTime ?? appointment.scheduledAt,
         end: appointment.timeSlot?.endTime,
       },
     }));
@@ -503,7 +561,11 @@ const cancelAppointment = async (req: Request, res: Response) => {
     }
     const appointment = await prisma.appointment.findUnique({
       where: { id: appointmentId },
-      include: { timeSlot: true },
+      include: {
+        timeSlot: true,
+        patient: { select: { user: { select: { name: true } } } },
+        doctor: { select: { user: { select: { email: true, timeZone: true } } } },
+      },
     });
 
     if (!appointment || patientId !== appointment.patientId) {
@@ -516,26 +578,86 @@ const cancelAppointment = async (req: Request, res: Response) => {
       return;
     }
 
-    const updatedAppointment = await prisma.appointment.update({
-      where: { id: appointmentId },
-      data: {
-        status: AppointmentStatus.CANCELLED,
+    // The doctor's cancellation policy: monthly limit and late-cancellation fee.
+    // The limit is counted in the serializable transaction that cancels, so
+    // concurrent cancellations can't both slip under it.
+    const now = new Date();
+    const fee = await prisma.$transaction(
+      async (tx) => {
+        const { fee } = await assessPatientCancellation(tx, appointment, appointment.doctor.user.timeZone, now);
+
+        await transitionAppointment(
+          tx,
+          appointment,
+          AppointmentStatus.CANCELLED,
+          { role: Role.PATIENT, userId: getActorUserId(req) },
+          {
+            reason: fee > 0 ? "Cancelled by the patient after the free-cancellation window" : "Cancelled by the patient",
+            data: { cancellationFee: fee },
+            now,
+          }
+        );
+
+        // Update time slot if it exists
+        if (appointment.timeSlotId) {
+          await tx.timeSlot.update({
+            where: { id: appointment.timeSlotId },
+            data: {
+              status: TimeSlotStatus.AVAILABLE,
+            },
+          });
+        }
+        return fee;
       },
-    });
+      { isolationLevel: Prisma.TransactionIsolationLevel.Serializable }
+    );
 
-    // Update time slot if it exists
-    if (appointment?.timeSlotId) {
-      await prisma.timeSlot.update({
-        where: { id: appointment.timeSlotId },
-        data: {
-          status: TimeSlotStatus.AVAILABLE,
-        },
-      });
+    if (appointment.timeSlotId) {
+      await offerSlotToWaitlist(appointment.timeSlotId);
     }
-    res
-      .status(200)
-      .json(new ApiResponse(200, "Appointment Cancelled successfully!"));
+
+    const refund = await refundAppointmentPayment(
+      appointment,
+      fee > 0 ? "Appointment cancelled by the patient (late-cancellation fee kept)" : "Appointment cancelled by the patient",
+      fee
+    );
+
+    // Let the doctor know, with an .ics cancellation for their calendar
+    const doctorUser = appointment.doctor.user;
+    appointmentIcsAttachment(appointment.id, "CANCEL", Role.DOCTOR)
+      .then((invite) =>
+        sendEmail({
+          to: doctorUser.email,
+          subject: "Appointment Cancelled",
+          html: patientCancellationTemplate(
+            appointment.patient.user.name,
+            formatDateInZone(appointment.scheduledAt, doctorUser.timeZone),
+            formatTimeInZone(appointment.scheduledAt, doctorUser.timeZone)
+          ),
+          attachments: [invite],
+        })
+      )
+      .catch((err) => console.error("Failed to send appointment cancellation email:", err));
+    res.status(200).json(
+      new ApiResponse(
+        200,
+        {
+          cancellationFee: fee,
+          refund: refund && { id: refund.id, amount: refund.amount, status: refund.status },
+        },
+        "Appointment Cancelled successfully!"
+      )
+    );
   } catch (error) {
+    if (error instanceof ApiError) {
+      res.status(error.statusCode).json(error);
+      return;
+    }
+    // P2034: a concurrent cancellation won the serializable transaction
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2034") {
+      res.status(409).json(new ApiError(409, "Another cancellation is in progress, please try again"));
+      return;
+    }
     res
       .status(400)
       .json(
@@ -591,21 +713,6 @@ const viewPrescriptions = async (req: Request, res: Response) => {
   }
 };
 
-function drawHorizontalLine(
-  doc: PDFKit.PDFDocument,
-  y: number,
-  color: string = "#cccccc"
-): void {
-  doc
-    .save()
-    .strokeColor(color)
-    .lineWidth(0.5)
-    .moveTo(40, y)
-    .lineTo(doc.page.width - 40, y)
-    .stroke()
-    .restore();
-}
-
 const prescriptionPdf = async (req: Request, res: Response) => {
   try {
     const prescriptionId = (req as any).params.id as string;
@@ -617,30 +724,7 @@ const prescriptionPdf = async (req: Request, res: Response) => {
 
     const prescription = await prisma.prescription.findUnique({
       where: { id: prescriptionId },
-      include: {
-        patient: {
-          select: {
-            user: {
-              select: {
-                name: true,
-                email: true,
-              },
-            },
-          },
-        },
-        doctor: {
-          select: {
-            specialty: true,
-            clinicLocation: true,
-            user: {
-              select: {
-                name: true,
-                email: true,
-              },
-            },
-          },
-        },
-      },
+      include: prescriptionPdfInclude,
     });
 
     if (!prescription) {
@@ -654,152 +738,7 @@ const prescriptionPdf = async (req: Request, res: Response) => {
       `inline; filename=prescription_${prescriptionId}.pdf`
     );
 
-    const doc = new PDFDocument({
-      size: "A5",
-      margins: { top: 40, bottom: 60, left: 40, right: 40 },
-    });
-
-    doc.pipe(res);
-
-    doc
-      .font("Helvetica-Bold")
-      .fontSize(22)
-      .fillColor("#333333")
-      .text("PRESCRIPTION", { align: "center", underline: false });
-
-    drawHorizontalLine(doc, 100, "#999999");
-    doc.moveDown(2);
-
-    doc
-      .font("Helvetica-Bold")
-      .fontSize(12)
-      .fillColor("#000000")
-      .text("Doctor Information:", { continued: false });
-    doc.moveDown(0.5);
-
-    // Doctor Name + Specialty
-    doc
-      .font("Helvetica")
-      .fontSize(11)
-      .text(`Name       : Dr. ${prescription.doctor.user.name}`, {
-        indent: 10,
-      });
-    doc.text(`Specialty  : ${prescription.doctor.specialty}`, {
-      indent: 10,
-    });
-    doc.text(`Clinic        : ${prescription.doctor.clinicLocation}`, {
-      indent: 10,
-    });
-    doc.text(`Email        : ${prescription.doctor.user.email}`, {
-      indent: 10,
-    });
-
-    doc.moveDown(1);
-
-    // ------------------------
-    // 3) Patient Section
-    // ------------------------
-    drawHorizontalLine(doc, doc.y, "#dddddd");
-    doc.moveDown(0.5);
-
-    doc
-      .font("Helvetica-Bold")
-      .fontSize(12)
-      .fillColor("#000000")
-      .text("Patient Information:");
-    doc.moveDown(0.5);
-
-    doc
-      .font("Helvetica")
-      .fontSize(11)
-      .text(`Name  : ${prescription.patient.user.name}`, {
-        indent: 10,
-      });
-    doc.text(`Email : ${prescription.patient.user.email}`, {
-      indent: 10,
-    });
-
-    doc.moveDown(1);
-
-    // ------------------------
-    // 4) Date Issued & Prescription Text
-    // ------------------------
-    drawHorizontalLine(doc, doc.y, "#dddddd");
-    doc.moveDown(0.5);
-
-    // Date Issued
-    const formattedDate = new Date(prescription.dateIssued).toLocaleDateString(
-      "en-IN",
-      { day: "2-digit", month: "long", year: "numeric" }
-    );
-    doc
-      .font("Helvetica-Bold")
-      .fontSize(12)
-      .fillColor("#000000")
-      .text(`Date Issued: `, { continued: true })
-      .font("Helvetica")
-      .text(formattedDate);
-
-    doc.moveDown(1);
-
-    // Prescription Details Heading
-    doc.font("Helvetica-Bold").fontSize(12).text("Prescription Details:");
-    doc.moveDown(0.5);
-
-    // Prescription Text Box (bordered)
-    const startX = doc.x;
-    const boxWidth =
-      doc.page.width - doc.page.margins.left - doc.page.margins.right;
-    const textOptions: PDFKit.Mixins.TextOptions = {
-      width: boxWidth - 10,
-      align: "left",
-      indent: 5,
-      lineGap: 4,
-    };
-
-    // Draw a light gray box background
-    const boxTop = doc.y;
-    const estimatedHeight =
-      doc.heightOfString(prescription.prescriptionText, textOptions) + 20;
-    doc
-      .save()
-      .rect(startX - 5, boxTop - 5, boxWidth + 10, estimatedHeight + 10)
-      .fillOpacity(0.05)
-      .fill("#cccccc")
-      .restore();
-
-    // Write the prescription text inside the box
-    doc
-      .font("Helvetica")
-      .fontSize(11)
-      .fillColor("#000000")
-      .text(prescription.prescriptionText, startX, boxTop, textOptions);
-
-    // Move to end of box
-    doc.moveDown(2);
-
-    const footerY = doc.page.height - doc.page.margins.bottom - 40;
-    doc
-      .font("Helvetica")
-      .fontSize(9)
-      .fillColor("#666666")
-      .text(
-        `Generated on ${new Date().toLocaleString("en-IN", {
-          day: "2-digit",
-          month: "long",
-          year: "numeric",
-          hour: "2-digit",
-          minute: "2-digit",
-        })}`,
-        40,
-        footerY,
-        { align: "left" }
-      );
-
-    doc.text("Powered by CareXpert", 40, footerY + 15, {
-      align: "left",
-    });
-    doc.end();
+    renderPrescriptionPdf(prescription).pipe(res);
   } catch (error) {
     res.status(500).json(new ApiError(500, "internal server error", [error]));
   }
@@ -880,8 +819,8 @@ const bookDirectAppointment = async (
     }
 
     // Validate date format (should be YYYY-MM-DD)
-    const appointmentDate = new Date(date);
-    if (isNaN(appointmentDate.getTime())) {
+    const appointmentDate = parseCalendarDate(date);
+    if (!appointmentDate) {
       res
         .status(400)
         .json(new ApiError(400, "Invalid date format. Use YYYY-MM-DD!"));
@@ -904,6 +843,7 @@ const bookDirectAppointment = async (
         user: {
           select: {
             name: true,
+            timeZone: true,
           },
         },
       },
@@ -914,6 +854,10 @@ const bookDirectAppointment = async (
       return;
     }
 
+    // date and time are wall-clock values in the doctor's time zone
+    const [hours, minutes] = time.split(":").map(Number);
+    const scheduledAt = zonedTimeToUtc(appointmentDate, hours * 60 + minutes, doctor.user.timeZone);
+
     // Check if patient exists
     const patient = await prisma.patient.findUnique({
       where: { id: patientId },
@@ -931,6 +875,8 @@ const bookDirectAppointment = async (
       return;
     }
 
+    await assertPatientMayBook(prisma, patientId);
+
     // Check if patient already has a pending appointment with this doctor
     const existingPendingAppointment = await prisma.appointment.findFirst({
       where: {
@@ -952,40 +898,31 @@ const bookDirectAppointment = async (
       return;
     }
 
-    // Check for conflicting appointments (same doctor, date, and time)
-    const existingAppointment = await prisma.appointment.findFirst({
-      where: {
-        doctorId,
-        date: appointmentDate,
-        time,
-        status: {
-          in: [AppointmentStatus.PENDING, AppointmentStatus.CONFIRMED],
-        },
-      },
-    });
-
-    if (existingAppointment) {
+    // Direct bookings have no slot; the visit is assumed to take DEFAULT_APPOINTMENT_MINUTES
+    const visitEnd = new Date(scheduledAt.getTime() + DEFAULT_APPOINTMENT_MINUTES * 60 * 1000);
+    if (await findOverlappingBlackout(prisma, doctorId, scheduledAt, visitEnd)) {
       res
         .status(409)
-        .json(
-          new ApiError(
-            409,
-            "An appointment already exists for this doctor at the specified date and time!"
-          )
-        );
+        .json(new ApiError(409, "The doctor is unavailable at the requested date and time!"));
       return;
     }
 
+    // Working hours, notice, overlap with other visits, buffer and daily cap
+    await assertSchedulingPolicy(prisma, doctorId, scheduledAt, visitEnd, doctor.user.timeZone);
+
     // Create the appointment
     const appointment = await prisma.appointment.create({
       data: {
         patientId,
         doctorId,
+        scheduledAt,
         date: appointmentDate,
-        time,
+        time: toZonedTimeString(scheduledAt, doctor.user.timeZone),
         appointmentType: appointmentType || AppointmentType.OFFLINE,
+        consultationFee: await consultationFeeAt(prisma, doctorId, scheduledAt, doctor.user.timeZone),
         status: AppointmentStatus.PENDING,
         notes: notes || undefined,
+        statusHistory: bookingHistoryEntry(getActorUserId(req)),
       },
       include: {
         patient: {
@@ -1016,6 +953,7 @@ const bookDirectAppointment = async (
       id: appointment.id,
       status: appointment.status,
       appointmentType: appointment.appointmentType,
+      scheduledAt: appointment.scheduledAt,
       date: appointment.date,
       time: appointment.time,
       notes: appointment.notes,
@@ -1024,6 +962,10 @@ const bookDirectAppointment = async (
       specialty: appointment.doctor.specialty,
       location: appointment.doctor.clinicLocation,
       createdAt: appointment.createdAt,
+      cancellationPolicy: cancellationPolicySummary(
+        await getCancellationPolicy(prisma, appointment.doctorId),
+        appointment.scheduledAt
+      ),
     };
 
     res.status(201).json(
@@ -1033,6 +975,22 @@ const bookDirectAppointment = async (
       })
     );
   } catch (error) {
+    if (error instanceof ApiError) {
+      res.status(error.statusCode).json(error);
+      return;
+    }
+    // Lost a race with a concurrent booking of the same doctor and time
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+      res
+        .status(409)
+        .json(
+          new ApiError(
+            409,
+            "An appointment already exists for this doctor at the specified date and time!"
+          )
+        );
+      return;
+    }
     console.error("Error booking appointment:", error);
     res.status(500).json(new ApiError(500, "Internal Server Error", [error]));
   }
@@ -1072,13 +1030,14 @@ const getAllPatientAppointments = async (
           },
         },
       },
-      orderBy: [{ date: "asc" }, { time: "asc" }],
+      orderBy: { scheduledAt: "asc" },
     });
 
     const formattedAppointments = appointments.map((appointment) => ({
       id: appointment.id,
       status: appointment.status,
       appointmentType: appointment.appointmentType,
+      scheduledAt: appointment.scheduledAt,
       date: appointment.date,
       time: appointment.time,
       notes: appointment.notes,
@@ -1195,6 +1154,166 @@ const markAllNotificationsAsRead = async (req: Request, res: Response): Promise<
   }
 };
 
+// Builds a zip of everything held about the authenticated patient: a JSON
+// manifest with every record, plus one PDF per prescription.
+const exportHealthRecord = async (req: Request, res: Response): Promise<void> => {
+  const userId = (req as any).user?.id;
+  const patientId = (req as any).user?.patient?.id;
+
+  try {
+    const [
+      profile,
+      appointments,
+      prescriptions,
+      patientHistory,
+      reports,
+      aiChats,
+      symptoms,
+      notifications,
+      directMessages,
+    ] = await Promise.all([
+      prisma.user.findUnique({
+        where: { id: userId },
+        select: {
+          id: true,
+          name: true,
+          email: true,
+          profilePicture: true,
+          role: true,
+          isEmailVerified: true,
+          twoFactorEnabled: true,
+          timeZone: true,
+          createdAt: true,
+          updatedAt: true,
+          patient: {
+            select: {
+              id: true,
+              location: true,
+              medicalHistory: true,
+            },
+          },
+        },
+      }),
+      prisma.appointment.findMany({
+        where: { patientId },
+        include: {
+          doctor: {
+            select: {
+              id: true,
+              specialty: true,
+              clinicLocation: true,
+              user: { select: { name: true } },
+            },
+          },
+          timeSlot: {
+            select: {
+              startTime: true,
+              endTime: true,
+            },
+          },
+        },
+        orderBy: { scheduledAt: "asc" },
+      }),
+      prisma.prescription.findMany({
+        where: { patientId },
+        include: prescriptionPdfInclude,
+        orderBy: { dateIssued: "asc" },
+      }),
+      prisma.patientHistory.findMany({
+        where: { patientId },
+        orderBy: { dateRecorded: "asc" },
+      }),
+      prisma.report.findMany({
+        where: { patientId },
+        orderBy: { createdAt: "asc" },
+      }),
+      prisma.aiChat.findMany({
+        where: { userId },
+        orderBy: { createdAt: "asc" },
+      }),
+      prisma.symptom.findMany({
+        where: { patientId },
+      }),
+      prisma.notification.findMany({
+        where: { userId },
+        orderBy: { createdAt: "asc" },
+      }),
+      // Direct messages are the ones without a room
+      prisma.chatMessage.findMany({
+        where: {
+          roomId: null,
+          OR: [{ senderId: userId }, { receiverId: userId }],
+        },
+        include: {
+          sender: { select: { id: true, name: true } },
+          receiver: { select: { id: true, name: true } },
+        },
+        orderBy: { timestamp: "asc" },
+      }),
+    ]);
+
+    if (!profile) {
+      res.status(404).json(new ApiError(404, "Patient not found"));
+      return;
+    }
+
+    const prescriptionFile = (id: string) => `prescriptions/prescription_${id}.pdf`;
+
+    const manifest = {
+      format: "carexpert-health-record",
+      version: 1,
+      generatedAt: new Date().toISOString(),
+      profile,
+      appointments,
+      prescriptions: prescriptions.map((prescription) => ({
+        id: prescription.id,
+        dateIssued: prescription.dateIssued,
+        prescriptionText: prescription.prescriptionText,
+        doctor: {
+          name: prescription.doctor.user.name,
+          specialty: prescription.doctor.specialty,
+          clinicLocation: prescription.doctor.clinicLocation,
+        },
+        file: prescriptionFile(prescription.id),
+      })),
+      patientHistory,
+      reports,
+      aiChats,
+      symptoms,
+      notifications,
+      directMessages,
+    };
+
+    const archive = archiver("zip", { zlib: { level: 9 } });
+
+    archive.on("error", (error) => {
+      console.error("Error building health record export:", error);
+      res.destroy(error);
+    });
+
+    res.setHeader("Content-Type", "application/zip");
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename=carexpert_health_record_${new Date().toISOString().slice(0, 10)}.zip`
+    );
+
+    archive.pipe(res);
+    archive.append(JSON.stringify(manifest, null, 2), { name: "manifest.json" });
+    for (const prescription of prescriptions) {
+      // pdfkit is typed as NodeJS.ReadableStream but is a stream.Readable at runtime
+      archive.append(renderPrescriptionPdf(prescription) as unknown as Readable, {
+        name: prescriptionFile(prescription.id),
+      });
+    }
+    await archive.finalize();
+  } catch (error) {
+    console.error("Error exporting health record:", error);
+    if (!res.headersSent) {
+      res.status(500).json(new ApiError(500, "Failed to export health record!", [error]));
+    }
+  }
+};
+
 export {
   searchDoctors,
   availableTimeSlots,
@@ -1211,4 +1330,5 @@ export {
   getPatientNotifications,
   markNotificationAsRead,
   markAllNotificationsAsRead,
+  exportHealthRecord,
 };
@@ -0,0 +1,190 @@
+import { Request, Response } from "express";
+import { InvoiceStatus } from "@prisma/client";
+import { ApiError } from "../utils/ApiError";
+import { ApiResponse } from "../utils/ApiResponse";
+import prisma from "../utils/prismClient";
+import { isValidUUID } from "../utils/helper";
+import { formatInvoiceNumber, receiptPdfInclude, renderReceiptPdf } from "../utils/receiptPdf";
+import { getPaymentProvider } from "../payments";
+import { processPaymentEvent, startAppointmentPayment } from "../payments/invoices";
+import { FAKE_SIGNATURE_HEADER, signFakeWebhook } from "../payments/fakeProvider";
+
+// Start paying for an appointment. Returns the invoice and a payment intent whose
+// clientSecret the client completes with the provider; the provider's webhook
+// then marks the invoice paid.
+const payForAppointment = async (req: Request, res: Response): Promise<void> => {
+  const patientId = (req as any).user?.patient?.id;
+  const appointmentId = req.params.appointmentId as string;
+
+  try {
+    if (!isValidUUID(appointmentId)) {
+      res.status(400).json(new ApiError(400, "Invalid appointment ID"));
+      return;
+    }
+
+    const { invoice, paymentIntent } = await startAppointmentPayment(appointmentId, patientId);
+
+    res.status(201).json(
+      new ApiResponse(
+        201,
+        {
+          invoice: { ...invoice, invoiceNumber: formatInvoiceNumber(invoice.number) },
+          paymentIntent: {
+            id: paymentIntent.id,
+            provider: paymentIntent.provider,
+            providerIntentId: paymentIntent.providerIntentId,
+            clientSecret: paymentIntent.clientSecret,
+            amount: paymentIntent.amount,
+            currency: paymentIntent.currency,
+            status: paymentIntent.status,
+          },
+        },
+        "Payment started"
+      )
+    );
+  } catch (error) {
+    if (error instanceof ApiError) {
+      res.status(error.statusCode).json(error);
+      return;
+    }
+    res.status(500).json(new ApiError(500, "Failed to start payment", [error]));
+  }
+};
+
+// The patient's invoices, newest first, with their refunds
+const getMyInvoices = async (req: Request, res: Response): Promise<void> => {
+  const patientId = (req as any).user?.patient?.id;
+
+  try {
+    const invoices = await prisma.invoice.findMany({
+      where: { patientId },
+      include: {
+        appointment: {
+          select: {
+            id: true,
+            scheduledAt: true,
+            status: true,
+            doctor: { select: { specialty: true, user: { select: { name: true } } } },
+          },
+        },
+        refunds: {
+          select: { id: true, amount: true, reason: true, status: true, createdAt: true },
+          orderBy: { createdAt: "asc" },
+        },
+      },
+      orderBy: { createdAt: "desc" },
+    });
+
+    const formatted = invoices.map(({ appointment, ...invoice }) => ({
+      ...invoice,
+      invoiceNumber: formatInvoiceNumber(invoice.number),
+      appointment: {
+        id: appointment.id,
+        scheduledAt: appointment.scheduledAt,
+        status: appointment.status,
+        doctorName: appointment.doctor.user.name,
+        specialty: appointment.doctor.specialty,
+      },
+    }));
+
+    res.status(200).json(new ApiResponse(200, formatted, "Invoices fetched successfully"));
+  } catch (error) {
+    res.status(500).json(new ApiError(500, "Failed to fetch invoices", [error]));
+  }
+};
+
+// Receipt PDF for a paid invoice
+const invoiceReceipt = async (req: Request, res: Response): Promise<void> => {
+  const patientId = (req as any).user?.patient?.id;
+  const invoiceId = req.params.invoiceId as string;
+
+  try {
+    if (!isValidUUID(invoiceId)) {
+      res.status(400).json(new ApiError(400, "Invalid invoice ID"));
+      return;
+    }
+
+    const invoice = await prisma.invoice.findUnique({
+      where: { id: invoiceId },
+      include: receiptPdfInclude,
+    });
+    if (!invoice || invoice.patientId !== patientId) {
+      res.status(404).json(new ApiError(404, "Invoice not found"));
+      return;
+    }
+    if (invoice.status !== InvoiceStatus.PAID && invoice.status !== InvoiceStatus.REFUNDED) {
+      res.status(400).json(new ApiError(400, "Receipts are only available for paid invoices"));
+      return;
+    }
+
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader(
+      "Content-Disposition",
+      `inline; filename=receipt_${formatInvoiceNumber(invoice.number)}.pdf`
+    );
+
+    renderReceiptPdf(invoice).pipe(res);
+  } catch (error) {
+    res.status(500).json(new ApiError(500, "Failed to generate receipt", [error]));
+  }
+};
+
+// Webhook deliveries from the payment provider. The route receives the raw body
+// (see index.ts) since the signature covers the exact bytes sent.
+const handlePaymentWebhook = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!Buffer.isBuffer(req.body)) {
+      res.status(400).json(new ApiError(400, "Webhook body is missing"));
+      return;
+    }
+
+    const provider = getPaymentProvider();
+    const event = provider.parseWebhook(req.body, req.headers);
+    const processed = await processPaymentEvent(provider, event);
+
+    res
+      .status(200)
+      .json(new ApiResponse(200, { received: true }, processed ? "Event processed" : "Event already processed"));
+  } catch (error) {
+    if (error instanceof ApiError) {
+      res.status(error.statusCode).json(error);
+      return;
+    }
+    // Anything else is ours to fix; a 500 makes the provider retry later
+    console.error("Error processing payment webhook:", error);
+    res.status(500).json(new ApiError(500, "Failed to process webhook", [error]));
+  }
+};
+
+// Development only: play the gateway with the fake provider and settle a payment
+// intent. Send { outcome: "succeeded" | "failed" }. The event goes through the
+// same path as a real webhook delivery.
+const completeFakePayment = async (req: Request, res: Response): Promise<void> => {
+  const providerIntentId = req.params.providerIntentId as string;
+  const { outcome = "succeeded" } = req.body ?? {};
+
+  try {
+    if (outcome !== "succeeded" && outcome !== "failed") {
+      res.status(400).json(new ApiError(400, "outcome must be succeeded or failed"));
+      return;
+    }
+
+    const provider = getPaymentProvider();
+    const { body, signature } = signFakeWebhook(`payment.${outcome}`, {
+      intentId: providerIntentId,
+      ...(outcome === "failed" && { failureReason: "Card declined" }),
+    });
+    const event = provider.parseWebhook(Buffer.from(body), { [FAKE_SIGNATURE_HEADER]: signature });
+    await processPaymentEvent(provider, event);
+
+    res.status(200).json(new ApiResponse(200, { eventId: event.id }, `Payment ${outcome}`));
+  } catch (error) {
+    if (error instanceof ApiError) {
+      res.status(error.statusCode).json(error);
+      return;
+    }
+    res.status(500).json(new ApiError(500, "Failed to complete fake payment", [error]));
+  }
+};
+
+export { payForAppointment, getMyInvoices, invoiceReceipt, handlePaymentWebhook, completeFakePayment };
@@ -0,0 +1,314 @@
+import { Request, Response } from "express";
+import {
+  AppointmentStatus,
+  Prisma,
+  RescheduleProposalStatus,
+  Role,
+} from "@prisma/client";
+import { ApiError } from "../utils/ApiError";
+import { ApiResponse } from "../utils/ApiResponse";
+import prisma from "../utils/prismClient";
+import { getActorUserId, isValidUUID } from "../utils/helper";
+import { formatDateInZone, formatDateTimeInZone, formatTimeInZone } from "../utils/timezone";
+import {
+  ACTIVE_APPOINTMENT_STATUSES,
+  appointmentPartiesInclude,
+  counterpartyOf,
+  moveAppointmentToTime,
+  partyName,
+  proposeAppointmentTimes,
+} from "../utils/reschedule";
+import { offerSlotToWaitlist } from "../utils/waitlist";
+import { appointmentIcsAttachment } from "../utils/ical";
+import { sendEmail, appointmentStatusTemplate } from "../utils/emailService";
+import { transitionAppointment } from "../utils/appointmentStateMachine";
+
+// Both the patient (or their delegate) and the doctor reach these handlers; which
+// side the caller is on is worked out from the appointment.
+
+const proposalOptionsInclude = {
+  options: { orderBy: { scheduledAt: "asc" } },
+} satisfies Prisma.RescheduleProposalInclude;
+
+// The side of the appointment the caller is on, or null if they are not part of it
+const getParty = (req: Request, appointment: { patientId: string; doctorId: string }): Role | null => {
+  const user = (req as any).user;
+  if (user?.patient?.id && user.patient.id === appointment.patientId) return Role.PATIENT;
+  if (user?.doctor?.id && user.doctor.id === appointment.doctorId) return Role.DOCTOR;
+  return null;
+};
+
+const findProposalForCaller = async (req: Request, res: Response) => {
+  const proposalId = req.params.proposalId as string;
+  if (!isValidUUID(proposalId)) {
+    res.status(400).json(new ApiError(400, "Invalid proposal ID"));
+    return null;
+  }
+
+  const proposal = await prisma.rescheduleProposal.findUnique({
+    where: { id: proposalId },
+    include: { ...proposalOptionsInclude, appointment: { include: appointmentPartiesInclude } },
+  });
+  const party = proposal && getParty(req, proposal.appointment);
+  if (!proposal || !party) {
+    res.status(404).json(new ApiError(404, "Reschedule proposal not found"));
+    return null;
+  }
+  if (proposal.status !== RescheduleProposalStatus.PENDING) {
+    res.status(409).json(new ApiError(409, "This proposal is no longer pending"));
+    return null;
+  }
+  return { proposal, party };
+};
+
+// Propose up to MAX_RESCHEDULE_OPTIONS new times for an upcoming appointment
+const proposeReschedule = async (req: Request, res: Response): Promise<void> => {
+  const appointmentId = req.params.appointmentId as string;
+  const { options, message } = req.body;
+
+  try {
+    if (!isValidUUID(appointmentId)) {
+      res.status(400).json(new ApiError(400, "Invalid appointment ID"));
+      return;
+    }
+
+    const appointment = await prisma.appointment.findUnique({
+      where: { id: appointmentId },
+      include: appointmentPartiesInclude,
+    });
+    const party = appointment && getParty(req, appointment);
+    if (!appointment || !party) {
+      res.status(404).json(new ApiError(404, "Appointment not found"));
+      return;
+    }
+    if (!ACTIVE_APPOINTMENT_STATUSES.includes(appointment.status)) {
+      res.status(400).json(new ApiError(400, "Only pending or confirmed appointments can be rescheduled"));
+      return;
+    }
+
+    const proposal = await proposeAppointmentTimes(
+      appointment,
+      party,
+      getActorUserId(req),
+      options,
+      typeof message === "string" ? message.trim() : null
+    );
+
+    res.status(201).json(new ApiResponse(201, proposal, "Reschedule proposal sent"));
+  } catch (error) {
+    if (error instanceof ApiError) {
+      res.status(error.statusCode).json(error);
+      return;
+    }
+    res.status(500).json(new ApiError(500, "Failed to propose new times", [error]));
+  }
+};
+
+// Every proposal made on the appointment, newest first, as its reschedule history
+const listRescheduleProposals = async (req: Request, res: Response): Promise<void> => {
+  const appointmentId = req.params.appointmentId as string;
+
+  try {
+    if (!isValidUUID(appointmentId)) {
+      res.status(400).json(new ApiError(400, "Invalid appointment ID"));
+      return;
+    }
+
+    const appointment = await prisma.appointment.findUnique({
+      where: { id: appointmentId },
+      select: { patientId: true, doctorId: true },
+    });
+    if (!appointment || !getParty(req, appointment)) {
+      res.status(404).json(new ApiError(404, "Appointment not found"));
+      return;
+    }
+
+    const proposals = await prisma.rescheduleProposal.findMany({
+      where: { appointmentId },
+      include: proposalOptionsInclude,
+      orderBy: { createdAt: "desc" },
+    });
+
+    res.status(200).json(new ApiResponse(200, proposals, "Reschedule proposals fetched successfully"));
+  } catch (error) {
+    res.status(500).json(new ApiError(500, "Failed to fetch reschedule proposals", [error]));
+  }
+};
+
+// Accept one option of the other side's proposal. The appointment moves in place
+// and is confirmed, since both sides have now agreed on the time.
+const acceptRescheduleProposal = async (req: Request, res: Response): Promise<void> => {
+  const { optionId } = req.body;
+
+  try {
+    const found = await findProposalForCaller(req, res);
+    if (!found) return;
+    const { proposal, party } = found;
+    const appointment = proposal.appointment;
+
+    if (party === proposal.proposedBy) {
+      res.status(403).json(new ApiError(403, "A proposal must be accepted by the other side"));
+      return;
+    }
+    const option = proposal.options.find((o) => o.id === optionId);
+    if (!option) {
+      res.status(400).json(new ApiError(400, "optionId must be one of the proposal's options"));
+      return;
+    }
+
+    const now = new Date();
+    await prisma.$transaction(async (tx) => {
+      const accepted = await tx.rescheduleProposal.updateMany({
+        where: { id: proposal.id, status: RescheduleProposalStatus.PENDING },
+        data: { status: RescheduleProposalStatus.ACCEPTED, respondedAt: now },
+      });
+      if (accepted.count === 0) {
+        throw new ApiError(409, "This proposal is no longer pending");
+      }
+      await tx.rescheduleOption.update({
+        where: { id: option.id },
+        data: { acceptedAt: now },
+      });
+
+      await moveAppointmentToTime(tx, appointment, option.scheduledAt, appointment.doctor.user.timeZone);
+
+      // Agreeing on a time settles a request the doctor hadn't accepted yet
+      if (appointment.status === AppointmentStatus.PENDING) {
+        await transitionAppointment(
+          tx,
+          appointment,
+          AppointmentStatus.CONFIRMED,
+          { role: party, userId: getActorUserId(req) },
+          { reason: "Accepted a rescheduled time" }
+        );
+      }
+    });
+
+    if (appointment.timeSlotId) {
+      await offerSlotToWaitlist(appointment.timeSlotId);
+    }
+
+    const proposer = counterpartyOf(appointment, party);
+    await prisma.notification.create({
+      data: {
+        userId: proposer.id,
+        type: "APPOINTMENT_RESCHEDULED",
+        title: "Appointment Rescheduled",
+        message: `${partyName(appointment, party)} accepted your proposal. The appointment is now on ${formatDateTimeInZone(option.scheduledAt, proposer.timeZone)}.`,
+        appointmentId: appointment.id,
+      },
+    });
+
+    const patientTimeZone = appointment.patient.user.timeZone;
+    appointmentIcsAttachment(appointment.id, "REQUEST", Role.PATIENT)
+      .then((invite) =>
+        sendEmail({
+          to: appointment.patient.user.email,
+          subject: "Appointment Rescheduled",
+          html: appointmentStatusTemplate(
+            appointment.doctor.user.name,
+            "RESCHEDULED",
+            formatDateInZone(option.scheduledAt, patientTimeZone),
+            formatTimeInZone(option.scheduledAt, patientTimeZone)
+          ),
+          attachments: [invite],
+        })
+      )
+      .catch((err) => console.error("Failed to send appointment status email:", err));
+
+    const updatedAppointment = await prisma.appointment.findUnique({
+      where: { id: appointment.id },
+      include: { timeSlot: true },
+    });
+
+    res.status(200).json(new ApiResponse(200, updatedAppointment, "Appointment rescheduled successfully"));
+  } catch (error) {
+    if (error instanceof ApiError) {
+      res.status(error.statusCode).json(error);
+      return;
+    }
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+      res.status(409).json(new ApiError(409, "This time slot is no longer available"));
+      return;
+    }
+    res.status(500).json(new ApiError(500, "Failed to accept reschedule proposal", [error]));
+  }
+};
+
+// Turn down the other side's proposal; the appointment keeps its current time
+const declineRescheduleProposal = async (req: Request, res: Response): Promise<void> => {
+  const { reason } = req.body;
+
+  try {
+    const found = await findProposalForCaller(req, res);
+    if (!found) return;
+    const { proposal, party } = found;
+
+    if (party === proposal.proposedBy) {
+      res.status(403).json(new ApiError(403, "Withdraw your own proposal instead of declining it"));
+      return;
+    }
+
+    const declined = await prisma.rescheduleProposal.updateMany({
+      where: { id: proposal.id, status: RescheduleProposalStatus.PENDING },
+      data: { status: RescheduleProposalStatus.DECLINED, respondedAt: new Date() },
+    });
+    if (declined.count === 0) {
+      res.status(409).json(new ApiError(409, "This proposal is no longer pending"));
+      return;
+    }
+
+    let message = `${partyName(proposal.appointment, party)} declined the new times you proposed. The appointment keeps its current time.`;
+    if (reason) {
+      message += ` Reason: ${reason}`;
+    }
+    await prisma.notification.create({
+      data: {
+        userId: counterpartyOf(proposal.appointment, party).id,
+        type: "RESCHEDULE_DECLINED",
+        title: "Proposed Times Declined",
+        message,
+        appointmentId: proposal.appointmentId,
+      },
+    });
+
+    res.status(200).json(new ApiResponse(200, null, "Reschedule proposal declined"));
+  } catch (error) {
+    res.status(500).json(new ApiError(500, "Failed to decline reschedule proposal", [error]));
+  }
+};
+
+// Take back a proposal the caller's side made
+const withdrawRescheduleProposal = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const found = await findProposalForCaller(req, res);
+    if (!found) return;
+    const { proposal, party } = found;
+
+    if (party !== proposal.proposedBy) {
+      res.status(403).json(new ApiError(403, "Only the proposing side can withdraw a proposal"));
+      return;
+    }
+
+    const withdrawn = await prisma.rescheduleProposal.updateMany({
+      where: { id: proposal.id, status: RescheduleProposalStatus.PENDING },
+      data: { status: RescheduleProposalStatus.WITHDRAWN, respondedAt: new Date() },
+    });
+    if (withdrawn.count === 0) {
+      res.status(409).json(new ApiError(409, "This proposal is no longer pending"));
+      return;
+    }
+
+    res.status(200).json(new ApiResponse(200, null, "Reschedule proposal withdrawn"));
+  } catch (error) {
+    res.status(500).json(new ApiError(500, "Failed to withdraw reschedule proposal", [error]));
+  }
+};
+
+export {
+  proposeReschedule,
+  listRescheduleProposals,
+  acceptRescheduleProposal,
+  declineRescheduleProposal,
+  withdrawRescheduleProposal,
+};
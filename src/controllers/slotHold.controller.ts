@@ -0,0 +1,148 @@
+import { Request, Response } from "express";
+import { AppointmentStatus, Prisma, TimeSlotStatus } from "@prisma/client";
+import { ApiError } from "../utils/ApiError";
+import { ApiResponse } from "../utils/ApiResponse";
+import prisma from "../utils/prismClient";
+import { isValidUUID } from "../utils/helper";
+import { findOverlappingBlackout, materializeRuleSlot } from "../utils/scheduling";
+import { findOpenWaitlistOffer } from "../utils/waitlist";
+import { bookableSlotWhere, clearedHold, SLOT_HOLD_MINUTES } from "../utils/slotHolds";
+import { assertPatientMayBook } from "../utils/noShows";
+import { assertSchedulingPolicy } from "../utils/schedulingPolicy";
+
+// Reserve a slot for SLOT_HOLD_MINUTES while the patient fills in intake notes or
+// pays. Send { timeSlotId }, or { ruleId, startTime } for a recurring rule slot.
+// The hold becomes an appointment through book-appointment with the same
+// timeSlotId; a patient holds at most one slot, so a new hold releases the last.
+const holdTimeSlot = async (req: Request, res: Response): Promise<void> => {
+  const patientId = (req as any).user?.patient?.id;
+  const { timeSlotId, ruleId, startTime } = req.body;
+
+  try {
+    const ruleSlotStart = ruleId ? new Date(startTime) : null;
+    if (!timeSlotId && !ruleId) {
+      res.status(400).json(new ApiError(400, "Time slot id, or ruleId and startTime, is required"));
+      return;
+    }
+    if (timeSlotId && !isValidUUID(timeSlotId)) {
+      res.status(400).json(new ApiError(400, "Invalid time slot ID"));
+      return;
+    }
+    if (!timeSlotId && (!isValidUUID(ruleId) || !ruleSlotStart || isNaN(ruleSlotStart.getTime()))) {
+      res.status(400).json(new ApiError(400, "Valid ruleId and startTime are required"));
+      return;
+    }
+
+    const now = new Date();
+    const holdExpiresAt = new Date(now.getTime() + SLOT_HOLD_MINUTES * 60 * 1000);
+
+    const slot = await prisma.$transaction(async (tx) => {
+      await assertPatientMayBook(tx, patientId, now);
+
+      const slotId = timeSlotId ?? (await materializeRuleSlot(tx, ruleId, ruleSlotStart!)).id;
+
+      await tx.timeSlot.updateMany({
+        where: { id: { not: slotId }, status: TimeSlotStatus.HELD, holdPatientId: patientId },
+        data: { status: TimeSlotStatus.AVAILABLE, ...clearedHold },
+      });
+
+      const timeSlot = await tx.timeSlot.findUnique({
+        where: { id: slotId },
+        include: { doctor: { select: { user: { select: { timeZone: true } } } } },
+      });
+      if (!timeSlot) {
+        throw new ApiError(404, "Time slot not found");
+      }
+      if (timeSlot.startTime <= now) {
+        throw new ApiError(400, "This time slot has already started");
+      }
+      if (await findOverlappingBlackout(tx, timeSlot.doctorId, timeSlot.startTime, timeSlot.endTime)) {
+        throw new ApiError(409, "The doctor is unavailable at this time");
+      }
+      if (await findOpenWaitlistOffer(tx, timeSlot.id)) {
+        throw new ApiError(409, "This time slot is being held for a waitlisted patient");
+      }
+      await assertSchedulingPolicy(
+        tx,
+        timeSlot.doctorId,
+        timeSlot.startTime,
+        timeSlot.endTime,
+        timeSlot.doctor.user.timeZone,
+        { now }
+      );
+
+      const existingAppointment = await tx.appointment.findFirst({
+        where: {
+          patientId,
+          status: { in: [AppointmentStatus.PENDING, AppointmentStatus.CONFIRMED] },
+          scheduledAt: { gte: timeSlot.startTime, lt: timeSlot.endTime },
+        },
+        select: { id: true },
+      });
+      if (existingAppointment) {
+        throw new ApiError(400, "You have already appointment in this time");
+      }
+
+      const held = await tx.timeSlot.updateMany({
+        where: { id: timeSlot.id, ...bookableSlotWhere(patientId, now) },
+        data: { status: TimeSlotStatus.HELD, holdPatientId: patientId, holdExpiresAt },
+      });
+      if (held.count === 0) {
+        throw new ApiError(409, "This time slot is no longer available");
+      }
+
+      return timeSlot;
+    });
+
+    res.status(201).json(
+      new ApiResponse(
+        201,
+        {
+          timeSlotId: slot.id,
+          startTime: slot.startTime,
+          endTime: slot.endTime,
+          holdExpiresAt,
+        },
+        `Time slot held for ${SLOT_HOLD_MINUTES} minutes`
+      )
+    );
+  } catch (error) {
+    if (error instanceof ApiError) {
+      res.status(error.statusCode).json(error);
+      return;
+    }
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+      res.status(409).json(new ApiError(409, "This time slot is no longer available"));
+      return;
+    }
+    res.status(500).json(new ApiError(500, "Failed to hold time slot", [error]));
+  }
+};
+
+// Give up a hold before it expires
+const releaseSlotHold = async (req: Request, res: Response): Promise<void> => {
+  const patientId = (req as any).user?.patient?.id;
+  const timeSlotId = req.params.timeSlotId as string;
+
+  try {
+    if (!isValidUUID(timeSlotId)) {
+      res.status(400).json(new ApiError(400, "Invalid time slot ID"));
+      return;
+    }
+
+    const released = await prisma.timeSlot.updateMany({
+      where: { id: timeSlotId, status: TimeSlotStatus.HELD, holdPatientId: patientId },
+      data: { status: TimeSlotStatus.AVAILABLE, ...clearedHold },
+    });
+    if (released.count === 0) {
+      res.status(404).json(new ApiError(404, "No hold found for this time slot"));
+      return;
+    }
+
+    res.status(200).json(new ApiResponse(200, null, "Time slot released"));
+  } catch (error) {
+    res.status(500).json(new ApiError(500, "Failed to release time slot", [error]));
+  }
+};
+
+export { holdTimeSlot, releaseSlotHold };
@@ -3,31 +3,87 @@ import { ApiResponse } from "../utils/ApiResponse";
 import prisma from "../utils/prismClient";
 import bcrypt from "bcrypt";
 import { Response } from "express";
-import { generateAccessToken, generateRefreshToken } from "../utils/jwt";
-import { Prisma } from "@prisma/client";
+import {
+  generateAccessToken,
+  generateRefreshToken,
+  generateTwoFactorChallengeToken,
+  verifyTwoFactorChallengeToken,
+  TwoFactorChallengePurpose,
+} from "../utils/jwt";
+import { Prisma, Role, User } from "@prisma/client";
 import { Request } from "express";
-import { hash } from "crypto";
-import { isValidUUID, validatePassword } from "../utils/helper";
+import crypto from "crypto";
+import jwt from "jsonwebtoken";
+import { isValidUUID, validatePassword, hashToken, tokenMatchesHash } from "../utils/helper";
+import { DEFAULT_TIME_ZONE, isValidTimeZone } from "../utils/timezone";
 import { TimeSlotStatus, AppointmentStatus } from "@prisma/client";
-import { generateVerificationToken, sendVerificationEmail, sendWelcomeEmail } from "../utils/emailService";
+import {
+  generateVerificationToken,
+  generateSecureToken,
+  sendVerificationEmail,
+  sendWelcomeEmail,
+  sendPasswordResetEmail,
+  sendAccountLockedEmail,
+  sendEmailChangeVerificationEmail,
+  sendEmailChangeNoticeEmail,
+} from "../utils/emailService";
+import {
+  getLoginBlock,
+  recordFailedLogin,
+  resetFailedLogins,
+  LoginBlock,
+} from "../utils/loginThrottle";
+import {
+  generateTotpSecret,
+  verifyTotp,
+  buildTotpProvisioningUri,
+  generateRecoveryCodes,
+  normalizeRecoveryCode,
+} from "../utils/totp";
+
+const PASSWORD_RESET_TOKEN_TTL_MS = 60 * 60 * 1000; // 1 hour
+const EMAIL_CHANGE_TOKEN_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours, same as signup verification
+
+// Signs an access/refresh pair bound to a session; only the refresh token's hash is stored
+const signSessionTokens = (userId: string, tokenVersion: number, sessionId: string) => {
+  const accessToken = generateAccessToken(userId, tokenVersion, sessionId);
+  const refreshToken = generateRefreshToken(userId, tokenVersion, sessionId);
+  const { exp } = jwt.decode(refreshToken) as jwt.JwtPayload;
+
+  return {
+    accessToken,
+    refreshToken,
+    refreshTokenHash: hashToken(refreshToken),
+    expiresAt: new Date((exp as number) * 1000),
+  };
+};
+
+const getSessionMetadata = (req: Request) => ({
+  userAgent: req.get("user-agent")?.slice(0, 512) || null,
+  ipAddress: req.ip || null,
+  lastSeenAt: new Date(),
+});
 
-const generateToken = async (userId: string) => {
+// Opens a new per-device session, leaving the user's other sessions untouched
+const generateToken = async (userId: string, req: Request) => {
   try {
-    // Increment tokenVersion to invalidate any previously issued tokens
-    const user = await prisma.user.update({
+    const user = await prisma.user.findUniqueOrThrow({
       where: { id: userId },
-      data: { tokenVersion: { increment: 1 } },
       select: { tokenVersion: true },
     });
 
-    const accessToken = generateAccessToken(userId, user.tokenVersion);
-    const refreshToken = generateRefreshToken(userId, user.tokenVersion);
-
-    const hashedRefresh = await bcrypt.hash(refreshToken, 10);
+    const sessionId = crypto.randomUUID();
+    const { accessToken, refreshToken, refreshTokenHash, expiresAt } =
+      signSessionTokens(userId, user.tokenVersion, sessionId);
 
-    await prisma.user.update({
-      where: { id: userId },
-      data: { refreshToken: hashedRefresh },
+    await prisma.session.create({
+      data: {
+        id: sessionId,
+        userId,
+        refreshTokenHash,
+        expiresAt,
+        ...getSessionMetadata(req),
+      },
     });
 
     return { accessToken, refreshToken };
@@ -36,8 +92,105 @@ const generateToken = async (userId: string) => {
   }
 };
 
+// 429 with Retry-After while an account is backing off or locked out
+const sendLoginBlocked = (res: any, block: LoginBlock) => {
+  return res
+    .status(429)
+    .set("Retry-After", String(block.retryAfterSeconds))
+    .json(
+      new ApiError(
+        429,
+        block.locked
+          ? "Account temporarily locked due to too many failed login attempts"
+          : `Too many failed login attempts, please try again in ${block.retryAfterSeconds} seconds`
+      )
+    );
+};
+
+// Counts a failed password/2FA attempt and emails the owner if it locked the account
+const registerFailedLogin = async (user: User): Promise<LoginBlock | null> => {
+  const lockedUntil = await recordFailedLogin(user.id, user);
+  if (!lockedUntil) {
+    return null;
+  }
+
+  await sendAccountLockedEmail(user.email, user.name, lockedUntil, user.timeZone);
+  return {
+    locked: true,
+    retryAfterSeconds: Math.ceil((lockedUntil.getTime() - Date.now()) / 1000),
+  };
+};
+
+// Issues the access/refresh cookies once every login factor has been checked
+const completeLogin = async (
+  req: Request,
+  res: any,
+  user: Pick<User, "id" | "name" | "email" | "role" | "profilePicture">,
+  extraData: Record<string, unknown> = {}
+) => {
+  const { accessToken, refreshToken } = await generateToken(user.id, req);
+  await resetFailedLogins(user.id);
+
+  const options = {
+    httpOnly: true, //only modified by server
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax" as const, // Added SameSite policy
+  };
+
+  return res
+    .status(200)
+    .cookie("accessToken", accessToken, options)
+    .cookie("refreshToken", refreshToken, options)
+    .json(
+      new ApiResponse(
+        200,
+        {
+          id: user.id,
+          name: user.name,
+          email: user.email,
+          role: user.role,
+          profilePicture: user.profilePicture,
+          accessToken,
+          ...extraData,
+        },
+        "Login successfully",
+      ),
+    );
+};
+
+const isTwoFactorRequiredForRole = async (role: Role): Promise<boolean> => {
+  const policy = await prisma.twoFactorPolicy.findUnique({ where: { role } });
+  return policy?.required ?? false;
+};
+
 // Using Request type from Express with proper typing
 
+// Adds the user to the community room for their city, creating the room on first use
+const joinCityRoom = async (
+  tx: Prisma.TransactionClient,
+  userId: string,
+  city: string
+) => {
+  let cityRoom = await tx.room.findFirst({
+    where: { name: city },
+  });
+
+  if (!cityRoom) {
+    cityRoom = await tx.room.create({
+      data: { name: city },
+    });
+  }
+
+  await tx.room.update({
+    where: { id: cityRoom.id },
+    data: {
+      members: {
+        connect: { id: userId },
+      },
+    },
+  });
+};
+
 const signup = async (req: Request, res: any) => {
   const {
     firstName,
@@ -45,9 +198,8 @@ const signup = async (req: Request, res: any) => {
     email,
     password,
     role,
-    specialty,
-    clinicLocation,
     location, // Patient location
+    timeZone,
   } = req.body;
 
   const name = `${firstName || ""} ${lastName || ""}`.trim();
@@ -65,16 +217,9 @@ const signup = async (req: Request, res: any) => {
       .json(new ApiError(400, "Name, email, and password are required"));
   }
   if (role === "DOCTOR") {
-    if (
-      !specialty ||
-      !clinicLocation ||
-      specialty.trim() === "" ||
-      clinicLocation.trim() === ""
-    ) {
-      return res
-        .status(400)
-        .json(new ApiError(400, "All doctor fields are required"));
-    }
+    return res
+      .status(403)
+      .json(new ApiError(403, "Doctor accounts can only be created from an admin invitation"));
   } else if (role === "PATIENT") {
     if (!location || location.trim() === "") {
       return res
@@ -83,6 +228,12 @@ const signup = async (req: Request, res: any) => {
     }
   }
 
+  if (timeZone !== undefined && !isValidTimeZone(timeZone)) {
+    return res
+      .status(400)
+      .json(new ApiError(400, "timeZone must be a valid IANA time zone, e.g. Asia/Kolkata"));
+  }
+
   // Validate password strength
   const passwordValidation = validatePassword(password);
   if (!passwordValidation.isValid) {
@@ -118,6 +269,7 @@ const signup = async (req: Request, res: any) => {
           email,
           password: hashedPassword,
           role,
+          timeZone: timeZone ?? DEFAULT_TIME_ZONE,
           isEmailVerified: false,
           emailVerificationToken: verificationToken,
           tokenExpiresAt: tokenExpiresAt,
@@ -126,67 +278,16 @@ const signup = async (req: Request, res: any) => {
         },
       });
 
-      if (role === "DOCTOR") {
-        await tx.doctor.create({
-          data: {
-            userId: user.id,
-            specialty,
-            clinicLocation,
-          },
-        });
-
-        // Auto-join doctor to city room based on clinic location
-        if (clinicLocation) {
-          let cityRoom = await tx.room.findFirst({
-            where: { name: clinicLocation },
-          });
-
-          if (!cityRoom) {
-            cityRoom = await tx.room.create({
-              data: { name: clinicLocation },
-            });
-          }
-
-          // Add user to the city room
-          await tx.room.update({
-            where: { id: cityRoom.id },
-            data: {
-              members: {
-                connect: { id: user.id },
-              },
-            },
-          });
-        }
-      } else {
-        await prisma.patient.create({
-          data: {
-            userId: user.id,
-            location: location || null,
-          },
-        });
-
-        // Auto-join patient to city room based on location
-        if (location) {
-          let cityRoom = await tx.room.findFirst({
-            where: { name: location },
-          });
-
-          if (!cityRoom) {
-            cityRoom = await tx.room.create({
-              data: { name: location },
-            });
-          }
-
-          // Add user to the city room
-          await tx.room.update({
-            where: { id: cityRoom.id },
-            data: {
-              members: {
-                connect: { id: user.id },
-              },
-            },
-          });
-        }
+      await tx.patient.create({
+        data: {
+          userId: user.id,
+          location: location || null,
+        },
+      });
+
+      // Auto-join patient to city room based on location
+      if (location) {
+        await joinCityRoom(tx, user.id, location);
       }
 
       return user;
@@ -249,6 +350,13 @@ const verifyEmail = async (req: Request, res: any) => {
         .json(new ApiResponse(200, {}, "Email is already verified"));
     }
 
+    // The token belongs to an email change and only proves the new address
+    if (user.pendingEmail) {
+      return res
+        .status(400)
+        .json(new ApiError(400, "Invalid verification token"));
+    }
+
     if (user.emailVerificationToken !== String(token)) {
       return res
         .status(400)
@@ -327,6 +435,13 @@ const resendVerificationEmail = async (req: Request, res: any) => {
         .json(new ApiResponse(200, {}, "Email is already verified"));
     }
 
+    // Don't replace the token of a pending email change
+    if (user.pendingEmail) {
+      return res
+        .status(409)
+        .json(new ApiError(409, "An email change is pending; confirm it from the new address first"));
+    }
+
     // Generate new token
     const verificationToken = generateVerificationToken();
     const tokenExpiresAt = new Date(Date.now() + 24 * 60 * 60 * 1000);
@@ -365,84 +480,72 @@ const resendVerificationEmail = async (req: Request, res: any) => {
   }
 };
 
-const adminSignup = async (req: Request, res: any) => {
-  const { firstName, lastName, email, password } = req.body;
+// Start an email change: the new address must confirm before it replaces the current one
+const requestEmailChange = async (req: any, res: any) => {
+  try {
+    const userId = (req as any).user?.id;
+    const { newEmail, password } = req.body;
 
-  const name = `${firstName || ""} ${lastName || ""}`.trim();
+    if (!newEmail || typeof newEmail !== "string" || !newEmail.includes("@") || !password) {
+      return res
+        .status(400)
+        .json(new ApiError(400, "A valid new email and your current password are required"));
+    }
 
-  if (
-    !name ||
-    !email ||
-    !password ||
-    name === "" ||
-    email.trim() === "" ||
-    password.trim() === ""
-  ) {
-    return res
-      .status(400)
-      .json(new ApiError(400, "Name, email, and password are required"));
-  }
+    const normalizedEmail = newEmail.trim().toLowerCase();
 
-  // Validate password strength
-  const passwordValidation = validatePassword(password);
-  if (!passwordValidation.isValid) {
-    return res
-      .status(400)
-      .json(new ApiError(400, passwordValidation.message || "Invalid password"));
-  }
+    const user = await prisma.user.findUnique({ where: { id: userId } });
+    if (!user) {
+      return res.status(404).json(new ApiError(404, "User not found"));
+    }
 
-  try {
-    let existingUser = await prisma.user.findFirst({
-      where: { name },
-    });
+    const match = await bcrypt.compare(password, user.password);
+    if (!match) {
+      return res.status(401).json(new ApiError(401, "Invalid password"));
+    }
 
-    if (existingUser) {
-      return res.status(409).json(new ApiError(409, "Username already taken"));
+    // The change token shares the signup verification columns, so the current
+    // address has to be verified first
+    if (!user.isEmailVerified) {
+      return res
+        .status(403)
+        .json(new ApiError(403, "Verify your current email address before changing it"));
     }
 
-    existingUser = await prisma.user.findUnique({
-      where: { email },
-    });
+    if (normalizedEmail === user.email.toLowerCase()) {
+      return res
+        .status(400)
+        .json(new ApiError(400, "New email must be different from your current email"));
+    }
 
+    const existingUser = await prisma.user.findFirst({
+      where: { email: { equals: normalizedEmail, mode: "insensitive" } },
+    });
     if (existingUser) {
-      return res.status(409).json(new ApiError(409, "User already exists"));
+      return res.status(409).json(new ApiError(409, "Email is already in use"));
     }
-    const hashedPassword = await bcrypt.hash(password, 10);
-
-    const result = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
-      // Create the user
-      const user = await tx.user.create({
-        data: {
-          name: name.toLowerCase(),
-          email,
-          password: hashedPassword,
-          role: "ADMIN",
-          profilePicture: null,
-        },
-      });
-
-      // Create the admin record
-      const admin = await tx.admin.create({
-        data: {
-          userId: user.id,
-          permissions: {
-            canManageUsers: true,
-            canManageDoctors: true,
-            canManagePatients: true,
-            canViewAnalytics: true,
-            canManageSystem: true,
-          },
-        },
-      });
 
-      return { user, admin };
+    // Reuses the signup verification columns; a newer request replaces an older pending one
+    const verificationToken = generateSecureToken();
+    await prisma.user.update({
+      where: { id: user.id },
+      data: {
+        pendingEmail: normalizedEmail,
+        emailVerificationToken: verificationToken,
+        tokenExpiresAt: new Date(Date.now() + EMAIL_CHANGE_TOKEN_TTL_MS),
+      },
     });
 
+    await sendEmailChangeVerificationEmail(normalizedEmail, user.name, verificationToken);
+    await sendEmailChangeNoticeEmail(user.email, user.name, normalizedEmail);
+
     return res
       .status(200)
-      .json(
-        new ApiResponse(200, { user: result.user }, "Admin signup successful")
-      );
+      .json(new ApiResponse(
+        200,
+        { pendingEmail: normalizedEmail },
+        "Verification link sent to your new email address"
+      ));
   } catch (err) {
     console.error(err);
     return res
@@ -451,133 +554,970 @@ const adminSignup = async (req: Request, res: any) => {
   }
 };
 
-const login = async (req: any, res: any) => {
-  const { data, password } = req.body;
+// Confirmation link from the new address; swaps the email only now
+const confirmEmailChange = async (req: Request, res: any) => {
   try {
-    if (!data) {
-      return res.json(new ApiError(400, "username or email is required"));
-    }
-    if ([password, data].some((field) => field.trim() === "")) {
-      return res.json(new ApiError(400, "All field required"));
+    const { token, email } = req.query;
+
+    if (!token || !email) {
+      return res
+        .status(400)
+        .json(new ApiError(400, "Verification token and email are required"));
     }
 
+    // Several accounts may be waiting for the same address; the token picks the one
     const user = await prisma.user.findFirst({
       where: {
-        OR: [
-          { email: { equals: data, mode: "insensitive" } },
-          { name: { equals: data, mode: "insensitive" } },
-        ],
+        pendingEmail: String(email).toLowerCase(),
+        emailVerificationToken: String(token),
+        deletedAt: null,
       },
     });
 
     if (!user) {
       return res
-        .status(401)
-        .json(new ApiError(401, "Invalid username or password"));
+        .status(400)
+        .json(new ApiError(400, "Invalid verification token"));
     }
 
-    if (user.deletedAt) {
+    if (user.tokenExpiresAt && new Date() > user.tokenExpiresAt) {
       return res
-        .status(403)
-        .json(new ApiError(403, "This account has been deactivated. Please contact support."));
+        .status(400)
+        .json(new ApiError(400, "Verification token has expired"));
     }
 
-    const match = await bcrypt.compare(password, user.password);
-    if (!match) {
-      return res
-        .status(401)
-        .json(new ApiError(401, "Invalid username or password"));
+    const emailTaken = await prisma.user.findFirst({
+      where: {
+        id: { not: user.id },
+        email: { equals: user.pendingEmail as string, mode: "insensitive" },
+      },
+    });
+    if (emailTaken) {
+      return res.status(409).json(new ApiError(409, "Email is already in use"));
     }
 
-    // Check if email is verified
-    if (!user.isEmailVerified) {
+    // Conditional on the token so a superseded link cannot apply an older address
+    const updated = await prisma.user.updateMany({
+      where: { id: user.id, emailVerificationToken: user.emailVerificationToken },
+      data: {
+        email: user.pendingEmail as string,
+        pendingEmail: null,
+        emailVerificationToken: null,
+        tokenExpiresAt: null,
+      },
+    });
+
+    if (updated.count === 0) {
       return res
-        .status(403)
-        .json(new ApiError(
-          403, 
-          "Please verify your email before logging in. Check your inbox for verification link."
-        ));
+        .status(400)
+        .json(new ApiError(400, "Invalid verification token"));
     }
 
-    const { accessToken, refreshToken } = await generateToken(user.id);
-
-    // const {password , ...loggedInUser} = user;
-
-    const options = {
-      httpOnly: true, //only modified by server
-      secure: process.env.NODE_ENV === "production",
-      sameSite: "lax" as const, // Added SameSite policy
-    };
-
     return res
       .status(200)
-      .cookie("accessToken", accessToken, options)
-      .cookie("refreshToken", refreshToken, options)
-      .json(
-        new ApiResponse(
-          200,
-          {
-            id: user.id,
-            name: user.name,
-            email: user.email,
-            role: user.role,
-            profilePicture: user.profilePicture,
-            accessToken,
-          },
-          "Login successfully",
-        ),
-      );
+      .json(new ApiResponse(
+        200,
+        { email: user.pendingEmail },
+        "Email address updated successfully"
+      ));
   } catch (err) {
-    return res.status(500).json(new ApiError(500, "Internal server error"));
+    if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === "P2002") {
+      return res.status(409).json(new ApiError(409, "Email is already in use"));
+    }
+    console.error(err);
+    return res
+      .status(500)
+      .json(new ApiError(500, "Internal server error", [err]));
   }
 };
 
-const logout = async (req: any, res: any) => {
+// Drop a pending email change, invalidating its confirmation link
+const cancelEmailChange = async (req: any, res: any) => {
   try {
-    const id = (req as any).user.id;
+    const userId = (req as any).user?.id;
 
-    // Increment tokenVersion to invalidate all existing tokens and clear stored refresh token
-    await prisma.user.update({
-      where: { id },
+    const cancelled = await prisma.user.updateMany({
+      where: { id: userId, pendingEmail: { not: null } },
       data: {
-        refreshToken: "",
-        tokenVersion: { increment: 1 },
+        pendingEmail: null,
+        emailVerificationToken: null,
+        tokenExpiresAt: null,
       },
     });
 
-    const options = {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === "production",
-      sameSite: "lax" as const, // Added SameSite policy
-    };
+    if (cancelled.count === 0) {
+      return res
+        .status(404)
+        .json(new ApiError(404, "No pending email change"));
+    }
 
     return res
       .status(200)
-      .clearCookie("accessToken", options)
-      .clearCookie("refreshToken", options)
-      .json(new ApiResponse(200, "Logout successfully"));
+      .json(new ApiResponse(200, {}, "Pending email change cancelled"));
   } catch (err) {
-    return res.status(500).json(new ApiError(500, "internal server error"));
+    return res
+      .status(500)
+      .json(new ApiError(500, "Internal server error", [err]));
   }
 };
 
-const refreshAccessToken = async (req: any, res: any) => {
+// Forgot password: email a single-use reset link
+const forgotPassword = async (req: Request, res: any) => {
   try {
-    const incomingRefreshToken =
-      req.cookies?.refreshToken || req.body?.refreshToken;
+    const { email } = req.body;
 
-    if (!incomingRefreshToken) {
+    if (!email || typeof email !== "string" || email.trim() === "") {
       return res
-        .status(401)
-        .json(new ApiError(401, "Refresh token is required"));
+        .status(400)
+        .json(new ApiError(400, "Email is required"));
     }
 
-    // Verify the refresh token
-    let decoded: any;
-    try {
-      decoded = jwt.verify(
-        incomingRefreshToken,
-        process.env.REFRESH_TOKEN_SECRET as string
+    // Same response whether or not the account exists, to avoid leaking registered emails
+    const genericResponse = new ApiResponse(
+      200,
+      {},
+      "If an account exists for this email, a password reset link has been sent"
+    );
+
+    const user = await prisma.user.findUnique({
+      where: { email: email.trim() },
+    });
+
+    if (!user || user.deletedAt) {
+      return res.status(200).json(genericResponse);
+    }
+
+    // Only the hash is persisted; issuing a new token replaces any previous one
+    const resetToken = generateSecureToken();
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: {
+        passwordResetToken: hashToken(resetToken),
+        passwordResetExpiresAt: new Date(Date.now() + PASSWORD_RESET_TOKEN_TTL_MS),
+      },
+    });
+
+    try {
+      await sendPasswordResetEmail(user.email, user.name, resetToken);
+    } catch (emailError) {
+      console.error("Failed to send password reset email:", emailError);
+    }
+
+    return res.status(200).json(genericResponse);
+  } catch (err) {
+    console.error(err);
+    return res
+      .status(500)
+      .json(new ApiError(500, "Internal server error", [err]));
+  }
+};
+
+// Reset password using the emailed token; logs the user out everywhere
+const resetPassword = async (req: Request, res: any) => {
+  try {
+    const { email, token, newPassword } = req.body;
+
+    if (!email || !token || !newPassword) {
+      return res
+        .status(400)
+        .json(new ApiError(400, "Email, token, and new password are required"));
+    }
+
+    const passwordValidation = validatePassword(newPassword);
+    if (!passwordValidation.isValid) {
+      return res
+        .status(400)
+        .json(new ApiError(400, passwordValidation.message || "Invalid password"));
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: String(email).trim() },
+    });
+
+    if (
+      !user ||
+      user.deletedAt ||
+      !user.passwordResetToken ||
+      !tokenMatchesHash(String(token), user.passwordResetToken)
+    ) {
+      return res
+        .status(400)
+        .json(new ApiError(400, "Invalid or expired password reset token"));
+    }
+
+    if (!user.passwordResetExpiresAt || new Date() > user.passwordResetExpiresAt) {
+      return res
+        .status(400)
+        .json(new ApiError(400, "Invalid or expired password reset token"));
+    }
+
+    const hashedPassword = await bcrypt.hash(newPassword, 10);
+
+    // Conditional update on the stored hash makes the token single-use even under concurrent requests
+    const updated = await prisma.user.updateMany({
+      where: { id: user.id, passwordResetToken: user.passwordResetToken },
+      data: {
+        password: hashedPassword,
+        passwordResetToken: null,
+        passwordResetExpiresAt: null,
+        // Proving control of the mailbox also lifts any login lockout
+        failedLoginAttempts: 0,
+        lastFailedLoginAt: null,
+        lockedUntil: null,
+        // Invalidate every existing access/refresh token
+        tokenVersion: { increment: 1 },
+      },
+    });
+
+    if (updated.count === 0) {
+      return res
+        .status(400)
+        .json(new ApiError(400, "Invalid or expired password reset token"));
+    }
+
+    await prisma.session.updateMany({
+      where: { userId: user.id, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+
+    return res
+      .status(200)
+      .json(new ApiResponse(200, {}, "Password reset successfully. Please log in with your new password."));
+  } catch (err) {
+    console.error(err);
+    return res
+      .status(500)
+      .json(new ApiError(500, "Internal server error", [err]));
+  }
+};
+
+// Finds a doctor invite that can still be accepted
+const findUsableDoctorInvite = (token: string) => {
+  return prisma.doctorInvite.findFirst({
+    where: {
+      tokenHash: hashToken(token),
+      acceptedAt: null,
+      revokedAt: null,
+      expiresAt: { gt: new Date() },
+    },
+  });
+};
+
+// Lets the invite page show the preset email and specialty before the doctor signs up
+const getDoctorInvite = async (req: Request, res: any) => {
+  try {
+    const { token } = req.query;
+
+    if (!token || typeof token !== "string") {
+      return res.status(400).json(new ApiError(400, "Invite token is required"));
+    }
+
+    const invite = await findUsableDoctorInvite(token);
+    if (!invite) {
+      return res
+        .status(400)
+        .json(new ApiError(400, "Invalid or expired invite link"));
+    }
+
+    return res.status(200).json(
+      new ApiResponse(
+        200,
+        {
+          email: invite.email,
+          specialty: invite.specialty,
+          expiresAt: invite.expiresAt,
+        },
+        "Invite is valid",
+      ),
+    );
+  } catch (err) {
+    return res
+      .status(500)
+      .json(new ApiError(500, "Internal server error", [err]));
+  }
+};
+
+// Creates the doctor account from an invite; email, role and specialty come from the invite
+const acceptDoctorInvite = async (req: Request, res: any) => {
+  const {
+    token,
+    firstName,
+    lastName,
+    password,
+    clinicLocation,
+    experience,
+    education,
+    bio,
+    languages,
+    timeZone,
+  } = req.body;
+
+  const name = `${firstName || ""} ${lastName || ""}`.trim();
+
+  if (!token || !name || !password || password.trim() === "") {
+    return res
+      .status(400)
+      .json(new ApiError(400, "Invite token, name and password are required"));
+  }
+
+  if (!clinicLocation || clinicLocation.trim() === "") {
+    return res
+      .status(400)
+      .json(new ApiError(400, "Clinic location is required"));
+  }
+
+  if (languages !== undefined && !Array.isArray(languages)) {
+    return res
+      .status(400)
+      .json(new ApiError(400, "Languages must be an array"));
+  }
+
+  if (timeZone !== undefined && !isValidTimeZone(timeZone)) {
+    return res
+      .status(400)
+      .json(new ApiError(400, "timeZone must be a valid IANA time zone, e.g. Asia/Kolkata"));
+  }
+
+  const passwordValidation = validatePassword(password);
+  if (!passwordValidation.isValid) {
+    return res
+      .status(400)
+      .json(new ApiError(400, passwordValidation.message || "Invalid password"));
+  }
+
+  try {
+    const invite = await findUsableDoctorInvite(token);
+    if (!invite) {
+      return res
+        .status(400)
+        .json(new ApiError(400, "Invalid or expired invite link"));
+    }
+
+    const existingName = await prisma.user.findFirst({
+      where: { name: name.toLowerCase() },
+    });
+    if (existingName) {
+      return res.status(409).json(new ApiError(409, "Username already taken"));
+    }
+
+    const existingEmail = await prisma.user.findFirst({
+      where: { email: { equals: invite.email, mode: "insensitive" } },
+    });
+    if (existingEmail) {
+      return res.status(409).json(new ApiError(409, "User already exists"));
+    }
+
+    const hashedPassword = await bcrypt.hash(password, 10);
+
+    const result = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      const user = await tx.user.create({
+        data: {
+          name: name.toLowerCase(),
+          email: invite.email,
+          password: hashedPassword,
+          role: Role.DOCTOR,
+          timeZone: timeZone ?? DEFAULT_TIME_ZONE,
+          // Following the emailed invite link proves ownership of the address
+          isEmailVerified: true,
+          profilePicture:
+            "https://res.cloudinary.com/de930by1y/image/upload/v1747403920/careXpert_profile_pictures/kxwsom57lcjamzpfjdod.jpg",
+        },
+      });
+
+      const doctor = await tx.doctor.create({
+        data: {
+          userId: user.id,
+          specialty: invite.specialty,
+          clinicLocation: clinicLocation.trim(),
+          experience: experience !== undefined ? String(experience) : undefined,
+          education,
+          bio,
+          languages: languages || [],
+          invitedById: invite.invitedById,
+        },
+      });
+
+      // Single use: fails if the invite was accepted or revoked in the meantime
+      const claimed = await tx.doctorInvite.updateMany({
+        where: { id: invite.id, acceptedAt: null, revokedAt: null },
+        data: { acceptedAt: new Date(), doctorId: doctor.id },
+      });
+      if (claimed.count === 0) {
+        throw new ApiError(400, "Invalid or expired invite link");
+      }
+
+      await joinCityRoom(tx, user.id, clinicLocation.trim());
+
+      return { user, doctor };
+    });
+
+    return res.status(201).json(
+      new ApiResponse(
+        201,
+        {
+          user: {
+            id: result.user.id,
+            email: result.user.email,
+            name: result.user.name,
+            role: result.user.role,
+          },
+          doctor: {
+            id: result.doctor.id,
+            specialty: result.doctor.specialty,
+            clinicLocation: result.doctor.clinicLocation,
+          },
+        },
+        "Invite accepted. You can now log in.",
+      ),
+    );
+  } catch (err) {
+    if (err instanceof ApiError) {
+      return res.status(err.statusCode).json(err);
+    }
+    console.error(err);
+    return res
+      .status(500)
+      .json(new ApiError(500, "Internal server error", [err]));
+  }
+};
+
+const adminSignup = async (req: Request, res: any) => {
+  const { firstName, lastName, email, password } = req.body;
+
+  const name = `${firstName || ""} ${lastName || ""}`.trim();
+
+  if (
+    !name ||
+    !email ||
+    !password ||
+    name === "" ||
+    email.trim() === "" ||
+    password.trim() === ""
+  ) {
+    return res
+      .status(400)
+      .json(new ApiError(400, "Name, email, and password are required"));
+  }
+
+  // Validate password strength
+  const passwordValidation = validatePassword(password);
+  if (!passwordValidation.isValid) {
+    return res
+      .status(400)
+      .json(new ApiError(400, passwordValidation.message || "Invalid password"));
+  }
+
+  try {
+    let existingUser = await prisma.user.findFirst({
+      where: { name },
+    });
+
+    if (existingUser) {
+      return res.status(409).json(new ApiError(409, "Username already taken"));
+    }
+
+    existingUser = await prisma.user.findUnique({
+      where: { email },
+    });
+
+    if (existingUser) {
+      return res.status(409).json(new ApiError(409, "User already exists"));
+    }
+    const hashedPassword = await bcrypt.hash(password, 10);
+
+    const result = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      // Create the user
+      const user = await tx.user.create({
+        data: {
+          name: name.toLowerCase(),
+          email,
+          password: hashedPassword,
+          role: "ADMIN",
+          profilePicture: null,
+        },
+      });
+
+      // Create the admin record; permissions are granted later by a super admin
+      const admin = await tx.admin.create({
+        data: {
+          userId: user.id,
+          permissions: [],
+        },
+      });
+
+      return { user, admin };
+    });
+
+    return res
+      .status(200)
+      .json(
+        new ApiResponse(200, { user: result.user }, "Admin signup successful")
+      );
+  } catch (err) {
+    console.error(err);
+    return res
+      .status(500)
+      .json(new ApiError(500, "Internal server error", [err]));
+  }
+};
+
+const login = async (req: any, res: any) => {
+  const { data, password } = req.body;
+  try {
+    if (!data) {
+      return res.json(new ApiError(400, "username or email is required"));
+    }
+    if ([password, data].some((field) => field.trim() === "")) {
+      return res.json(new ApiError(400, "All field required"));
+    }
+
+    const user = await prisma.user.findFirst({
+      where: {
+        OR: [
+          { email: { equals: data, mode: "insensitive" } },
+          { name: { equals: data, mode: "insensitive" } },
+        ],
+      },
+    });
+
+    if (!user) {
+      return res
+        .status(401)
+        .json(new ApiError(401, "Invalid username or password"));
+    }
+
+    if (user.deletedAt) {
+      return res
+        .status(403)
+        .json(new ApiError(403, "This account has been deactivated. Please contact support."));
+    }
+
+    const block = getLoginBlock(user);
+    if (block) {
+      return sendLoginBlocked(res, block);
+    }
+
+    const match = await bcrypt.compare(password, user.password);
+    if (!match) {
+      const lockout = await registerFailedLogin(user);
+      if (lockout) {
+        return sendLoginBlocked(res, lockout);
+      }
+      return res
+        .status(401)
+        .json(new ApiError(401, "Invalid username or password"));
+    }
+
+    // Check if email is verified
+    if (!user.isEmailVerified) {
+      return res
+        .status(403)
+        .json(new ApiError(
+          403, 
+          "Please verify your email before logging in. Check your inbox for verification link."
+        ));
+    }
+
+    // Second step: enrolled users must present a TOTP code before any session is issued
+    if (user.twoFactorEnabled) {
+      return res.status(200).json(
+        new ApiResponse(
+          200,
+          {
+            twoFactorRequired: true,
+            challengeToken: generateTwoFactorChallengeToken(user.id, user.tokenVersion, "2fa_login"),
+          },
+          "Two-factor authentication code required",
+        ),
+      );
+    }
+
+    // Roles where admins made 2FA mandatory must enroll before they can log in
+    if (await isTwoFactorRequiredForRole(user.role)) {
+      return res.status(200).json(
+        new ApiResponse(
+          200,
+          {
+            twoFactorSetupRequired: true,
+            challengeToken: generateTwoFactorChallengeToken(user.id, user.tokenVersion, "2fa_setup"),
+          },
+          "Two-factor authentication must be set up before logging in",
+        ),
+      );
+    }
+
+    return completeLogin(req, res, user);
+  } catch (err) {
+    return res.status(500).json(new ApiError(500, "Internal server error"));
+  }
+};
+
+// Resolves the user behind a 2FA challenge token, rejecting stale challenges
+const resolveChallengeUser = async (
+  challengeToken: unknown,
+  purpose: TwoFactorChallengePurpose
+): Promise<User | null> => {
+  if (!challengeToken || typeof challengeToken !== "string") {
+    return null;
+  }
+
+  const challenge = verifyTwoFactorChallengeToken(challengeToken, purpose);
+  if (!challenge) {
+    return null;
+  }
+
+  const user = await prisma.user.findFirst({
+    where: { id: challenge.userId, deletedAt: null },
+  });
+
+  // A password reset or logout-everywhere bumps tokenVersion and voids pending challenges
+  if (!user || user.tokenVersion !== challenge.tokenVersion) {
+    return null;
+  }
+
+  return user;
+};
+
+// Checks a TOTP code or a recovery code and consumes it so it cannot be replayed
+const consumeSecondFactor = async (
+  user: User,
+  code?: string,
+  recoveryCode?: string
+): Promise<boolean> => {
+  if (code) {
+    if (!user.twoFactorSecret) {
+      return false;
+    }
+
+    const step = verifyTotp(user.twoFactorSecret, code);
+    if (
+      step === null ||
+      (user.twoFactorLastUsedStep !== null && step <= user.twoFactorLastUsedStep)
+    ) {
+      return false;
+    }
+
+    const updated = await prisma.user.updateMany({
+      where: { id: user.id, twoFactorLastUsedStep: user.twoFactorLastUsedStep },
+      data: { twoFactorLastUsedStep: step },
+    });
+    return updated.count > 0;
+  }
+
+  if (recoveryCode) {
+    const codeHash = hashToken(normalizeRecoveryCode(recoveryCode));
+    if (!user.twoFactorRecoveryCodes.includes(codeHash)) {
+      return false;
+    }
+
+    // Only applies to the list as read, so a concurrent login can't reuse the
+    // code or restore one it used
+    const updated = await prisma.user.updateMany({
+      where: { id: user.id, twoFactorRecoveryCodes: { equals: user.twoFactorRecoveryCodes } },
+      data: {
+        twoFactorRecoveryCodes: user.twoFactorRecoveryCodes.filter((hash) => hash !== codeHash),
+      },
+    });
+    return updated.count > 0;
+  }
+
+  return false;
+};
+
+// Second login step: exchange challenge token + TOTP/recovery code for a session
+const verifyTwoFactorLogin = async (req: Request, res: any) => {
+  try {
+    const { challengeToken, code, recoveryCode } = req.body;
+
+    if (!challengeToken || (!code && !recoveryCode)) {
+      return res
+        .status(400)
+        .json(new ApiError(400, "Challenge token and a code or recovery code are required"));
+    }
+
+    const user = await resolveChallengeUser(challengeToken, "2fa_login");
+    if (!user || !user.twoFactorEnabled) {
+      return res
+        .status(401)
+        .json(new ApiError(401, "Login session expired, please log in again"));
+    }
+
+    // Second-factor guesses share the password attempt budget
+    const block = getLoginBlock(user);
+    if (block) {
+      return sendLoginBlocked(res, block);
+    }
+
+    const verified = await consumeSecondFactor(user, code, recoveryCode);
+    if (!verified) {
+      const lockout = await registerFailedLogin(user);
+      if (lockout) {
+        return sendLoginBlocked(res, lockout);
+      }
+      return res
+        .status(401)
+        .json(new ApiError(401, "Invalid two-factor authentication code"));
+    }
+
+    return completeLogin(req, res, user);
+  } catch (err) {
+    console.error(err);
+    return res
+      .status(500)
+      .json(new ApiError(500, "Internal server error", [err]));
+  }
+};
+
+// Enrollment works both for logged-in users and, via a setup challenge, during a forced login
+const resolveTwoFactorEnrollmentUser = async (req: any): Promise<User | null> => {
+  if (req.user?.id) {
+    return prisma.user.findUnique({ where: { id: req.user.id } });
+  }
+  return resolveChallengeUser(req.body?.challengeToken, "2fa_setup");
+};
+
+const setupTwoFactor = async (req: any, res: any) => {
+  try {
+    const user = await resolveTwoFactorEnrollmentUser(req);
+    if (!user) {
+      return res
+        .status(401)
+        .json(new ApiError(401, "Unauthorized request"));
+    }
+
+    if (user.twoFactorEnabled) {
+      return res
+        .status(400)
+        .json(new ApiError(400, "Two-factor authentication is already enabled"));
+    }
+
+    const secret = generateTotpSecret();
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { twoFactorSecret: secret, twoFactorLastUsedStep: null },
+    });
+
+    return res.status(200).json(
+      new ApiResponse(
+        200,
+        {
+          secret,
+          otpauthUri: buildTotpProvisioningUri(secret, user.email),
+        },
+        "Scan the QR code with your authenticator app, then confirm with a code",
+      ),
+    );
+  } catch (err) {
+    console.error(err);
+    return res
+      .status(500)
+      .json(new ApiError(500, "Internal server error", [err]));
+  }
+};
+
+const enableTwoFactor = async (req: any, res: any) => {
+  try {
+    const { code } = req.body;
+
+    if (!code) {
+      return res
+        .status(400)
+        .json(new ApiError(400, "Authentication code is required"));
+    }
+
+    const user = await resolveTwoFactorEnrollmentUser(req);
+    if (!user) {
+      return res
+        .status(401)
+        .json(new ApiError(401, "Unauthorized request"));
+    }
+
+    if (user.twoFactorEnabled) {
+      return res
+        .status(400)
+        .json(new ApiError(400, "Two-factor authentication is already enabled"));
+    }
+
+    if (!user.twoFactorSecret) {
+      return res
+        .status(400)
+        .json(new ApiError(400, "Start two-factor setup before enabling it"));
+    }
+
+    const step = verifyTotp(user.twoFactorSecret, code);
+    if (step === null) {
+      return res
+        .status(400)
+        .json(new ApiError(400, "Invalid two-factor authentication code"));
+    }
+
+    // Recovery codes are shown once; only their hashes are stored
+    const recoveryCodes = generateRecoveryCodes();
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: {
+        twoFactorEnabled: true,
+        twoFactorLastUsedStep: step,
+        twoFactorRecoveryCodes: recoveryCodes.map((recovery) => hashToken(recovery)),
+      },
+    });
+
+    // Enrollment forced during login finishes the login
+    if (!req.user) {
+      return completeLogin(req, res, user, { recoveryCodes });
+    }
+
+    return res
+      .status(200)
+      .json(new ApiResponse(200, { recoveryCodes }, "Two-factor authentication enabled"));
+  } catch (err) {
+    console.error(err);
+    return res
+      .status(500)
+      .json(new ApiError(500, "Internal server error", [err]));
+  }
+};
+
+const disableTwoFactor = async (req: any, res: any) => {
+  try {
+    const { password, code, recoveryCode } = req.body;
+
+    if (!password || (!code && !recoveryCode)) {
+      return res
+        .status(400)
+        .json(new ApiError(400, "Password and a code or recovery code are required"));
+    }
+
+    const user = await prisma.user.findUnique({ where: { id: req.user.id } });
+    if (!user || !user.twoFactorEnabled) {
+      return res
+        .status(400)
+        .json(new ApiError(400, "Two-factor authentication is not enabled"));
+    }
+
+    if (await isTwoFactorRequiredForRole(user.role)) {
+      return res
+        .status(403)
+        .json(new ApiError(403, "Two-factor authentication is mandatory for your role"));
+    }
+
+    const match = await bcrypt.compare(password, user.password);
+    if (!match || !(await consumeSecondFactor(user, code, recoveryCode))) {
+      return res
+        .status(401)
+        .json(new ApiError(401, "Invalid password or authentication code"));
+    }
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: {
+        twoFactorEnabled: false,
+        twoFactorSecret: null,
+        twoFactorRecoveryCodes: [],
+        twoFactorLastUsedStep: null,
+      },
+    });
+
+    return res
+      .status(200)
+      .json(new ApiResponse(200, {}, "Two-factor authentication disabled"));
+  } catch (err) {
+    console.error(err);
+    return res
+      .status(500)
+      .json(new ApiError(500, "Internal server error", [err]));
+  }
+};
+
+const regenerateRecoveryCodes = async (req: any, res: any) => {
+  try {
+    const { code } = req.body;
+
+    if (!code) {
+      return res
+        .status(400)
+        .json(new ApiError(400, "Authentication code is required"));
+    }
+
+    const user = await prisma.user.findUnique({ where: { id: req.user.id } });
+    if (!user || !user.twoFactorEnabled) {
+      return res
+        .status(400)
+        .json(new ApiError(400, "Two-factor authentication is not enabled"));
+    }
+
+    if (!(await consumeSecondFactor(user, code))) {
+      return res
+        .status(401)
+        .json(new ApiError(401, "Invalid two-factor authentication code"));
+    }
+
+    const recoveryCodes = generateRecoveryCodes();
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: {
+        twoFactorRecoveryCodes: recoveryCodes.map((recovery) => hashToken(recovery)),
+      },
+    });
+
+    return res
+      .status(200)
+      .json(new ApiResponse(200, { recoveryCodes }, "Recovery codes regenerated"));
+  } catch (err) {
+    console.error(err);
+    return res
+      .status(500)
+      .json(new ApiError(500, "Internal server error", [err]));
+  }
+};
+
+const logout = async (req: any, res: any) => {
+  try {
+    const { id, sessionId } = (req as any).user;
+
+    // Revoke only the current device's session; other devices stay logged in
+    await prisma.session.updateMany({
+      where: { id: sessionId, userId: id, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+
+    const options = {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === "production",
+      sameSite: "lax" as const, // Added SameSite policy
+    };
+
+    return res
+      .status(200)
+      .clearCookie("accessToken", options)
+      .clearCookie("refreshToken", options)
+      .json(new ApiResponse(200, "Logout successfully"));
+  } catch (err) {
+    return res.status(500).json(new ApiError(500, "internal server error"));
+  }
+};
+
+const refreshAccessToken = async (req: any, res: any) => {
+  try {
+    const incomingRefreshToken =
+      req.cookies?.refreshToken || req.body?.refreshToken;
+
+    if (!incomingRefreshToken) {
+      return res
+        .status(401)
+        .json(new ApiError(401, "Refresh token is required"));
+    }
+
+    // Verify the refresh token
+    let decoded: any;
+    try {
+      decoded = jwt.verify(
+        incomingRefreshToken,
+        process.env.REFRESH_TOKEN_SECRET as string
       );
     } catch {
       return res
@@ -590,39 +1530,69 @@ const refreshAccessToken = async (req: any, res: any) => {
       !decoded ||
       typeof decoded !== "object" ||
       typeof decoded.userId !== "string" ||
-      typeof decoded.tokenVersion !== "number"
+      typeof decoded.tokenVersion !== "number" ||
+      typeof decoded.sessionId !== "string"
     ) {
       return res
         .status(401)
         .json(new ApiError(401, "Invalid token payload"));
     }
 
-    // Find the user and validate token version
-    const user = await prisma.user.findUnique({
-      where: { id: decoded.userId },
-      select: { id: true, refreshToken: true, tokenVersion: true },
+    const session = await prisma.session.findUnique({
+      where: { id: decoded.sessionId },
+      include: {
+        user: { select: { id: true, tokenVersion: true, deletedAt: true } },
+      },
     });
 
-    if (!user) {
-      return res.status(401).json(new ApiError(401, "User not found"));
-    }
-
-    // Check if the stored refresh token matches the incoming one
-    if (user.refreshToken !== incomingRefreshToken) {
+    if (
+      !session ||
+      session.userId !== decoded.userId ||
+      session.revokedAt ||
+      session.expiresAt <= new Date() ||
+      session.user.deletedAt
+    ) {
       return res
         .status(401)
         .json(new ApiError(401, "Refresh token has been revoked"));
     }
 
-    // Check if the token version matches — prevents reuse of old tokens
-    if (decoded.tokenVersion !== user.tokenVersion) {
+    // Check if the token version matches — rejects tokens issued before a logout-everywhere
+    if (decoded.tokenVersion !== session.user.tokenVersion) {
       return res
         .status(401)
         .json(new ApiError(401, "Token version mismatch, please login again"));
     }
 
-    // Rotate: generate new tokens with incremented version
-    const { accessToken, refreshToken } = await generateToken(user.id);
+    // A valid but already-rotated token means it was copied: kill the whole session
+    if (!tokenMatchesHash(incomingRefreshToken, session.refreshTokenHash)) {
+      await prisma.session.update({
+        where: { id: session.id },
+        data: { revokedAt: new Date() },
+      });
+      return res
+        .status(401)
+        .json(new ApiError(401, "Refresh token has been revoked"));
+    }
+
+    // Rotate this session's tokens; the conditional update loses cleanly to a concurrent refresh
+    const { accessToken, refreshToken, refreshTokenHash, expiresAt } =
+      signSessionTokens(session.userId, session.user.tokenVersion, session.id);
+
+    const rotated = await prisma.session.updateMany({
+      where: {
+        id: session.id,
+        refreshTokenHash: session.refreshTokenHash,
+        revokedAt: null,
+      },
+      data: { refreshTokenHash, expiresAt, ...getSessionMetadata(req) },
+    });
+
+    if (rotated.count === 0) {
+      return res
+        .status(401)
+        .json(new ApiError(401, "Refresh token has been revoked"));
+    }
 
     const options = {
       httpOnly: true,
@@ -648,6 +1618,95 @@ const refreshAccessToken = async (req: any, res: any) => {
   }
 };
 
+// Sessions API
+const listSessions = async (req: any, res: Response) => {
+  try {
+    const { id: userId, sessionId } = (req as any).user;
+
+    const sessions = await prisma.session.findMany({
+      where: {
+        userId,
+        revokedAt: null,
+        expiresAt: { gt: new Date() },
+      },
+      select: {
+        id: true,
+        userAgent: true,
+        ipAddress: true,
+        createdAt: true,
+        lastSeenAt: true,
+        expiresAt: true,
+      },
+      orderBy: { lastSeenAt: "desc" },
+    });
+
+    res.status(200).json(
+      new ApiResponse(
+        200,
+        sessions.map((session) => ({
+          ...session,
+          isCurrent: session.id === sessionId,
+        })),
+        "Active sessions fetched successfully",
+      ),
+    );
+  } catch (error) {
+    console.error("Error fetching sessions:", error);
+    res.status(500).json(new ApiError(500, "Internal server error", [error]));
+  }
+};
+
+const revokeSession = async (req: any, res: Response) => {
+  try {
+    const userId = (req as any).user?.id;
+    const { sessionId } = req.params;
+
+    if (!sessionId || !isValidUUID(sessionId)) {
+      res.status(400).json(new ApiError(400, "Valid session ID is required"));
+      return;
+    }
+
+    const revoked = await prisma.session.updateMany({
+      where: { id: sessionId, userId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+
+    if (revoked.count === 0) {
+      res.status(404).json(new ApiError(404, "Session not found"));
+      return;
+    }
+
+    res.status(200).json(new ApiResponse(200, {}, "Session revoked successfully"));
+  } catch (error) {
+    console.error("Error revoking session:", error);
+    res.status(500).json(new ApiError(500, "Internal server error", [error]));
+  }
+};
+
+// Revoke every session (or every other session with ?keepCurrent=true)
+const revokeAllSessions = async (req: any, res: Response) => {
+  try {
+    const { id: userId, sessionId } = (req as any).user;
+    const keepCurrent = req.query.keepCurrent === "true";
+
+    const revoked = await prisma.session.updateMany({
+      where: {
+        userId,
+        revokedAt: null,
+        ...(keepCurrent ? { id: { not: sessionId } } : {}),
+      },
+      data: { revokedAt: new Date() },
+    });
+
+    res
+      .status(200)
+      .json(new ApiResponse(200, { revoked: revoked.count }, "Sessions revoked successfully"));
+  } catch (error) {
+    console.error("Error revoking sessions:", error);
+    res.status(500).json(new ApiError(500, "Internal server error", [error]));
+  }
+};
+
 const doctorProfile = async (req: Request, res: Response) => {
   try {
     const { id } = (req as any).params;
@@ -712,12 +1771,20 @@ const userProfile = async (req: Request, res: Response) => {
 const updatePatientProfile = async (req: any, res: Response) => {
   try {
     const id = (req as any).user?.id;
-    const { name } = req.body;
+    const { name, timeZone } = req.body;
     const imageUrl = req.file?.path;
 
-    const dataToUpdate: { name?: string; profilePicture?: string } = {};
+    if (timeZone !== undefined && !isValidTimeZone(timeZone)) {
+      res
+        .status(400)
+        .json(new ApiError(400, "timeZone must be a valid IANA time zone, e.g. Asia/Kolkata"));
+      return;
+    }
+
+    const dataToUpdate: { name?: string; profilePicture?: string; timeZone?: string } = {};
     if (name) dataToUpdate.name = name;
     if (imageUrl) dataToUpdate.profilePicture = imageUrl;
+    if (timeZone) dataToUpdate.timeZone = timeZone;
 
     const user = await prisma.user.update({
       where: { id },
@@ -727,6 +1794,7 @@ const updatePatientProfile = async (req: any, res: Response) => {
         email: true,
         profilePicture: true,
         role: true,
+        timeZone: true,
         // refreshToken: true,
         createdAt: true,
       },
@@ -744,9 +1812,16 @@ const updatePatientProfile = async (req: any, res: Response) => {
 const updateDoctorProfile = async (req: any, res: Response) => {
   try {
     let id = (req as any).user?.doctor?.id;
-    const { specialty, clinicLocation, experience, bio, name, education, languages } = req.body;
+    const { specialty, clinicLocation, experience, bio, name, education, languages, timeZone } = req.body;
     const imageUrl = req.file?.path;
 
+    if (timeZone !== undefined && !isValidTimeZone(timeZone)) {
+      res
+        .status(400)
+        .json(new ApiError(400, "timeZone must be a valid IANA time zone, e.g. Asia/Kolkata"));
+      return;
+    }
+
     const doctorData: {
       specialty?: string;
       clinicLocation?: string;
@@ -767,9 +1842,11 @@ const updateDoctorProfile = async (req: any, res: Response) => {
       data: doctorData,
     });
 
-    const userData: { name?: string; profilePicture?: string } = {};
+    // Doctors' availability rules follow their time zone
+    const userData: { name?: string; profilePicture?: string; timeZone?: string } = {};
     if (name) userData.name = name;
     if (imageUrl) userData.profilePicture = imageUrl;
+    if (timeZone) userData.timeZone = timeZone;
 
     id = doctor.userId;
     const user = await prisma.user.update({
@@ -780,6 +1857,7 @@ const updateDoctorProfile = async (req: any, res: Response) => {
         email: true,
         profilePicture: true,
         role: true,
+        timeZone: true,
         // refreshToken: true,
         createdAt: true,
         doctor: true,
@@ -817,6 +1895,9 @@ const getAuthenticatedUserProfile = async (
         email: true,
         role: true,
         profilePicture: true,
+        twoFactorEnabled: true,
+        pendingEmail: true,
+        timeZone: true,
         createdAt: true,
       },
     });
@@ -1148,4 +2229,19 @@ export {
   leaveCommunity,
   verifyEmail,
   resendVerificationEmail,
+  forgotPassword,
+  resetPassword,
+  verifyTwoFactorLogin,
+  setupTwoFactor,
+  enableTwoFactor,
+  disableTwoFactor,
+  regenerateRecoveryCodes,
+  listSessions,
+  revokeSession,
+  revokeAllSessions,
+  getDoctorInvite,
+  acceptDoctorInvite,
+  requestEmailChange,
+  confirmEmailChange,
+  cancelEmailChange,
 };
@@ -0,0 +1,331 @@
+import { Request, Response } from "express";
+import {
+  AppointmentStatus,
+  DoctorVerificationStatus,
+  Prisma,
+  TimeSlotStatus,
+  WaitlistStatus,
+} from "@prisma/client";
+import { ApiError } from "../utils/ApiError";
+import { ApiResponse } from "../utils/ApiResponse";
+import prisma from "../utils/prismClient";
+import { getActorUserId, isValidUUID } from "../utils/helper";
+import { bookingHistoryEntry } from "../utils/appointmentStateMachine";
+import { calendarDateInZone, parseCalendarDate } from "../utils/timezone";
+import { appointmentTimeFields } from "../utils/scheduling";
+import { openOfferWhere, releaseWaitlistOffer } from "../utils/waitlist";
+import { assertPatientMayBook } from "../utils/noShows";
+import { assertSchedulingPolicy } from "../utils/schedulingPolicy";
+
+const ACTIVE_ENTRY_STATUSES: WaitlistStatus[] = [
+  WaitlistStatus.WAITING,
+  WaitlistStatus.OFFERED,
+];
+
+// Join a doctor's waitlist, optionally only for dates between earliestDate and
+// latestDate (YYYY-MM-DD, in the doctor's time zone)
+const joinWaitlist = async (req: Request, res: Response): Promise<void> => {
+  const patientId = (req as any).user?.patient?.id;
+  const { doctorId, earliestDate, latestDate, notes } = req.body;
+
+  try {
+    if (!doctorId || !isValidUUID(doctorId)) {
+      res.status(400).json(new ApiError(400, "Invalid Doctor ID"));
+      return;
+    }
+
+    const earliest = earliestDate != null ? parseCalendarDate(earliestDate) : null;
+    const latest = latestDate != null ? parseCalendarDate(latestDate) : null;
+    if ((earliestDate != null && !earliest) || (latestDate != null && !latest)) {
+      res.status(400).json(new ApiError(400, "earliestDate and latestDate must be in YYYY-MM-DD format"));
+      return;
+    }
+    if (earliest && latest && latest < earliest) {
+      res.status(400).json(new ApiError(400, "latestDate must not be before earliestDate"));
+      return;
+    }
+
+    const doctor = await prisma.doctor.findUnique({
+      where: { id: doctorId },
+      select: { id: true, verificationStatus: true, user: { select: { timeZone: true } } },
+    });
+    if (!doctor || doctor.verificationStatus !== DoctorVerificationStatus.APPROVED) {
+      res.status(404).json(new ApiError(404, "Doctor not found"));
+      return;
+    }
+
+    if (latest && latest < calendarDateInZone(new Date(), doctor.user.timeZone)) {
+      res.status(400).json(new ApiError(400, "latestDate must not be in the past"));
+      return;
+    }
+
+    // Offers could never be claimed, so don't queue a restricted patient
+    await assertPatientMayBook(prisma, patientId);
+
+    const existing = await prisma.waitlistEntry.findFirst({
+      where: { doctorId, patientId, status: { in: ACTIVE_ENTRY_STATUSES } },
+      select: { id: true },
+    });
+    if (existing) {
+      res
+        .status(409)
+        .json(new ApiError(409, "You are already on this doctor's waitlist", [{ entryId: existing.id }]));
+      return;
+    }
+
+    const entry = await prisma.waitlistEntry.create({
+      data: {
+        doctorId,
+        patientId,
+        earliestDate: earliest,
+        latestDate: latest,
+        notes: typeof notes === "string" ? notes.trim() || null : null,
+      },
+    });
+
+    res.status(201).json(new ApiResponse(201, entry, "Added to the waitlist"));
+  } catch (error) {
+    if (error instanceof ApiError) {
+      res.status(error.statusCode).json(error);
+      return;
+    }
+    res.status(500).json(new ApiError(500, "Failed to join waitlist", [error]));
+  }
+};
+
+// The patient's active waitlist entries with any slot currently held for them
+const getMyWaitlist = async (req: Request, res: Response): Promise<void> => {
+  const patientId = (req as any).user?.patient?.id;
+
+  try {
+    const entries = await prisma.waitlistEntry.findMany({
+      where: { patientId, status: { in: ACTIVE_ENTRY_STATUSES } },
+      include: {
+        doctor: {
+          select: {
+            id: true,
+            specialty: true,
+            clinicLocation: true,
+            user: { select: { name: true, profilePicture: true } },
+          },
+        },
+        offers: {
+          where: openOfferWhere(),
+          include: { timeSlot: { select: { id: true, startTime: true, endTime: true } } },
+        },
+      },
+      orderBy: { createdAt: "asc" },
+    });
+
+    res.status(200).json(new ApiResponse(200, entries, "Waitlist fetched successfully"));
+  } catch (error) {
+    res.status(500).json(new ApiError(500, "Failed to fetch waitlist", [error]));
+  }
+};
+
+// Leave a waitlist. A slot currently held for the patient goes to the next in line.
+const leaveWaitlist = async (req: Request, res: Response): Promise<void> => {
+  const patientId = (req as any).user?.patient?.id;
+  const entryId = req.params.entryId as string;
+
+  try {
+    if (!isValidUUID(entryId)) {
+      res.status(400).json(new ApiError(400, "Invalid waitlist entry ID"));
+      return;
+    }
+
+    const entry = await prisma.waitlistEntry.findFirst({
+      where: { id: entryId, patientId, status: { in: ACTIVE_ENTRY_STATUSES } },
+      include: { offers: { where: openOfferWhere(), select: { id: true } } },
+    });
+    if (!entry) {
+      res.status(404).json(new ApiError(404, "Waitlist entry not found"));
+      return;
+    }
+
+    await prisma.waitlistEntry.update({
+      where: { id: entry.id },
+      data: { status: WaitlistStatus.CANCELLED },
+    });
+    for (const offer of entry.offers) {
+      await releaseWaitlistOffer(offer.id, "declined");
+    }
+
+    res.status(200).json(new ApiResponse(200, null, "Removed from the waitlist"));
+  } catch (error) {
+    res.status(500).json(new ApiError(500, "Failed to leave waitlist", [error]));
+  }
+};
+
+const findPatientOffer = (offerId: string, patientId: string) => {
+  return prisma.waitlistOffer.findFirst({
+    where: { id: offerId, entry: { patientId } },
+    include: {
+      entry: true,
+      timeSlot: { include: { doctor: { select: { user: { select: { name: true, timeZone: true } } } } } },
+    },
+  });
+};
+
+// Book the slot held by a waitlist offer
+const claimWaitlistOffer = async (req: Request, res: Response): Promise<void> => {
+  const patientId = (req as any).user?.patient?.id;
+  const offerId = req.params.offerId as string;
+
+  try {
+    if (!isValidUUID(offerId)) {
+      res.status(400).json(new ApiError(400, "Invalid offer ID"));
+      return;
+    }
+
+    const offer = await findPatientOffer(offerId, patientId);
+    if (!offer) {
+      res.status(404).json(new ApiError(404, "Offer not found"));
+      return;
+    }
+    if (offer.claimedAt) {
+      res.status(409).json(new ApiError(409, "This offer has already been claimed"));
+      return;
+    }
+
+    const now = new Date();
+    const appointment = await prisma.$transaction(async (tx) => {
+      await assertPatientMayBook(tx, patientId, now);
+
+      const claimed = await tx.waitlistOffer.updateMany({
+        where: { id: offer.id, ...openOfferWhere(now) },
+        data: { claimedAt: now },
+      });
+      if (claimed.count === 0) {
+        throw new ApiError(410, "This offer has expired");
+      }
+
+      const booked = await tx.timeSlot.updateMany({
+        where: { id: offer.timeSlotId, status: TimeSlotStatus.AVAILABLE },
+        data: { status: TimeSlotStatus.BOOKED },
+      });
+      if (booked.count === 0) {
+        throw new ApiError(410, "This time slot is no longer available");
+      }
+
+      await assertSchedulingPolicy(
+        tx,
+        offer.timeSlot.doctorId,
+        offer.timeSlot.startTime,
+        offer.timeSlot.endTime,
+        offer.timeSlot.doctor.user.timeZone,
+        { now }
+      );
+
+      const existingAppointment = await tx.appointment.findFirst({
+        where: {
+          patientId,
+          status: { in: [AppointmentStatus.PENDING, AppointmentStatus.CONFIRMED] },
+          timeSlot: {
+            startTime: { lt: offer.timeSlot.endTime },
+            endTime: { gt: offer.timeSlot.startTime },
+          },
+        },
+        select: { id: true },
+      });
+      if (existingAppointment) {
+        throw new ApiError(400, "You have already appointment in this time");
+      }
+
+      await tx.waitlistEntry.update({
+        where: { id: offer.entryId },
+        data: { status: WaitlistStatus.BOOKED },
+      });
+
+      return tx.appointment.create({
+        data: {
+          patientId,
+          doctorId: offer.timeSlot.doctorId,
+          timeSlotId: offer.timeSlotId,
+          ...appointmentTimeFields(offer.timeSlot.startTime, offer.timeSlot.doctor.user.timeZone),
+          consultationFee: offer.timeSlot.consultationFee,
+          status: AppointmentStatus.PENDING,
+          notes: offer.entry.notes,
+          statusHistory: bookingHistoryEntry(getActorUserId(req)),
+        },
+      });
+    });
+
+    res.status(201).json(new ApiResponse(201, appointment, "Appointment request sent successfully"));
+  } catch (error) {
+    if (error instanceof ApiError) {
+      res.status(error.statusCode).json(error);
+      return;
+    }
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+      res.status(409).json(new ApiError(409, "The doctor already has an appointment at this time"));
+      return;
+    }
+    res.status(500).json(new ApiError(500, "Failed to claim offer", [error]));
+  }
+};
+
+// Pass on a held slot while staying on the waitlist
+const declineWaitlistOffer = async (req: Request, res: Response): Promise<void> => {
+  const patientId = (req as any).user?.patient?.id;
+  const offerId = req.params.offerId as string;
+
+  try {
+    if (!isValidUUID(offerId)) {
+      res.status(400).json(new ApiError(400, "Invalid offer ID"));
+      return;
+    }
+
+    const offer = await findPatientOffer(offerId, patientId);
+    if (!offer) {
+      res.status(404).json(new ApiError(404, "Offer not found"));
+      return;
+    }
+
+    if (!(await releaseWaitlistOffer(offer.id, "declined"))) {
+      res.status(409).json(new ApiError(409, "This offer is no longer open"));
+      return;
+    }
+
+    res.status(200).json(new ApiResponse(200, null, "Offer declined. You are still on the waitlist"));
+  } catch (error) {
+    res.status(500).json(new ApiError(500, "Failed to decline offer", [error]));
+  }
+};
+
+// The doctor's queue, longest waiting first
+const getDoctorWaitlist = async (req: Request, res: Response): Promise<void> => {
+  const doctorId = (req as any).user?.doctor?.id;
+
+  try {
+    const entries = await prisma.waitlistEntry.findMany({
+      where: { doctorId, status: { in: ACTIVE_ENTRY_STATUSES } },
+      include: {
+        patient: {
+          select: {
+            id: true,
+            user: { select: { name: true, profilePicture: true } },
+          },
+        },
+        offers: {
+          where: openOfferWhere(),
+          select: { id: true, timeSlotId: true, expiresAt: true },
+        },
+      },
+      orderBy: { createdAt: "asc" },
+    });
+
+    res.status(200).json(new ApiResponse(200, entries, "Waitlist fetched successfully"));
+  } catch (error) {
+    res.status(500).json(new ApiError(500, "Failed to fetch waitlist", [error]));
+  }
+};
+
+export {
+  joinWaitlist,
+  getMyWaitlist,
+  leaveWaitlist,
+  claimWaitlistOffer,
+  declineWaitlistOffer,
+  getDoctorWaitlist,
+};
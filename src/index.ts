@@ -8,6 +8,7 @@ import http from "http";
 import { handleRoomSocket } from "./chat/roomManager";
 import { handleDmSocket } from "./chat/dmManager";
 import { globalRateLimiter } from "./middlewares/rateLimit";
+import { startScheduledJobs } from "./jobs";
 
 dotenv.config();
 
@@ -22,6 +23,9 @@ app.use(
   })
 );
 app.use(globalRateLimiter); // Global rate limiting
+// Payment webhooks are verified against the exact bytes the provider sent, so
+// that route gets the raw body (express.json skips bodies already read)
+app.use("/api/payments/webhook", express.raw({ type: "*/*" }));
 app.use(express.json());
 app.use(cookieParser());
 
@@ -99,4 +103,7 @@ process.on("uncaughtException", (error) => {
 });
 
 const PORT = process.env.PORT || 3000;
-httpServer.listen(PORT, () => console.log(`Server running on port ${PORT}`));
+httpServer.listen(PORT, () => {
+  console.log(`Server running on port ${PORT}`);
+  startScheduledJobs();
+});
@@ -0,0 +1,51 @@
+import { AppointmentStatus } from "@prisma/client";
+import prisma from "../utils/prismClient";
+import { formatDateTimeInZone } from "../utils/timezone";
+
+// How long after its start a CONFIRMED appointment may stay unresolved before
+// the doctor is asked whether it took place
+export const APPOINTMENT_OUTCOME_GRACE_MINUTES =
+  Number(process.env.APPOINTMENT_OUTCOME_GRACE_MINUTES) || 120;
+
+/**
+ * Flags CONFIRMED appointments whose time is long past and asks the doctor to
+ * mark each one completed or a no-show. Nothing is marked automatically: a
+ * missed visit and a doctor who forgot to close it look the same from here.
+ */
+export const requestAppointmentOutcomes = async (now: Date = new Date()): Promise<number> => {
+  const stale = await prisma.appointment.findMany({
+    where: {
+      status: AppointmentStatus.CONFIRMED,
+      outcomeRequestedAt: null,
+      scheduledAt: { lte: new Date(now.getTime() - APPOINTMENT_OUTCOME_GRACE_MINUTES * 60 * 1000) },
+    },
+    include: {
+      patient: { select: { user: { select: { name: true } } } },
+      doctor: { select: { user: { select: { id: true, timeZone: true } } } },
+    },
+    orderBy: { scheduledAt: "asc" },
+  });
+
+  let flagged = 0;
+  for (const appointment of stale) {
+    const claimed = await prisma.appointment.updateMany({
+      where: { id: appointment.id, status: AppointmentStatus.CONFIRMED, outcomeRequestedAt: null },
+      data: { outcomeRequestedAt: now },
+    });
+    if (claimed.count === 0) continue;
+
+    const doctorUser = appointment.doctor.user;
+    await prisma.notification.create({
+      data: {
+        userId: doctorUser.id,
+        type: "APPOINTMENT_OUTCOME_REQUIRED",
+        title: "Did This Appointment Take Place?",
+        message: `Please mark your appointment with ${appointment.patient.user.name} on ${formatDateTimeInZone(appointment.scheduledAt, doctorUser.timeZone)} as completed or as a no-show.`,
+        appointmentId: appointment.id,
+      },
+    });
+    flagged++;
+  }
+
+  return flagged;
+};
@@ -0,0 +1,91 @@
+import { AppointmentStatus, Prisma } from "@prisma/client";
+import prisma from "../utils/prismClient";
+import { sendEmail, appointmentReminderTemplate } from "../utils/emailService";
+import { formatDateInZone, formatTimeInZone } from "../utils/timezone";
+
+// Minutes before a CONFIRMED appointment to remind the patient, e.g. "1440,60"
+// for a day and an hour ahead
+export const REMINDER_OFFSETS_MINUTES = (process.env.REMINDER_OFFSETS_MINUTES || "1440,60")
+  .split(",")
+  .map((value) => Number(value.trim()))
+  .filter((value) => Number.isInteger(value) && value > 0)
+  .sort((a, b) => a - b);
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Sends the reminders that are due. Each offset covers appointments starting
+ * between the next smaller offset and itself, so an appointment booked an hour
+ * ahead gets the 1h reminder but not a late 24h one. The reminder row is
+ * inserted before anything is sent; its unique key makes a second run, or a
+ * second server, skip the reminder. Cancelled appointments drop out through the
+ * status filter, and moved ones are only reminded about their current time.
+ */
+export const sendAppointmentReminders = async (now: Date = new Date()): Promise<number> => {
+  let sent = 0;
+
+  for (const [index, offsetMinutes] of REMINDER_OFFSETS_MINUTES.entries()) {
+    const smallerOffset = index > 0 ? REMINDER_OFFSETS_MINUTES[index - 1] : 0;
+    const due = await prisma.appointment.findMany({
+      where: {
+        status: AppointmentStatus.CONFIRMED,
+        scheduledAt: {
+          gt: new Date(now.getTime() + smallerOffset * MINUTE_MS),
+          lte: new Date(now.getTime() + offsetMinutes * MINUTE_MS),
+        },
+      },
+      include: {
+        reminders: { where: { offsetMinutes }, select: { scheduledAt: true } },
+        patient: { select: { user: { select: { id: true, email: true, timeZone: true } } } },
+        doctor: { select: { user: { select: { name: true } } } },
+      },
+    });
+
+    for (const appointment of due) {
+      const alreadySent = appointment.reminders.some(
+        (reminder) => reminder.scheduledAt.getTime() === appointment.scheduledAt.getTime()
+      );
+      if (alreadySent) continue;
+
+      try {
+        await prisma.appointmentReminder.create({
+          data: {
+            appointmentId: appointment.id,
+            offsetMinutes,
+            scheduledAt: appointment.scheduledAt,
+          },
+        });
+      } catch (error) {
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+          continue;
+        }
+        throw error;
+      }
+
+      const { id: userId, email, timeZone } = appointment.patient.user;
+      const date = formatDateInZone(appointment.scheduledAt, timeZone);
+      const time = formatTimeInZone(appointment.scheduledAt, timeZone);
+      const doctorName = appointment.doctor.user.name;
+
+      await prisma.notification.create({
+        data: {
+          userId,
+          type: "APPOINTMENT_REMINDER",
+          title: "Upcoming Appointment",
+          message: `Reminder: your appointment with Dr. ${doctorName} is on ${date} at ${time}.`,
+          appointmentId: appointment.id,
+        },
+      });
+
+      sendEmail({
+        to: email,
+        subject: "Appointment Reminder",
+        html: appointmentReminderTemplate(doctorName, date, time),
+      }).catch((err) => console.error("Failed to send appointment reminder email:", err));
+
+      sent++;
+    }
+  }
+
+  return sent;
+};
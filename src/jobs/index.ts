@@ -0,0 +1,42 @@
+import { expireLapsedLicenses } from "./licenseExpiry";
+import { expireWaitlistOffers } from "./waitlistOffers";
+import { releaseExpiredSlotHolds } from "./slotHolds";
+import { sendAppointmentReminders } from "./appointmentReminders";
+import { requestAppointmentOutcomes } from "./appointmentOutcomes";
+
+type ScheduledJob = {
+  name: string;
+  intervalMs: number;
+  run: () => Promise<unknown>;
+};
+
+const jobs: ScheduledJob[] = [
+  { name: "license-expiry", intervalMs: 60 * 60 * 1000, run: expireLapsedLicenses },
+  { name: "waitlist-offer-expiry", intervalMs: 60 * 1000, run: expireWaitlistOffers },
+  { name: "slot-hold-expiry", intervalMs: 60 * 1000, run: releaseExpiredSlotHolds },
+  { name: "appointment-reminders", intervalMs: 60 * 1000, run: sendAppointmentReminders },
+  { name: "appointment-outcomes", intervalMs: 15 * 60 * 1000, run: requestAppointmentOutcomes },
+];
+
+// Runs each job once at startup and then on its interval. A run is skipped if
+// the previous one is still going, and failures are logged rather than thrown.
+export const startScheduledJobs = () => {
+  for (const job of jobs) {
+    let running = false;
+
+    const tick = async () => {
+      if (running) return;
+      running = true;
+      try {
+        await job.run();
+      } catch (error) {
+        console.error(`Scheduled job ${job.name} failed:`, error);
+      } finally {
+        running = false;
+      }
+    };
+
+    tick();
+    setInterval(tick, job.intervalMs).unref();
+  }
+};
@@ -0,0 +1,51 @@
+import { DoctorVerificationStatus } from "@prisma/client";
+import prisma from "../utils/prismClient";
+import { sendDoctorVerificationEmail } from "../utils/emailService";
+
+/**
+ * Moves approved doctors whose license has lapsed, or who have no expiry on
+ * record, to EXPIRED and tells them. searchDoctors already hides them by date;
+ * this keeps the status honest and prompts the doctor to resubmit.
+ */
+export const expireLapsedLicenses = async (now: Date = new Date()): Promise<number> => {
+  const lapsed = await prisma.doctor.findMany({
+    where: {
+      verificationStatus: DoctorVerificationStatus.APPROVED,
+      OR: [{ licenseExpiresAt: { lte: now } }, { licenseExpiresAt: null }],
+    },
+    select: {
+      id: true,
+      user: { select: { name: true, email: true } },
+    },
+  });
+
+  let expired = 0;
+  for (const doctor of lapsed) {
+    const changed = await prisma.$transaction(async (tx) => {
+      const result = await tx.doctor.updateMany({
+        where: { id: doctor.id, verificationStatus: DoctorVerificationStatus.APPROVED },
+        data: { verificationStatus: DoctorVerificationStatus.EXPIRED },
+      });
+      if (result.count === 0) {
+        return false;
+      }
+
+      await tx.doctorVerificationReview.create({
+        data: {
+          doctorId: doctor.id,
+          fromStatus: DoctorVerificationStatus.APPROVED,
+          toStatus: DoctorVerificationStatus.EXPIRED,
+          notes: "License expired",
+        },
+      });
+      return true;
+    });
+
+    if (changed) {
+      expired++;
+      await sendDoctorVerificationEmail(doctor.user.email, doctor.user.name, "EXPIRED");
+    }
+  }
+
+  return expired;
+};
@@ -0,0 +1,15 @@
+import { TimeSlotStatus } from "@prisma/client";
+import prisma from "../utils/prismClient";
+import { clearedHold } from "../utils/slotHolds";
+
+/**
+ * Returns slots whose hold ran out to AVAILABLE. availableTimeSlots hides HELD
+ * slots, so lapsed holds stay hidden until this runs.
+ */
+export const releaseExpiredSlotHolds = async (now: Date = new Date()): Promise<number> => {
+  const { count } = await prisma.timeSlot.updateMany({
+    where: { status: TimeSlotStatus.HELD, holdExpiresAt: { lte: now } },
+    data: { status: TimeSlotStatus.AVAILABLE, ...clearedHold },
+  });
+  return count;
+};
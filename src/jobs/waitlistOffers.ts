@@ -0,0 +1,28 @@
+import prisma from "../utils/prismClient";
+import { releaseWaitlistOffer } from "../utils/waitlist";
+
+/**
+ * Expires waitlist offers nobody claimed in time and passes each slot on to the
+ * next patient in the queue.
+ */
+export const expireWaitlistOffers = async (now: Date = new Date()): Promise<number> => {
+  const lapsed = await prisma.waitlistOffer.findMany({
+    where: {
+      claimedAt: null,
+      declinedAt: null,
+      expiredAt: null,
+      expiresAt: { lte: now },
+    },
+    select: { id: true },
+    orderBy: { expiresAt: "asc" },
+  });
+
+  let expired = 0;
+  for (const offer of lapsed) {
+    if (await releaseWaitlistOffer(offer.id, "expired")) {
+      expired++;
+    }
+  }
+
+  return expired;
+};
@@ -2,6 +2,9 @@ import jwt from "jsonwebtoken";
 import prisma from "../utils/prismClient";
 import { ApiError } from "../utils/ApiError";
 
+// Avoid a write per request: lastSeenAt only needs to be roughly current
+const SESSION_TOUCH_INTERVAL_MS = 5 * 60 * 1000;
+
 export const isAuthenticated = async (req: any, res: any, next: any) => {
   try {
     const token =
@@ -18,6 +21,11 @@ export const isAuthenticated = async (req: any, res: any, next: any) => {
     );
 
     if (typeof decodedToken === "object" && decodedToken !== null) {
+      // Purpose-scoped tokens (e.g. 2FA login challenges) are not access tokens
+      if (decodedToken.purpose !== undefined) {
+        return res.status(401).json(new ApiError(401, "Invalid token"));
+      }
+
       const user = await prisma.user.findFirst({
         where: { id: decodedToken.userId, deletedAt: null },
         select: {
@@ -53,9 +61,37 @@ export const isAuthenticated = async (req: any, res: any, next: any) => {
           .json(new ApiError(401, "Token has been invalidated, please login again"));
       }
 
+      // Access tokens are bound to a device session, which can be revoked on its own
+      const session =
+        typeof decodedToken.sessionId === "string"
+          ? await prisma.session.findUnique({
+              where: { id: decodedToken.sessionId },
+              select: { userId: true, revokedAt: true, expiresAt: true, lastSeenAt: true },
+            })
+          : null;
+
+      if (
+        !session ||
+        session.userId !== user.id ||
+        session.revokedAt ||
+        session.expiresAt <= new Date()
+      ) {
+        return res
+          .status(401)
+          .json(new ApiError(401, "Session has been revoked, please login again"));
+      }
+
+      if (Date.now() - session.lastSeenAt.getTime() > SESSION_TOUCH_INTERVAL_MS) {
+        await prisma.session.update({
+          where: { id: decodedToken.sessionId },
+          data: { lastSeenAt: new Date() },
+        });
+      }
+
       // Attach the user with their role-specific data
       req.user = {
         ...user,
+        sessionId: decodedToken.sessionId,
         patient: user.patient || null,
         doctor: user.doctor || null,
       };
@@ -0,0 +1,78 @@
+import { Role } from "@prisma/client";
+import prisma from "../utils/prismClient";
+import { ApiError } from "../utils/ApiError";
+import { isValidUUID } from "../utils/helper";
+
+/**
+ * Lets the caller manage :clinicId if they are one of its clinic admins, and
+ * records it as req.clinicAdmin. Must run after isAuthenticated.
+ */
+export const clinicAdminAccess = async (req: any, res: any, next: any) => {
+  try {
+    const clinicId = req.params.clinicId as string;
+    if (!isValidUUID(clinicId)) {
+      return res.status(400).json(new ApiError(400, "Invalid clinic ID"));
+    }
+
+    const clinicAdmin = await prisma.clinicAdmin.findUnique({
+      where: { clinicId_userId: { clinicId, userId: req.user?.id } },
+      select: { id: true },
+    });
+    if (!clinicAdmin) {
+      return res.status(403).json(new ApiError(403, "Unauthorized: Clinic admin access required"));
+    }
+
+    req.clinicAdmin = { clinicId, actorUserId: req.user.id };
+    next();
+  } catch (err) {
+    return res.status(500).json(new ApiError(500, "error in clinic access check", [err]));
+  }
+};
+
+/**
+ * Lets a clinic admin manage the schedule of :doctorId, a member of their clinic
+ * who has accepted its invitation.
+ * As with patientAccess for delegates, req.user is replaced by the doctor's
+ * identity so the doctor controllers work unchanged; req.clinicAdmin still says
+ * who is really acting. Must run after clinicAdminAccess.
+ */
+export const actAsClinicDoctor = async (req: any, res: any, next: any) => {
+  try {
+    const doctorId = req.params.doctorId as string;
+    if (!isValidUUID(doctorId)) {
+      return res.status(400).json(new ApiError(400, "Invalid Doctor ID"));
+    }
+
+    const membership = await prisma.clinicMembership.findUnique({
+      where: { clinicId_doctorId: { clinicId: req.clinicAdmin.clinicId, doctorId } },
+      include: {
+        doctor: {
+          select: {
+            id: true,
+            user: { select: { id: true, name: true, email: true, role: true, deletedAt: true } },
+          },
+        },
+      },
+    });
+    if (
+      !membership ||
+      !membership.acceptedAt ||
+      membership.doctor.user.deletedAt ||
+      membership.doctor.user.role !== Role.DOCTOR
+    ) {
+      return res.status(404).json(new ApiError(404, "Doctor is not a member of this clinic"));
+    }
+
+    const { deletedAt, ...doctorUser } = membership.doctor.user;
+    req.user = {
+      ...doctorUser,
+      sessionId: req.user.sessionId,
+      patient: null,
+      doctor: { id: membership.doctor.id },
+    };
+
+    next();
+  } catch (err) {
+    return res.status(500).json(new ApiError(500, "error in clinic doctor access check", [err]));
+  }
+};
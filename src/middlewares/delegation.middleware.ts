@@ -0,0 +1,114 @@
+import { DelegateScope, Role } from "@prisma/client";
+import prisma from "../utils/prismClient";
+import { ApiError } from "../utils/ApiError";
+
+// Header a delegate sends to act on behalf of a patient (value: Patient.id)
+export const ACTING_PATIENT_HEADER = "X-Acting-Patient-Id";
+
+type PatientAccessOptions = {
+  // When false, requests without the header pass through for any role
+  // (e.g. report viewing, which admins may also use)
+  patientOnly?: boolean;
+};
+
+/**
+ * Resolves which patient the request acts on.
+ *
+ * Without the X-Acting-Patient-Id header this behaves like a plain role check.
+ * With it, the caller must hold an active delegation from that patient that
+ * includes `scope`; req.user is then replaced by the patient's identity so the
+ * patient controllers work unchanged, req.delegation records who is really
+ * acting, and the request is written to the delegation audit log. Routes
+ * without a scope are never available to delegates.
+ * Must run after isAuthenticated.
+ */
+export const patientAccess = (
+  scope?: DelegateScope,
+  { patientOnly = true }: PatientAccessOptions = {}
+) => {
+  return async (req: any, res: any, next: any) => {
+    try {
+      const actingPatientId = req.header(ACTING_PATIENT_HEADER);
+
+      if (!actingPatientId) {
+        if (patientOnly && (!req.user || req.user.role !== Role.PATIENT)) {
+          return res
+            .status(403)
+            .json(new ApiError(403, "Unauthorized: Patient access required"));
+        }
+        return next();
+      }
+
+      if (!req.user) {
+        return res.status(401).json(new ApiError(401, "Unauthorized request"));
+      }
+
+      if (!scope) {
+        return res
+          .status(403)
+          .json(new ApiError(403, "This action is not available to delegates"));
+      }
+
+      const delegation = await prisma.patientDelegate.findFirst({
+        where: {
+          patientId: actingPatientId,
+          delegateUserId: req.user.id,
+          revokedAt: null,
+          patient: { user: { deletedAt: null } },
+        },
+        include: {
+          patient: {
+            select: {
+              id: true,
+              user: { select: { id: true, name: true, email: true, role: true } },
+            },
+          },
+        },
+      });
+
+      if (!delegation || !delegation.scopes.includes(scope)) {
+        return res
+          .status(403)
+          .json(new ApiError(403, "You do not have delegated access for this action"));
+      }
+
+      const actorUserId = req.user.id;
+      req.delegation = {
+        id: delegation.id,
+        actorUserId,
+        patientId: delegation.patientId,
+        scopes: delegation.scopes,
+      };
+      req.user = {
+        ...delegation.patient.user,
+        sessionId: req.user.sessionId,
+        patient: { id: delegation.patient.id },
+        doctor: null,
+      };
+
+      // Audit once the outcome is known; a failed write must not affect the response
+      res.on("finish", () => {
+        prisma.delegationAuditLog
+          .create({
+            data: {
+              delegationId: delegation.id,
+              actorUserId,
+              patientId: delegation.patientId,
+              method: req.method,
+              path: req.originalUrl.split("?")[0],
+              statusCode: res.statusCode,
+            },
+          })
+          .catch((error) => {
+            console.error("Failed to write delegation audit log:", error);
+          });
+      });
+
+      next();
+    } catch (err) {
+      return res
+        .status(500)
+        .json(new ApiError(500, "error in delegated access check", [err]));
+    }
+  };
+};
@@ -0,0 +1,72 @@
+import { Role } from "@prisma/client";
+import prisma from "../utils/prismClient";
+import { ApiError } from "../utils/ApiError";
+import { AdminPermission, parseAdminPermissions } from "../utils/permissions";
+
+// Loads the caller's Admin record and attaches it as req.user.admin.
+// Must run after isAuthenticated.
+const loadAdmin = async (req: any) => {
+  if (!req.user || req.user.role !== Role.ADMIN) {
+    return null;
+  }
+
+  const admin = await prisma.admin.findUnique({
+    where: { userId: req.user.id },
+    select: { id: true, isSuperAdmin: true, permissions: true },
+  });
+
+  if (!admin) {
+    return null;
+  }
+
+  req.user.admin = {
+    id: admin.id,
+    isSuperAdmin: admin.isSuperAdmin,
+    permissions: parseAdminPermissions(admin.permissions),
+  };
+  return req.user.admin;
+};
+
+export const requirePermission = (permission: AdminPermission) => {
+  return async (req: any, res: any, next: any) => {
+    try {
+      const admin = await loadAdmin(req);
+
+      if (!admin) {
+        return res
+          .status(403)
+          .json(new ApiError(403, "Unauthorized: Admin access required"));
+      }
+
+      if (!admin.isSuperAdmin && !admin.permissions.includes(permission)) {
+        return res
+          .status(403)
+          .json(new ApiError(403, `Forbidden: missing permission ${permission}`));
+      }
+
+      next();
+    } catch (err) {
+      return res
+        .status(500)
+        .json(new ApiError(500, "error in permission check", [err]));
+    }
+  };
+};
+
+export const isSuperAdmin = async (req: any, res: any, next: any) => {
+  try {
+    const admin = await loadAdmin(req);
+
+    if (!admin || !admin.isSuperAdmin) {
+      return res
+        .status(403)
+        .json(new ApiError(403, "Unauthorized: Super admin access required"));
+    }
+
+    next();
+  } catch (err) {
+    return res
+      .status(500)
+      .json(new ApiError(500, "error in permission check", [err]));
+  }
+};
@@ -21,7 +21,19 @@ const storage2 = new CloudinaryStorage({
     })
 });
 
+const credentialStorage = new CloudinaryStorage({
+    cloudinary,
+    params: async () => ({
+        folder: 'careXpert_doctor_credentials',
+        allowed_formats: ['jpg', 'jpeg', 'png', 'pdf'],
+    })
+});
+
 const upload = multer({ storage });
 const upload2 = multer({storage:storage2});
+const credentialUpload = multer({
+    storage: credentialStorage,
+    limits: { fileSize: 10 * 1024 * 1024 }, // 10 MB
+});
 
-export { upload, upload2 };
\ No newline at end of file
+export { upload, upload2, credentialUpload };
\ No newline at end of file
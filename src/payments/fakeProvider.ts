@@ -0,0 +1,91 @@
+import crypto from "crypto";
+import { ApiError } from "../utils/ApiError";
+import { PaymentEventType, PaymentProvider } from "./provider";
+
+// A local stand-in for a payment gateway, for development and tests. Nothing
+// leaves the process: intents are created on the spot, refunds succeed at once,
+// and payments are completed by posting a signed event to the webhook (see
+// signFakeWebhook and the /payments/fake routes).
+
+export const FAKE_SIGNATURE_HEADER = "x-fake-signature";
+
+// The built-in fallback is public, so production never uses it
+const FAKE_PAYMENT_WEBHOOK_SECRET =
+  process.env.FAKE_PAYMENT_WEBHOOK_SECRET ||
+  (process.env.NODE_ENV === "production" ? "" : "fake-webhook-secret");
+
+const KNOWN_EVENT_TYPES: PaymentEventType[] = [
+  "payment.succeeded",
+  "payment.failed",
+  "refund.succeeded",
+  "refund.failed",
+];
+
+type FakeWebhookBody = {
+  id: string;
+  type: string;
+  data: { intentId?: string; refundId?: string; failureReason?: string };
+};
+
+const sign = (body: string): string => {
+  if (!FAKE_PAYMENT_WEBHOOK_SECRET) {
+    throw new ApiError(500, "FAKE_PAYMENT_WEBHOOK_SECRET is not set");
+  }
+  return crypto.createHmac("sha256", FAKE_PAYMENT_WEBHOOK_SECRET).update(body).digest("hex");
+};
+
+/**
+ * Builds a webhook delivery the fake provider will accept, as the real gateway
+ * would send it.
+ */
+export const signFakeWebhook = (
+  type: string,
+  data: FakeWebhookBody["data"]
+): { body: string; signature: string } => {
+  const body = JSON.stringify({ id: `fake_evt_${crypto.randomUUID()}`, type, data });
+  return { body, signature: sign(body) };
+};
+
+export const fakePaymentProvider: PaymentProvider = {
+  name: "fake",
+
+  async createPaymentIntent() {
+    const id = `fake_pi_${crypto.randomUUID()}`;
+    return { id, clientSecret: `${id}_secret_${crypto.randomBytes(12).toString("hex")}` };
+  },
+
+  async cancelPaymentIntent() {},
+
+  async refund() {
+    return { id: `fake_re_${crypto.randomUUID()}`, status: "succeeded" };
+  },
+
+  parseWebhook(rawBody, headers) {
+    const signature = headers[FAKE_SIGNATURE_HEADER];
+    const expected = Buffer.from(sign(rawBody.toString("utf8")), "hex");
+    const received = Buffer.from(typeof signature === "string" ? signature : "", "hex");
+    if (received.length !== expected.length || !crypto.timingSafeEqual(received, expected)) {
+      throw new ApiError(400, "Invalid webhook signature");
+    }
+
+    let body: FakeWebhookBody;
+    try {
+      body = JSON.parse(rawBody.toString("utf8"));
+    } catch {
+      throw new ApiError(400, "Webhook body is not valid JSON");
+    }
+    if (typeof body?.id !== "string" || typeof body.type !== "string") {
+      throw new ApiError(400, "Webhook event must have an id and a type");
+    }
+
+    return {
+      id: body.id,
+      providerType: body.type,
+      type: KNOWN_EVENT_TYPES.find((type) => type === body.type) ?? null,
+      intentId: body.data?.intentId,
+      refundId: body.data?.refundId,
+      failureReason: body.data?.failureReason,
+      payload: body,
+    };
+  },
+};
@@ -0,0 +1,32 @@
+import { ApiError } from "../utils/ApiError";
+import { fakePaymentProvider } from "./fakeProvider";
+import { PaymentProvider } from "./provider";
+
+export * from "./provider";
+
+// Which gateway charges patients. Only the local fake ships for now; real
+// gateways register here under the name PAYMENT_PROVIDER selects.
+export const PAYMENT_PROVIDER = process.env.PAYMENT_PROVIDER || "fake";
+
+// Currency invoices are raised in
+export const PAYMENT_CURRENCY = process.env.PAYMENT_CURRENCY || "INR";
+
+const providers: Record<string, PaymentProvider> = {
+  [fakePaymentProvider.name]: fakePaymentProvider,
+};
+
+/**
+ * The configured provider. In production the fake one is refused, so a deploy
+ * without PAYMENT_PROVIDER neither takes payments nor accepts webhooks anyone
+ * could sign.
+ */
+export const getPaymentProvider = (): PaymentProvider => {
+  const provider = providers[PAYMENT_PROVIDER];
+  if (!provider) {
+    throw new ApiError(500, `Unknown payment provider "${PAYMENT_PROVIDER}"`);
+  }
+  if (provider === fakePaymentProvider && process.env.NODE_ENV === "production") {
+    throw new ApiError(500, "The fake payment provider can't be used in production; set PAYMENT_PROVIDER");
+  }
+  return provider;
+};
@@ -0,0 +1,362 @@
+import crypto from "crypto";
+import {
+  AppointmentStatus,
+  InvoiceStatus,
+  PaymentIntentStatus,
+  Prisma,
+  RefundStatus,
+} from "@prisma/client";
+import prisma from "../utils/prismClient";
+import { ApiError } from "../utils/ApiError";
+import { getPaymentProvider, PAYMENT_CURRENCY } from "./index";
+import { PaymentEvent, PaymentProvider } from "./provider";
+
+// Invoices, payment intents and refunds for appointments. Handlers call these
+// and never talk to the provider directly.
+
+export const formatAmount = (amount: number, currency: string): string => {
+  return new Intl.NumberFormat("en-IN", { style: "currency", currency }).format(amount);
+};
+
+const invoiceNotificationInclude = {
+  appointment: { select: { status: true, doctor: { select: { user: { select: { name: true } } } } } },
+  patient: { select: { userId: true } },
+} satisfies Prisma.InvoiceInclude;
+
+/**
+ * Raises the appointment's invoice if it has none yet and starts a payment for
+ * it with the provider. An unpaid intent for the same amount is handed back
+ * instead of opening another one. Throws ApiError when the appointment can't be
+ * paid for.
+ */
+export const startAppointmentPayment = async (appointmentId: string, patientId: string) => {
+  const appointment = await prisma.appointment.findUnique({
+    where: { id: appointmentId },
+    include: { doctor: { select: { user: { select: { name: true } } } } },
+  });
+  if (!appointment || appointment.patientId !== patientId) {
+    throw new ApiError(404, "Appointment not found");
+  }
+  const fee = appointment.consultationFee ?? 0;
+  if (fee <= 0) {
+    throw new ApiError(400, "This appointment has no consultation fee");
+  }
+
+  let invoice = await prisma.invoice.findUnique({ where: { appointmentId } });
+  if (!invoice) {
+    if (appointment.status !== AppointmentStatus.PENDING && appointment.status !== AppointmentStatus.CONFIRMED) {
+      throw new ApiError(400, `Cannot pay for a ${appointment.status.toLowerCase()} appointment`);
+    }
+    try {
+      invoice = await prisma.invoice.create({
+        data: { appointmentId, patientId, amount: fee, currency: PAYMENT_CURRENCY },
+      });
+    } catch (error) {
+      // Raised by a concurrent request
+      if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002")) throw error;
+      invoice = await prisma.invoice.findUniqueOrThrow({ where: { appointmentId } });
+    }
+  }
+  if (invoice.status === InvoiceStatus.PAID || invoice.status === InvoiceStatus.REFUNDED) {
+    throw new ApiError(409, "This appointment has already been paid for");
+  }
+  if (invoice.status === InvoiceStatus.VOID) {
+    throw new ApiError(400, "This appointment was cancelled and no longer needs paying");
+  }
+  // Still unpaid, so it follows the fee if the appointment moved to a slot priced differently
+  if (invoice.amount !== fee) {
+    invoice = await prisma.invoice.update({ where: { id: invoice.id }, data: { amount: fee } });
+  }
+
+  const provider = getPaymentProvider();
+  const openIntent = await prisma.paymentIntent.findFirst({
+    where: {
+      invoiceId: invoice.id,
+      provider: provider.name,
+      status: PaymentIntentStatus.REQUIRES_PAYMENT,
+      amount: invoice.amount,
+    },
+    orderBy: { createdAt: "desc" },
+  });
+  if (openIntent) {
+    return { invoice, paymentIntent: openIntent };
+  }
+
+  const id = crypto.randomUUID();
+  const providerIntent = await provider.createPaymentIntent({
+    amount: invoice.amount,
+    currency: invoice.currency,
+    idempotencyKey: id,
+    description: `Consultation with Dr. ${appointment.doctor.user.name}`,
+  });
+  const paymentIntent = await prisma.paymentIntent.create({
+    data: {
+      id,
+      invoiceId: invoice.id,
+      provider: provider.name,
+      providerIntentId: providerIntent.id,
+      amount: invoice.amount,
+      currency: invoice.currency,
+      clientSecret: providerIntent.clientSecret,
+    },
+  });
+
+  return { invoice, paymentIntent };
+};
+
+// Marks a refund settled; the invoice becomes REFUNDED once refunds cover it
+const settleRefund = async (tx: Prisma.TransactionClient, refundId: string): Promise<void> => {
+  const settled = await tx.refund.updateMany({
+    where: { id: refundId, status: { not: RefundStatus.SUCCEEDED } },
+    data: { status: RefundStatus.SUCCEEDED, failureReason: null },
+  });
+  if (settled.count === 0) return;
+
+  const refund = await tx.refund.findUniqueOrThrow({
+    where: { id: refundId },
+    include: { invoice: { include: invoiceNotificationInclude } },
+  });
+  const { invoice } = refund;
+  const refunded = await tx.refund.aggregate({
+    where: { invoiceId: invoice.id, status: RefundStatus.SUCCEEDED },
+    _sum: { amount: true },
+  });
+  if ((refunded._sum.amount ?? 0) >= invoice.amount) {
+    await tx.invoice.updateMany({
+      where: { id: invoice.id, status: InvoiceStatus.PAID },
+      data: { status: InvoiceStatus.REFUNDED },
+    });
+  }
+
+  await tx.notification.create({
+    data: {
+      userId: invoice.patient.userId,
+      type: "PAYMENT_REFUNDED",
+      title: "Refund Issued",
+      message: `${formatAmount(refund.amount, invoice.currency)} for your appointment with Dr. ${invoice.appointment.doctor.user.name} has been refunded.`,
+      appointmentId: invoice.appointmentId,
+    },
+  });
+};
+
+const refundInvoice = async (invoiceId: string, reason: string, amount?: number) => {
+  const invoice = await prisma.invoice.findUnique({
+    where: { id: invoiceId },
+    include: { paymentIntents: true, refunds: true },
+  });
+  const paidIntent = invoice?.paymentIntents.find((intent) => intent.status === PaymentIntentStatus.SUCCEEDED);
+  if (!invoice || invoice.status !== InvoiceStatus.PAID || !paidIntent) return null;
+
+  const alreadyRefunded = invoice.refunds
+    .filter((refund) => refund.status !== RefundStatus.FAILED)
+    .reduce((total, refund) => total + refund.amount, 0);
+  const refundAmount = Math.min(amount ?? invoice.amount, invoice.amount - alreadyRefunded);
+  if (refundAmount <= 0) return null;
+
+  const refund = await prisma.refund.create({
+    data: {
+      invoiceId: invoice.id,
+      paymentIntentId: paidIntent.id,
+      amount: refundAmount,
+      reason,
+    },
+  });
+
+  try {
+    const providerRefund = await getPaymentProvider().refund({
+      intentId: paidIntent.providerIntentId,
+      amount: refundAmount,
+      currency: invoice.currency,
+      idempotencyKey: refund.id,
+    });
+
+    if (providerRefund.status === "failed") {
+      return await prisma.refund.update({
+        where: { id: refund.id },
+        data: {
+          providerRefundId: providerRefund.id,
+          status: RefundStatus.FAILED,
+          failureReason: providerRefund.failureReason ?? "Refused by the payment provider",
+        },
+      });
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.refund.update({ where: { id: refund.id }, data: { providerRefundId: providerRefund.id } });
+      if (providerRefund.status === "succeeded") {
+        await settleRefund(tx, refund.id);
+      }
+    });
+    return await prisma.refund.findUniqueOrThrow({ where: { id: refund.id } });
+  } catch (error) {
+    // The cancellation stands; the failed refund stays on record for follow-up
+    console.error(`Refund ${refund.id} for invoice ${invoice.id} failed:`, error);
+    return await prisma.refund.update({
+      where: { id: refund.id },
+      data: {
+        status: RefundStatus.FAILED,
+        failureReason: error instanceof Error ? error.message : "Payment provider error",
+      },
+    });
+  }
+};
+
+/**
+ * Settles the money side of a cancelled appointment. With no cancellation fee a
+ * paid invoice is refunded in full and an unpaid one voided. A late-cancellation
+ * fee is kept back from the refund, or, when nothing was paid yet, becomes what
+ * the invoice asks for (raising one if needed). Open payment intents for the old
+ * amount are cancelled. Provider failures are logged and recorded on the Refund
+ * rather than thrown, so they never undo the cancellation. Returns the refund,
+ * if one was issued.
+ */
+export const refundAppointmentPayment = async (
+  appointment: { id: string; patientId: string },
+  reason: string,
+  cancellationFee: number = 0
+) => {
+  const invoice = await prisma.invoice.findUnique({ where: { appointmentId: appointment.id } });
+  if (!invoice) {
+    if (cancellationFee > 0) {
+      await prisma.invoice.create({
+        data: {
+          appointmentId: appointment.id,
+          patientId: appointment.patientId,
+          amount: cancellationFee,
+          currency: PAYMENT_CURRENCY,
+        },
+      });
+    }
+    return null;
+  }
+
+  if (invoice.status === InvoiceStatus.OPEN) {
+    await prisma.invoice.updateMany({
+      where: { id: invoice.id, status: InvoiceStatus.OPEN },
+      data: cancellationFee > 0 ? { amount: cancellationFee } : { status: InvoiceStatus.VOID },
+    });
+
+    const provider = getPaymentProvider();
+    const openIntents = await prisma.paymentIntent.findMany({
+      where: { invoiceId: invoice.id, status: PaymentIntentStatus.REQUIRES_PAYMENT },
+    });
+    for (const intent of openIntents) {
+      try {
+        if (intent.provider === provider.name) {
+          await provider.cancelPaymentIntent(intent.providerIntentId);
+        }
+        await prisma.paymentIntent.updateMany({
+          where: { id: intent.id, status: PaymentIntentStatus.REQUIRES_PAYMENT },
+          data: { status: PaymentIntentStatus.CANCELLED },
+        });
+      } catch (error) {
+        console.error(`Failed to cancel payment intent ${intent.id}:`, error);
+      }
+    }
+    return null;
+  }
+
+  return refundInvoice(invoice.id, reason, invoice.amount - cancellationFee);
+};
+
+/**
+ * Applies one verified webhook event. Returns false when the event was already
+ * processed (providers redeliver), true otherwise, including for event types we
+ * don't act on.
+ */
+export const processPaymentEvent = async (
+  provider: PaymentProvider,
+  event: PaymentEvent
+): Promise<boolean> => {
+  const now = new Date();
+  let paidAfterCancellation: string | null = null;
+
+  try {
+    await prisma.$transaction(async (tx) => {
+      await tx.paymentWebhookEvent.create({
+        data: {
+          provider: provider.name,
+          eventId: event.id,
+          type: event.providerType,
+          payload: event.payload as Prisma.InputJsonValue,
+        },
+      });
+
+      const intent = event.intentId
+        ? await tx.paymentIntent.findUnique({
+            where: { provider_providerIntentId: { provider: provider.name, providerIntentId: event.intentId } },
+            include: { invoice: { include: invoiceNotificationInclude } },
+          })
+        : null;
+      if (!intent) return;
+
+      switch (event.type) {
+        case "payment.succeeded": {
+          await tx.paymentIntent.update({
+            where: { id: intent.id },
+            data: { status: PaymentIntentStatus.SUCCEEDED, failureReason: null },
+          });
+          // A void invoice was cancelled while the patient was paying; it is
+          // taken as paid and refunded straight away below
+          const paid = await tx.invoice.updateMany({
+            where: { id: intent.invoiceId, status: { in: [InvoiceStatus.OPEN, InvoiceStatus.VOID] } },
+            data: { status: InvoiceStatus.PAID, paidAt: now },
+          });
+          if (paid.count === 0) return;
+
+          const { invoice } = intent;
+          if (invoice.status === InvoiceStatus.VOID || invoice.appointment.status === AppointmentStatus.CANCELLED) {
+            paidAfterCancellation = invoice.id;
+          }
+          await tx.notification.create({
+            data: {
+              userId: invoice.patient.userId,
+              type: "PAYMENT_RECEIVED",
+              title: "Payment Received",
+              message: `We received ${formatAmount(intent.amount, intent.currency)} for your appointment with Dr. ${invoice.appointment.doctor.user.name}.`,
+              appointmentId: invoice.appointmentId,
+            },
+          });
+          return;
+        }
+
+        case "payment.failed":
+          await tx.paymentIntent.updateMany({
+            where: { id: intent.id, status: PaymentIntentStatus.REQUIRES_PAYMENT },
+            data: { status: PaymentIntentStatus.FAILED, failureReason: event.failureReason ?? null },
+          });
+          return;
+
+        case "refund.succeeded":
+        case "refund.failed": {
+          const refund = event.refundId
+            ? await tx.refund.findUnique({
+                where: { paymentIntentId_providerRefundId: { paymentIntentId: intent.id, providerRefundId: event.refundId } },
+              })
+            : null;
+          if (!refund) return;
+
+          if (event.type === "refund.succeeded") {
+            await settleRefund(tx, refund.id);
+          } else {
+            await tx.refund.updateMany({
+              where: { id: refund.id, status: RefundStatus.PENDING },
+              data: { status: RefundStatus.FAILED, failureReason: event.failureReason ?? null },
+            });
+          }
+          return;
+        }
+      }
+    });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+      return false;
+    }
+    throw error;
+  }
+
+  if (paidAfterCancellation) {
+    await refundInvoice(paidAfterCancellation, "Appointment was cancelled before the payment completed");
+  }
+  return true;
+};
@@ -0,0 +1,60 @@
+import { IncomingHttpHeaders } from "http";
+
+// The contract every payment gateway adapter implements. Amounts are in the same
+// units as Appointment.consultationFee; ids are the provider's own.
+
+export interface CreatePaymentIntentInput {
+  amount: number;
+  currency: string;
+  // Our PaymentIntent id, so a retried call does not charge twice
+  idempotencyKey: string;
+  description: string;
+}
+
+export interface ProviderPaymentIntent {
+  id: string;
+  // Handed to the client to complete the payment, when the provider uses one
+  clientSecret: string | null;
+}
+
+export interface CreateRefundInput {
+  intentId: string;
+  amount: number;
+  currency: string;
+  // Our Refund id
+  idempotencyKey: string;
+}
+
+export interface ProviderRefund {
+  id: string;
+  // Providers that settle refunds later report the outcome by webhook
+  status: "pending" | "succeeded" | "failed";
+  failureReason?: string;
+}
+
+// The webhook events we act on; anything else is recorded and ignored
+export type PaymentEventType = "payment.succeeded" | "payment.failed" | "refund.succeeded" | "refund.failed";
+
+export interface PaymentEvent {
+  id: string;
+  // The provider's own event type, kept for the event log
+  providerType: string;
+  type: PaymentEventType | null;
+  intentId?: string;
+  refundId?: string;
+  failureReason?: string;
+  payload: unknown;
+}
+
+export interface PaymentProvider {
+  readonly name: string;
+  createPaymentIntent(input: CreatePaymentIntentInput): Promise<ProviderPaymentIntent>;
+  cancelPaymentIntent(intentId: string): Promise<void>;
+  refund(input: CreateRefundInput): Promise<ProviderRefund>;
+  /**
+   * Verifies a webhook delivery against its signature and translates it. Must
+   * be given the body exactly as received. Throws ApiError(400) when the
+   * delivery can't be trusted.
+   */
+  parseWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): PaymentEvent;
+}
@@ -0,0 +1,142 @@
+import { AppointmentStatus, Prisma, Role } from "@prisma/client";
+import { ApiError } from "./ApiError";
+
+// The appointment lifecycle. Every status change goes through
+// transitionAppointment, which checks it against APPOINTMENT_TRANSITIONS and
+// records it in AppointmentStatusHistory. Like ./scheduling it takes a
+// transaction client and throws ApiError.
+//
+//   PENDING ──▶ CONFIRMED ──▶ COMPLETED | NO_SHOW | CANCELLED
+//      └──────▶ REJECTED | CANCELLED
+
+export type AppointmentActor = {
+  // The side of the appointment acting
+  role: Role;
+  // The user really acting, e.g. a patient's delegate; see getActorUserId
+  userId: string;
+};
+
+type Transition = {
+  // Who may make the change
+  actors: Role[];
+  // Only once the appointment's time has come
+  afterStart?: boolean;
+};
+
+export const APPOINTMENT_TRANSITIONS: Record<
+  AppointmentStatus,
+  Partial<Record<AppointmentStatus, Transition>>
+> = {
+  [AppointmentStatus.PENDING]: {
+    // The doctor accepts the request, or either side accepts times the other
+    // proposed (see reschedule.controller)
+    [AppointmentStatus.CONFIRMED]: { actors: [Role.DOCTOR, Role.PATIENT] },
+    [AppointmentStatus.REJECTED]: { actors: [Role.DOCTOR] },
+    [AppointmentStatus.CANCELLED]: { actors: [Role.PATIENT, Role.DOCTOR] },
+  },
+  [AppointmentStatus.CONFIRMED]: {
+    [AppointmentStatus.COMPLETED]: { actors: [Role.DOCTOR] },
+    [AppointmentStatus.NO_SHOW]: { actors: [Role.DOCTOR], afterStart: true },
+    [AppointmentStatus.CANCELLED]: { actors: [Role.PATIENT, Role.DOCTOR] },
+  },
+  [AppointmentStatus.COMPLETED]: {},
+  [AppointmentStatus.CANCELLED]: {},
+  [AppointmentStatus.REJECTED]: {},
+  [AppointmentStatus.NO_SHOW]: {},
+};
+
+// Statuses that change what calendars show, so the iCalendar SEQUENCE is bumped
+const CALENDAR_STATUSES: AppointmentStatus[] = [
+  AppointmentStatus.CONFIRMED,
+  AppointmentStatus.CANCELLED,
+  AppointmentStatus.REJECTED,
+];
+
+const describe = (status: AppointmentStatus): string => status.toLowerCase().replace("_", "-");
+
+/**
+ * Whether `actor` may move an appointment from `from` to `to` at `now`; throws
+ * ApiError saying why not: 409 for a change the lifecycle doesn't allow, 403
+ * for the wrong side, 400 when it is too early.
+ */
+export const assertTransition = (
+  appointment: { status: AppointmentStatus; scheduledAt: Date },
+  to: AppointmentStatus,
+  actorRole: Role,
+  now: Date = new Date()
+): void => {
+  const from = appointment.status;
+  const transition = APPOINTMENT_TRANSITIONS[from][to];
+  if (!transition) {
+    throw new ApiError(409, `A ${describe(from)} appointment can't be changed to ${describe(to)}`);
+  }
+  if (!transition.actors.includes(actorRole)) {
+    const allowed = transition.actors.map((role) => role.toLowerCase()).join(" or ");
+    throw new ApiError(403, `Only the ${allowed} can change a ${describe(from)} appointment to ${describe(to)}`);
+  }
+  if (transition.afterStart && appointment.scheduledAt > now) {
+    throw new ApiError(400, `An appointment can't be marked ${describe(to)} before it starts`);
+  }
+};
+
+/**
+ * Moves the appointment to `to` and records the change. The update only applies
+ * while the appointment is still in the status it was read with, so a change
+ * made in the meantime fails with a 409 instead of being overwritten. `data` is
+ * written alongside; cancellations also record when and by whom.
+ */
+export const transitionAppointment = async (
+  tx: Prisma.TransactionClient,
+  appointment: { id: string; status: AppointmentStatus; scheduledAt: Date },
+  to: AppointmentStatus,
+  actor: AppointmentActor,
+  {
+    reason,
+    data = {},
+    now = new Date(),
+  }: { reason?: string | null; data?: Prisma.AppointmentUncheckedUpdateManyInput; now?: Date } = {}
+): Promise<void> => {
+  assertTransition(appointment, to, actor.role, now);
+
+  const updated = await tx.appointment.updateMany({
+    where: { id: appointment.id, status: appointment.status },
+    data: {
+      ...data,
+      status: to,
+      ...(to === AppointmentStatus.CANCELLED && { cancelledAt: now, cancelledBy: actor.role }),
+      ...(CALENDAR_STATUSES.includes(to) && { icsSequence: { increment: 1 } }),
+    },
+  });
+  if (updated.count === 0) {
+    throw new ApiError(409, "Appointment was changed in the meantime");
+  }
+
+  await tx.appointmentStatusHistory.create({
+    data: {
+      appointmentId: appointment.id,
+      fromStatus: appointment.status,
+      toStatus: to,
+      actorRole: actor.role,
+      actorUserId: actor.userId,
+      reason: reason || null,
+      createdAt: now,
+    },
+  });
+};
+
+/**
+ * The first history entry, for `statusHistory` in appointment.create: the
+ * patient's booking request.
+ */
+export const bookingHistoryEntry = (
+  actorUserId: string
+): Prisma.AppointmentStatusHistoryCreateNestedManyWithoutAppointmentInput => {
+  return {
+    create: {
+      toStatus: AppointmentStatus.PENDING,
+      actorRole: Role.PATIENT,
+      actorUserId,
+      reason: "Appointment requested",
+    },
+  };
+};
@@ -0,0 +1,165 @@
+import { AvailabilityException, AvailabilityRule } from "@prisma/client";
+import {
+  addCalendarDays,
+  calendarDateInZone,
+  zonedTimeToUtc,
+} from "./timezone";
+
+// Recurring availability rules are expanded into virtual slots on request and are
+// only written to the TimeSlot table when a patient books one. Times of day are
+// "HH:mm" wall-clock strings in the doctor's time zone; validFrom / validUntil and
+// exception dates are calendar dates (UTC midnight).
+const TIME_OF_DAY_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+const MINUTES_PER_DAY = 24 * 60;
+
+// How far ahead slot listings expand rules when no date is given
+export const DEFAULT_EXPANSION_DAYS = 14;
+
+export type AvailabilityRuleWindow = Pick<
+  AvailabilityRule,
+  | "id"
+  | "daysOfWeek"
+  | "startTime"
+  | "endTime"
+  | "slotDurationMinutes"
+  | "consultationFee"
+  | "validFrom"
+  | "validUntil"
+>;
+
+export type AvailabilityExceptionWindow = Pick<
+  AvailabilityException,
+  "ruleId" | "date" | "startTime" | "endTime"
+>;
+
+export interface VirtualTimeSlot {
+  ruleId: string;
+  startTime: Date;
+  endTime: Date;
+  consultationFee: number | null;
+}
+
+/**
+ * Parses "HH:mm" into minutes since midnight, or null if malformed.
+ */
+export const parseTimeOfDay = (value: unknown): number | null => {
+  if (typeof value !== "string") return null;
+  const match = TIME_OF_DAY_PATTERN.exec(value);
+  if (!match) return null;
+  return Number(match[1]) * 60 + Number(match[2]);
+};
+
+const exceptionBlocks = (
+  exception: AvailabilityExceptionWindow,
+  ruleId: string,
+  start: Date,
+  end: Date,
+  timeZone: string
+): boolean => {
+  if (exception.ruleId && exception.ruleId !== ruleId) return false;
+  const from = zonedTimeToUtc(exception.date, parseTimeOfDay(exception.startTime) ?? 0, timeZone);
+  const until = zonedTimeToUtc(
+    exception.date,
+    parseTimeOfDay(exception.endTime) ?? MINUTES_PER_DAY,
+    timeZone
+  );
+  return start < until && end > from;
+};
+
+/**
+ * Expands rules into the bookable slots that start within [from, to), minus
+ * anything covered by an exception. Sorted by start time. `bufferMinutes` (the
+ * doctor's scheduling policy) is left free after every slot.
+ */
+export const expandAvailabilityRules = (
+  rules: AvailabilityRuleWindow[],
+  exceptions: AvailabilityExceptionWindow[],
+  from: Date,
+  to: Date,
+  timeZone: string,
+  bufferMinutes: number = 0
+): VirtualTimeSlot[] => {
+  const slots: VirtualTimeSlot[] = [];
+  const lastDay = calendarDateInZone(to, timeZone);
+
+  for (
+    let day = calendarDateInZone(from, timeZone);
+    day <= lastDay;
+    day = addCalendarDays(day, 1)
+  ) {
+    for (const rule of rules) {
+      if (!rule.daysOfWeek.includes(day.getUTCDay())) continue;
+      if (day < rule.validFrom) continue;
+      if (rule.validUntil && day > rule.validUntil) continue;
+
+      const ruleStart = parseTimeOfDay(rule.startTime);
+      const ruleEnd = parseTimeOfDay(rule.endTime);
+      if (ruleStart === null || ruleEnd === null || rule.slotDurationMinutes <= 0) {
+        continue;
+      }
+
+      for (
+        let minutes = ruleStart;
+        minutes + rule.slotDurationMinutes <= ruleEnd;
+        minutes += rule.slotDurationMinutes + bufferMinutes
+      ) {
+        const startTime = zonedTimeToUtc(day, minutes, timeZone);
+        const endTime = zonedTimeToUtc(day, minutes + rule.slotDurationMinutes, timeZone);
+        if (startTime < from || startTime >= to) continue;
+        if (exceptions.some((e) => exceptionBlocks(e, rule.id, startTime, endTime, timeZone))) {
+          continue;
+        }
+        slots.push({
+          ruleId: rule.id,
+          startTime,
+          endTime,
+          consultationFee: rule.consultationFee,
+        });
+      }
+    }
+  }
+
+  return slots.sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+};
+
+/**
+ * Returns the virtual slot of `rule` starting exactly at `startTime`, or null if
+ * the rule does not offer that start (wrong day, off the slot grid, excepted...).
+ */
+export const findRuleSlot = (
+  rule: AvailabilityRuleWindow,
+  exceptions: AvailabilityExceptionWindow[],
+  startTime: Date,
+  timeZone: string,
+  bufferMinutes: number = 0
+): VirtualTimeSlot | null => {
+  const until = new Date(startTime.getTime() + 60000);
+
+  return (
+    expandAvailabilityRules([rule], exceptions, startTime, until, timeZone, bufferMinutes).find(
+      (slot) => slot.startTime.getTime() === startTime.getTime()
+    ) ?? null
+  );
+};
+
+/**
+ * Two rules overlap when they share a weekday, their hours intersect and their
+ * validity ranges intersect.
+ */
+export const rulesOverlap = (
+  a: AvailabilityRuleWindow,
+  b: AvailabilityRuleWindow
+): boolean => {
+  if (!a.daysOfWeek.some((day) => b.daysOfWeek.includes(day))) return false;
+
+  const aStart = parseTimeOfDay(a.startTime) ?? 0;
+  const aEnd = parseTimeOfDay(a.endTime) ?? 0;
+  const bStart = parseTimeOfDay(b.startTime) ?? 0;
+  const bEnd = parseTimeOfDay(b.endTime) ?? 0;
+  if (!(aStart < bEnd && aEnd > bStart)) return false;
+
+  return (
+    (!a.validUntil || a.validUntil >= b.validFrom) &&
+    (!b.validUntil || b.validUntil >= a.validFrom)
+  );
+};
@@ -0,0 +1,137 @@
+import { AppointmentStatus, DoctorCancellationPolicy, Prisma, Role } from "@prisma/client";
+import { ApiError } from "./ApiError";
+import { formatMinutes } from "./schedulingPolicy";
+import { calendarDateInZone, zonedDayBounds } from "./timezone";
+
+// A doctor's cancellation terms (see the DoctorCancellationPolicy model) and how
+// they apply when a patient cancels. Doctor-initiated cancellations are always
+// free and never count towards the monthly limit.
+
+export type CancellationPolicy = Pick<
+  DoctorCancellationPolicy,
+  "freeCancelMinutes" | "lateCancelFeePercent" | "maxCancellationsPerMonth"
+>;
+
+// What applies to a doctor who never set a policy
+export const DEFAULT_CANCELLATION_POLICY: CancellationPolicy = {
+  freeCancelMinutes: 0,
+  lateCancelFeePercent: 0,
+  maxCancellationsPerMonth: null,
+};
+
+export const getCancellationPolicy = async (
+  tx: Prisma.TransactionClient,
+  doctorId: string
+): Promise<CancellationPolicy> => {
+  return (
+    (await tx.doctorCancellationPolicy.findUnique({ where: { doctorId } })) ?? DEFAULT_CANCELLATION_POLICY
+  );
+};
+
+/**
+ * The policy as shown to patients before they book.
+ */
+export const describeCancellationPolicy = (policy: CancellationPolicy): string => {
+  const terms: string[] = [];
+  if (policy.lateCancelFeePercent === 0) {
+    terms.push("Free cancellation at any time.");
+  } else if (policy.freeCancelMinutes === 0) {
+    terms.push(
+      `Free cancellation until the appointment starts; after that ${policy.lateCancelFeePercent}% of the consultation fee is charged.`
+    );
+  } else {
+    terms.push(
+      `Free cancellation up to ${formatMinutes(policy.freeCancelMinutes)} before the appointment; later cancellations are charged ${policy.lateCancelFeePercent}% of the consultation fee.`
+    );
+  }
+  if (policy.maxCancellationsPerMonth !== null) {
+    terms.push(
+      `At most ${policy.maxCancellationsPerMonth} cancellation${policy.maxCancellationsPerMonth === 1 ? "" : "s"} per month.`
+    );
+  }
+  return terms.join(" ");
+};
+
+/**
+ * The policy plus its description, for slot listings and booking responses.
+ * Given the appointment time, also says until when cancelling it is free
+ * (null when it always is).
+ */
+export const cancellationPolicySummary = (policy: CancellationPolicy, scheduledAt?: Date) => {
+  return {
+    ...policy,
+    description: describeCancellationPolicy(policy),
+    ...(scheduledAt && {
+      freeCancellationUntil:
+        policy.lateCancelFeePercent > 0
+          ? new Date(scheduledAt.getTime() - policy.freeCancelMinutes * 60 * 1000)
+          : null,
+    }),
+  };
+};
+
+// The calendar month containing `now`, in the doctor's time zone
+const monthBounds = (now: Date, timeZone: string): { start: Date; end: Date } => {
+  const today = calendarDateInZone(now, timeZone);
+  const first = new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), 1));
+  const next = new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth() + 1, 1));
+  return { start: zonedDayBounds(first, timeZone).start, end: zonedDayBounds(next, timeZone).start };
+};
+
+/**
+ * Applies the doctor's policy to a patient cancelling `appointment` now.
+ * Throws a 403 ApiError when the patient has used up this month's cancellations
+ * with the doctor; otherwise returns the late-cancellation fee, 0 when free.
+ * The fee only applies to confirmed appointments: withdrawing a request the
+ * doctor hasn't accepted yet is always free. It is a share of what the patient
+ * was invoiced, or of the appointment's consultation fee before any invoice.
+ */
+export const assessPatientCancellation = async (
+  tx: Prisma.TransactionClient,
+  appointment: {
+    id: string;
+    patientId: string;
+    doctorId: string;
+    status: AppointmentStatus;
+    scheduledAt: Date;
+    consultationFee: number | null;
+  },
+  timeZone: string,
+  now: Date = new Date()
+): Promise<{ policy: CancellationPolicy; fee: number }> => {
+  const policy = await getCancellationPolicy(tx, appointment.doctorId);
+
+  if (policy.maxCancellationsPerMonth !== null) {
+    const { start, end } = monthBounds(now, timeZone);
+    const cancelled = await tx.appointment.count({
+      where: {
+        patientId: appointment.patientId,
+        doctorId: appointment.doctorId,
+        cancelledBy: Role.PATIENT,
+        cancelledAt: { gte: start, lt: end },
+      },
+    });
+    if (cancelled >= policy.maxCancellationsPerMonth) {
+      throw new ApiError(
+        403,
+        `You have reached this doctor's limit of ${policy.maxCancellationsPerMonth} cancellation${policy.maxCancellationsPerMonth === 1 ? "" : "s"} per month. Please contact the clinic to cancel.`
+      );
+    }
+  }
+
+  const late =
+    appointment.status === AppointmentStatus.CONFIRMED &&
+    now.getTime() > appointment.scheduledAt.getTime() - policy.freeCancelMinutes * 60 * 1000;
+  if (!late) {
+    return { policy, fee: 0 };
+  }
+
+  const invoice = await tx.invoice.findUnique({
+    where: { appointmentId: appointment.id },
+    select: { amount: true },
+  });
+  const consultationFee = invoice?.amount ?? appointment.consultationFee ?? 0;
+  const fee = Math.round((consultationFee * policy.lateCancelFeePercent) / 100);
+
+  return { policy, fee };
+};
@@ -1,5 +1,7 @@
 import nodemailer from "nodemailer";
+import crypto from "crypto";
 import { ApiError } from "./ApiError";
+import { formatDateTimeInZone } from "./timezone";
 
 // Generate random verification token
 export const generateVerificationToken = (): string => {
@@ -7,6 +9,11 @@ export const generateVerificationToken = (): string => {
          Math.random().toString(36).substring(2, 15);
 };
 
+// Generate a cryptographically secure token for single-use links (password reset etc.)
+export const generateSecureToken = (): string => {
+  return crypto.randomBytes(32).toString("hex");
+};
+
 // Create transporter for sending emails
 const createTransporter = () => {
   return nodemailer.createTransport({
@@ -130,3 +137,520 @@ export const sendWelcomeEmail = async (
     // Don't throw error here as account is already verified
   }
 };
+
+export const sendPasswordResetEmail = async (
+  email: string,
+  name: string,
+  token: string
+): Promise<void> => {
+  try {
+    const transporter = createTransporter();
+
+    const resetLink = `${process.env.PASSWORD_RESET_URL}?token=${token}&email=${encodeURIComponent(email)}`;
+
+    const htmlContent = `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <div style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 30px; text-align: center; border-radius: 10px 10px 0 0;">
+          <h1 style="margin: 0;">Reset Your Password</h1>
+        </div>
+        
+        <div style="padding: 30px; background-color: #f9f9f9; border-radius: 0 0 10px 10px;">
+          <p style="color: #333; font-size: 16px;">Hi ${name},</p>
+          
+          <p style="color: #666; font-size: 14px; line-height: 1.6;">
+            We received a request to reset the password for your CareXpert account. 
+            Click the button below to choose a new password:
+          </p>
+          
+          <div style="text-align: center; margin: 30px 0;">
+            <a href="${resetLink}" 
+               style="background-color: #667eea; color: white; padding: 12px 30px; text-decoration: none; 
+                      border-radius: 5px; display: inline-block; font-weight: bold;">
+              Reset Password
+            </a>
+          </div>
+          
+          <p style="color: #666; font-size: 13px; margin-top: 20px;">
+            Or copy and paste this link in your browser:
+          </p>
+          <p style="color: #667eea; font-size: 12px; word-break: break-all;">
+            ${resetLink}
+          </p>
+          
+          <p style="color: #666; font-size: 13px; margin-top: 20px;">
+            This link will expire in 1 hour and can only be used once. Resetting your password 
+            will sign you out of all devices.
+          </p>
+          
+          <hr style="border: none; border-top: 1px solid #ddd; margin: 20px 0;">
+          
+          <p style="color: #999; font-size: 12px;">
+            If you didn't request a password reset, you can safely ignore this email.
+          </p>
+        </div>
+      </div>
+    `;
+
+    await transporter.sendMail({
+      from: process.env.SMTP_FROM,
+      to: email,
+      subject: "Reset Your CareXpert Password",
+      html: htmlContent,
+    });
+
+  } catch (error) {
+    console.error("Error sending password reset email:", error);
+    throw new ApiError(500, "Failed to send password reset email");
+  }
+};
+
+export const sendAccountLockedEmail = async (
+  email: string,
+  name: string,
+  lockedUntil: Date,
+  timeZone: string
+): Promise<void> => {
+  try {
+    const transporter = createTransporter();
+
+    const htmlContent = `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <div style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 30px; text-align: center; border-radius: 10px 10px 0 0;">
+          <h1 style="margin: 0;">Your Account Has Been Locked</h1>
+        </div>
+        
+        <div style="padding: 30px; background-color: #f9f9f9; border-radius: 0 0 10px 10px;">
+          <p style="color: #333; font-size: 16px;">Hi ${name},</p>
+          
+          <p style="color: #666; font-size: 14px; line-height: 1.6;">
+            We detected too many failed sign-in attempts on your CareXpert account, so we have 
+            temporarily locked it to protect your data.
+          </p>
+          
+          <p style="color: #666; font-size: 14px; line-height: 1.6;">
+            You can try again after <strong>${formatDateTimeInZone(lockedUntil, timeZone)}</strong>.
+          </p>
+          
+          <hr style="border: none; border-top: 1px solid #ddd; margin: 20px 0;">
+          
+          <p style="color: #999; font-size: 12px;">
+            If these attempts weren't you, we recommend resetting your password and enabling 
+            two-factor authentication. Contact our support team if you need the account unlocked sooner.
+          </p>
+        </div>
+      </div>
+    `;
+
+    await transporter.sendMail({
+      from: process.env.SMTP_FROM,
+      to: email,
+      subject: "Your CareXpert Account Has Been Locked",
+      html: htmlContent,
+    });
+
+  } catch (error) {
+    console.error("Error sending account locked email:", error);
+    // Don't throw error here as the lockout itself has already been applied
+  }
+};
+
+export const sendDoctorInviteEmail = async (
+  email: string,
+  inviterName: string,
+  specialty: string,
+  token: string,
+  expiresAt: Date
+): Promise<void> => {
+  try {
+    const transporter = createTransporter();
+
+    const inviteLink = `${process.env.DOCTOR_INVITE_URL}?token=${token}`;
+
+    const htmlContent = `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <div style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 30px; text-align: center; border-radius: 10px 10px 0 0;">
+          <h1 style="margin: 0;">You're Invited to CareXpert</h1>
+        </div>
+        
+        <div style="padding: 30px; background-color: #f9f9f9; border-radius: 0 0 10px 10px;">
+          <p style="color: #333; font-size: 16px;">Hello,</p>
+          
+          <p style="color: #666; font-size: 14px; line-height: 1.6;">
+            ${inviterName} has invited you to join CareXpert as a doctor in <strong>${specialty}</strong>. 
+            Click the button below to set your password and complete your profile:
+          </p>
+          
+          <div style="text-align: center; margin: 30px 0;">
+            <a href="${inviteLink}" 
+               style="background-color: #667eea; color: white; padding: 12px 30px; text-decoration: none; 
+                      border-radius: 5px; display: inline-block; font-weight: bold;">
+              Accept Invitation
+            </a>
+          </div>
+          
+          <p style="color: #666; font-size: 13px; margin-top: 20px;">
+            Or copy and paste this link in your browser:
+          </p>
+          <p style="color: #667eea; font-size: 12px; word-break: break-all;">
+            ${inviteLink}
+          </p>
+          
+          <p style="color: #666; font-size: 13px; margin-top: 20px;">
+            This invitation expires on ${expiresAt.toUTCString()} and can only be used once.
+          </p>
+          
+          <hr style="border: none; border-top: 1px solid #ddd; margin: 20px 0;">
+          
+          <p style="color: #999; font-size: 12px;">
+            If you weren't expecting this invitation, you can safely ignore this email.
+          </p>
+        </div>
+      </div>
+    `;
+
+    await transporter.sendMail({
+      from: process.env.SMTP_FROM,
+      to: email,
+      subject: "Your Invitation to Join CareXpert",
+      html: htmlContent,
+    });
+
+  } catch (error) {
+    console.error("Error sending doctor invite email:", error);
+    throw new ApiError(500, "Failed to send doctor invite email");
+  }
+};
+
+const VERIFICATION_EMAIL_CONTENT = {
+  APPROVED: {
+    subject: "Your CareXpert Credentials Have Been Approved",
+    heading: "Credentials Approved",
+    body: "Your license and registration documents have been reviewed and approved. Your profile is now visible to patients searching for doctors.",
+  },
+  REJECTED: {
+    subject: "Your CareXpert Credential Review Needs Attention",
+    heading: "Credentials Not Approved",
+    body: "We were unable to approve your credentials. Please review the reason below, upload corrected documents and resubmit for verification.",
+  },
+  EXPIRED: {
+    subject: "Your Medical License on CareXpert Has Expired",
+    heading: "License Expired",
+    body: "The license on file for your CareXpert profile has expired, so your profile has been hidden from patient search. Upload your renewed license and resubmit for verification to appear again.",
+  },
+};
+
+export const sendDoctorVerificationEmail = async (
+  email: string,
+  name: string,
+  status: keyof typeof VERIFICATION_EMAIL_CONTENT,
+  rejectionReason?: string | null
+): Promise<void> => {
+  try {
+    const transporter = createTransporter();
+    const content = VERIFICATION_EMAIL_CONTENT[status];
+
+    const htmlContent = `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <div style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 30px; text-align: center; border-radius: 10px 10px 0 0;">
+          <h1 style="margin: 0;">${content.heading}</h1>
+        </div>
+        
+        <div style="padding: 30px; background-color: #f9f9f9; border-radius: 0 0 10px 10px;">
+          <p style="color: #333; font-size: 16px;">Hi Dr. ${name},</p>
+          
+          <p style="color: #666; font-size: 14px; line-height: 1.6;">
+            ${content.body}
+          </p>
+          ${rejectionReason ? `
+          <p style="color: #666; font-size: 14px; line-height: 1.6;">
+            <strong>Reason:</strong> ${rejectionReason}
+          </p>` : ""}
+          
+          <hr style="border: none; border-top: 1px solid #ddd; margin: 20px 0;">
+          
+          <p style="color: #666; font-size: 13px;">
+            If you have any questions, feel free to contact our support team.
+          </p>
+        </div>
+      </div>
+    `;
+
+    await transporter.sendMail({
+      from: process.env.SMTP_FROM,
+      to: email,
+      subject: content.subject,
+      html: htmlContent,
+    });
+
+  } catch (error) {
+    console.error("Error sending doctor verification email:", error);
+    // Don't throw error here as the status change has already been saved
+  }
+};
+
+export const sendEmailChangeVerificationEmail = async (
+  newEmail: string,
+  name: string,
+  token: string
+): Promise<void> => {
+  try {
+    const transporter = createTransporter();
+
+    const confirmLink = `${process.env.EMAIL_CHANGE_CONFIRM_URL}?token=${token}&email=${encodeURIComponent(newEmail)}`;
+
+    const htmlContent = `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <div style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 30px; text-align: center; border-radius: 10px 10px 0 0;">
+          <h1 style="margin: 0;">Confirm Your New Email</h1>
+        </div>
+        
+        <div style="padding: 30px; background-color: #f9f9f9; border-radius: 0 0 10px 10px;">
+          <p style="color: #333; font-size: 16px;">Hi ${name},</p>
+          
+          <p style="color: #666; font-size: 14px; line-height: 1.6;">
+            You asked to use this address for your CareXpert account. Click the button below 
+            to confirm the change:
+          </p>
+          
+          <div style="text-align: center; margin: 30px 0;">
+            <a href="${confirmLink}" 
+               style="background-color: #667eea; color: white; padding: 12px 30px; text-decoration: none; 
+                      border-radius: 5px; display: inline-block; font-weight: bold;">
+              Confirm Email Change
+            </a>
+          </div>
+          
+          <p style="color: #666; font-size: 13px; margin-top: 20px;">
+            Or copy and paste this link in your browser:
+          </p>
+          <p style="color: #667eea; font-size: 12px; word-break: break-all;">
+            ${confirmLink}
+          </p>
+          
+          <p style="color: #666; font-size: 13px; margin-top: 20px;">
+            This link will expire in 24 hours. Until you confirm, your account keeps using your current email.
+          </p>
+          
+          <hr style="border: none; border-top: 1px solid #ddd; margin: 20px 0;">
+          
+          <p style="color: #999; font-size: 12px;">
+            If you didn't request this change, please ignore this email.
+          </p>
+        </div>
+      </div>
+    `;
+
+    await transporter.sendMail({
+      from: process.env.SMTP_FROM,
+      to: newEmail,
+      subject: "Confirm Your New CareXpert Email Address",
+      html: htmlContent,
+    });
+
+  } catch (error) {
+    console.error("Error sending email change verification email:", error);
+    throw new ApiError(500, "Failed to send email change verification email");
+  }
+};
+
+export const sendEmailChangeNoticeEmail = async (
+  oldEmail: string,
+  name: string,
+  newEmail: string
+): Promise<void> => {
+  try {
+    const transporter = createTransporter();
+
+    const htmlContent = `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <div style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 30px; text-align: center; border-radius: 10px 10px 0 0;">
+          <h1 style="margin: 0;">Your Email Is Changing</h1>
+        </div>
+        
+        <div style="padding: 30px; background-color: #f9f9f9; border-radius: 0 0 10px 10px;">
+          <p style="color: #333; font-size: 16px;">Hi ${name},</p>
+          
+          <p style="color: #666; font-size: 14px; line-height: 1.6;">
+            A request was made to change the email address on your CareXpert account to 
+            <strong>${newEmail}</strong>. The change takes effect once it is confirmed from the new address.
+          </p>
+          
+          <hr style="border: none; border-top: 1px solid #ddd; margin: 20px 0;">
+          
+          <p style="color: #999; font-size: 12px;">
+            If this wasn't you, log in and cancel the pending change from your account settings, 
+            then reset your password.
+          </p>
+        </div>
+      </div>
+    `;
+
+    await transporter.sendMail({
+      from: process.env.SMTP_FROM,
+      to: oldEmail,
+      subject: "Your CareXpert Email Address Is Changing",
+      html: htmlContent,
+    });
+
+  } catch (error) {
+    console.error("Error sending email change notice:", error);
+    // Don't throw error here as the new address still has to confirm
+  }
+};
+
+interface EmailAttachment {
+  filename: string;
+  content: string | Buffer;
+  contentType?: string;
+}
+
+interface EmailOptions {
+  to: string;
+  subject: string;
+  html: string;
+  attachments?: EmailAttachment[];
+}
+
+// Generic sender for the template helpers below. Callers decide whether a failure matters.
+export const sendEmail = async ({ to, subject, html, attachments }: EmailOptions): Promise<void> => {
+  const transporter = createTransporter();
+
+  await transporter.sendMail({
+    from: process.env.SMTP_FROM,
+    to,
+    subject,
+    html,
+    attachments,
+  });
+};
+
+const APPOINTMENT_STATUS_EMAIL_CONTENT = {
+  CONFIRMED: {
+    heading: "Appointment Confirmed",
+    summary: "has confirmed your appointment.",
+  },
+  REJECTED: {
+    heading: "Appointment Request Declined",
+    summary: "was unable to accept your appointment request.",
+  },
+  CANCELLED: {
+    heading: "Appointment Cancelled",
+    summary: "has cancelled your appointment.",
+  },
+  RESCHEDULED: {
+    heading: "Appointment Rescheduled",
+    summary: "has moved your appointment to a new time.",
+  },
+} as const;
+
+// `date` and `time` should already be formatted in the recipient's time zone
+export const appointmentStatusTemplate = (
+  doctorName: string,
+  status: keyof typeof APPOINTMENT_STATUS_EMAIL_CONTENT,
+  date: string,
+  time: string,
+  reason?: string
+): string => {
+  const content = APPOINTMENT_STATUS_EMAIL_CONTENT[status];
+
+  return `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <div style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 30px; text-align: center; border-radius: 10px 10px 0 0;">
+          <h1 style="margin: 0;">${content.heading}</h1>
+        </div>
+        
+        <div style="padding: 30px; background-color: #f9f9f9; border-radius: 0 0 10px 10px;">
+          <p style="color: #666; font-size: 14px; line-height: 1.6;">
+            Dr. ${doctorName} ${content.summary}
+          </p>
+          
+          <p style="color: #333; font-size: 14px; line-height: 1.6;">
+            <strong>Date:</strong> ${date}<br>
+            <strong>Time:</strong> ${time}
+          </p>
+          ${reason ? `
+          <p style="color: #666; font-size: 14px; line-height: 1.6;">
+            <strong>Reason:</strong> ${reason}
+          </p>` : ""}
+          
+          <hr style="border: none; border-top: 1px solid #ddd; margin: 20px 0;">
+          
+          <p style="color: #999; font-size: 12px;">
+            You can view and manage your appointments from your CareXpert dashboard.
+          </p>
+        </div>
+      </div>
+    `;
+};
+
+// `date` should already be formatted in the recipient's time zone
+export const prescriptionTemplate = (doctorName: string, date: string): string => {
+  return `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <div style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 30px; text-align: center; border-radius: 10px 10px 0 0;">
+          <h1 style="margin: 0;">New Prescription Available</h1>
+        </div>
+        
+        <div style="padding: 30px; background-color: #f9f9f9; border-radius: 0 0 10px 10px;">
+          <p style="color: #666; font-size: 14px; line-height: 1.6;">
+            Dr. ${doctorName} issued a new prescription for you on <strong>${date}</strong>.
+          </p>
+          
+          <p style="color: #666; font-size: 14px; line-height: 1.6;">
+            Log in to CareXpert to view it or download it as a PDF.
+          </p>
+        </div>
+      </div>
+    `;
+};
+
+// Sent to the doctor when a patient cancels. `date` and `time` should already be
+// formatted in the doctor's time zone.
+export const patientCancellationTemplate = (patientName: string, date: string, time: string): string => {
+  return `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <div style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 30px; text-align: center; border-radius: 10px 10px 0 0;">
+          <h1 style="margin: 0;">Appointment Cancelled</h1>
+        </div>
+        
+        <div style="padding: 30px; background-color: #f9f9f9; border-radius: 0 0 10px 10px;">
+          <p style="color: #666; font-size: 14px; line-height: 1.6;">
+            ${patientName} has cancelled their appointment with you.
+          </p>
+          
+          <p style="color: #333; font-size: 14px; line-height: 1.6;">
+            <strong>Date:</strong> ${date}<br>
+            <strong>Time:</strong> ${time}
+          </p>
+        </div>
+      </div>
+    `;
+};
+
+// `date` and `time` should already be formatted in the recipient's time zone
+export const appointmentReminderTemplate = (doctorName: string, date: string, time: string): string => {
+  return `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <div style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 30px; text-align: center; border-radius: 10px 10px 0 0;">
+          <h1 style="margin: 0;">Appointment Reminder</h1>
+        </div>
+        
+        <div style="padding: 30px; background-color: #f9f9f9; border-radius: 0 0 10px 10px;">
+          <p style="color: #666; font-size: 14px; line-height: 1.6;">
+            This is a reminder of your upcoming appointment with Dr. ${doctorName}.
+          </p>
+          
+          <p style="color: #333; font-size: 14px; line-height: 1.6;">
+            <strong>Date:</strong> ${date}<br>
+            <strong>Time:</strong> ${time}
+          </p>
+          
+          <hr style="border: none; border-top: 1px solid #ddd; margin: 20px 0;">
+          
+          <p style="color: #999; font-size: 12px;">
+            If you can no longer attend, please cancel or reschedule from your CareXpert dashboard.
+          </p>
+        </div>
+      </div>
+    `;
+};
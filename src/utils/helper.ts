@@ -2,6 +2,8 @@ import { Request, Response, NextFunction } from "express";
 import { Role } from "@prisma/client";
 import { ApiError } from "./ApiError";
 import { PrismaClient, User } from "@prisma/client";
+import crypto from "crypto";
+import { patientAccess } from "../middlewares/delegation.middleware";
 
 const prisma = new PrismaClient();
 
@@ -46,19 +48,8 @@ export const isDoctor = (
   next();
 };
 
-export const isPatient = (
-  req: Request,
-  res: Response,
-  next: NextFunction
-): void => {
-  if (!(req as any).user || (req as any).user.role !== Role.PATIENT) {
-    res
-      .status(403)
-      .json(new ApiError(403, "Unauthorized: Patient access required"));
-    return;
-  }
-  next();
-};
+// Patient-only routes; delegates are refused. Use patientAccess(scope) to open a route to delegates.
+export const isPatient = patientAccess();
 
 export const isAdmin = (
   req: Request,
@@ -92,6 +83,12 @@ export const doctorOrAdminAccess = (
   next();
 };
 
+// Delegates and clinic admins act as the patient or doctor (see patientAccess and
+// actAsClinicDoctor); this is the user really making the request, for audit records
+export const getActorUserId = (req: Request): string => {
+  return (req as any).delegation?.actorUserId ?? (req as any).clinicAdmin?.actorUserId ?? (req as any).user?.id;
+};
+
 export const formatDate = (dateString: string): string => {
   try {
     const [year, month, day] = dateString.split("-");
@@ -141,6 +138,23 @@ export const generateToken = (): string => {
   );
 };
 
+/**
+ * Hashes a single-use token (password reset, invites, ...) for storage.
+ * Tokens are random and high-entropy, so a fast SHA-256 digest is sufficient.
+ */
+export const hashToken = (token: string): string => {
+  return crypto.createHash("sha256").update(token).digest("hex");
+};
+
+/**
+ * Constant-time comparison of a raw token against its stored hash.
+ */
+export const tokenMatchesHash = (token: string, storedHash: string): boolean => {
+  const incoming = Buffer.from(hashToken(token), "hex");
+  const stored = Buffer.from(storedHash, "hex");
+  return incoming.length === stored.length && crypto.timingSafeEqual(incoming, stored);
+};
+
 export const validateMedicalHistory = (history: string): boolean => {
   // Basic validation - can be extended based on requirements
   return history.length >= 5 && history.length <= 1000;
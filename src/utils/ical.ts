@@ -0,0 +1,197 @@
+import { AppointmentStatus, AppointmentType, Prisma, Role } from "@prisma/client";
+import prisma from "./prismClient";
+
+// Minimal iCalendar (RFC 5545) writer for appointments: the subscription feed
+// served to calendar apps and the invites attached to appointment emails.
+
+export type CalendarMethod = "PUBLISH" | "REQUEST" | "CANCEL";
+
+// Length given to appointments booked without a time slot (direct bookings)
+export const DEFAULT_APPOINTMENT_MINUTES = 30;
+
+const PRODUCT_ID = "-//CareXpert//Appointments//EN";
+const UID_DOMAIN = "carexpert";
+
+export interface CalendarPerson {
+  name: string;
+  email: string;
+}
+
+export interface CalendarEvent {
+  uid: string;
+  sequence: number;
+  start: Date;
+  end: Date;
+  lastModified: Date;
+  summary: string;
+  description?: string;
+  location?: string;
+  status: "TENTATIVE" | "CONFIRMED" | "CANCELLED";
+  organizer?: CalendarPerson;
+  attendees?: CalendarPerson[];
+}
+
+export const icsAppointmentInclude = {
+  doctor: {
+    select: {
+      specialty: true,
+      clinicLocation: true,
+      user: { select: { name: true, email: true } },
+    },
+  },
+  patient: { select: { user: { select: { name: true, email: true } } } },
+  timeSlot: { select: { endTime: true } },
+} satisfies Prisma.AppointmentInclude;
+
+export type IcsAppointment = Prisma.AppointmentGetPayload<{
+  include: typeof icsAppointmentInclude;
+}>;
+
+// TEXT values escape backslashes, separators and newlines (RFC 5545 3.3.11)
+const escapeText = (value: string): string => {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+};
+
+// Content lines are folded at 75 octets, never inside a UTF-8 sequence (RFC 5545 3.1)
+const foldLine = (line: string): string => {
+  const chunks: string[] = [];
+  let current = "";
+  let currentBytes = 0;
+
+  for (const char of line) {
+    const bytes = Buffer.byteLength(char, "utf8");
+    const limit = chunks.length === 0 ? 75 : 74; // continuation lines start with a space
+    if (currentBytes + bytes > limit) {
+      chunks.push(current);
+      current = "";
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  chunks.push(current);
+
+  return chunks.join("\r\n ");
+};
+
+// UTC date-time form, e.g. 20261019T093000Z
+const formatUtc = (instant: Date): string => {
+  return instant.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+};
+
+const formatPerson = (property: string, person: CalendarPerson, extra = ""): string => {
+  return `${property};CN="${person.name.replace(/"/g, "'")}"${extra}:mailto:${person.email}`;
+};
+
+const eventLines = (event: CalendarEvent, stamp: Date): string[] => {
+  const lines = [
+    "BEGIN:VEVENT",
+    `UID:${event.uid}`,
+    `SEQUENCE:${event.sequence}`,
+    `DTSTAMP:${formatUtc(stamp)}`,
+    `LAST-MODIFIED:${formatUtc(event.lastModified)}`,
+    `DTSTART:${formatUtc(event.start)}`,
+    `DTEND:${formatUtc(event.end)}`,
+    `SUMMARY:${escapeText(event.summary)}`,
+    `STATUS:${event.status}`,
+  ];
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+  if (event.organizer) lines.push(formatPerson("ORGANIZER", event.organizer));
+  for (const attendee of event.attendees ?? []) {
+    lines.push(formatPerson("ATTENDEE", attendee, ";ROLE=REQ-PARTICIPANT"));
+  }
+  lines.push("END:VEVENT");
+  return lines;
+};
+
+/**
+ * Serializes events into a VCALENDAR object with CRLF line endings.
+ */
+export const buildCalendar = (
+  events: CalendarEvent[],
+  { method = "PUBLISH", name }: { method?: CalendarMethod; name?: string } = {}
+): string => {
+  const stamp = new Date();
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    `METHOD:${method}`,
+  ];
+  if (name) {
+    lines.push(`X-WR-CALNAME:${escapeText(name)}`);
+  }
+  for (const event of events) {
+    lines.push(...eventLines(event, stamp));
+  }
+  lines.push("END:VCALENDAR");
+
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+};
+
+/**
+ * The calendar event for an appointment, titled for whoever will see it.
+ */
+export const appointmentToEvent = (appointment: IcsAppointment, viewer: Role): CalendarEvent => {
+  const doctor = appointment.doctor;
+  const patientName = appointment.patient.user.name;
+  const end =
+    appointment.timeSlot?.endTime ??
+    new Date(appointment.scheduledAt.getTime() + DEFAULT_APPOINTMENT_MINUTES * 60 * 1000);
+
+  let status: CalendarEvent["status"] = "TENTATIVE";
+  if (appointment.status === AppointmentStatus.CONFIRMED || appointment.status === AppointmentStatus.COMPLETED) {
+    status = "CONFIRMED";
+  } else if (appointment.status !== AppointmentStatus.PENDING) {
+    status = "CANCELLED";
+  }
+
+  return {
+    uid: `${appointment.id}@${UID_DOMAIN}`,
+    sequence: appointment.icsSequence,
+    start: appointment.scheduledAt,
+    end,
+    lastModified: appointment.updatedAt,
+    summary:
+      viewer === Role.DOCTOR
+        ? `Appointment with ${patientName}`
+        : `Appointment with Dr. ${doctor.user.name}`,
+    description: `${doctor.specialty} consultation${status === "TENTATIVE" ? " (awaiting confirmation)" : ""}`,
+    location:
+      appointment.appointmentType === AppointmentType.ONLINE ? "Online consultation" : doctor.clinicLocation,
+    status,
+    organizer: { name: `Dr. ${doctor.user.name}`, email: doctor.user.email },
+    attendees: [{ name: patientName, email: appointment.patient.user.email }],
+  };
+};
+
+/**
+ * An .ics invite for the appointment's current state, to attach to an email sent
+ * to `viewer`. Use "REQUEST" for new and changed times, "CANCEL" once it is off.
+ */
+export const appointmentIcsAttachment = async (
+  appointmentId: string,
+  method: "REQUEST" | "CANCEL",
+  viewer: Role
+) => {
+  const appointment = await prisma.appointment.findUniqueOrThrow({
+    where: { id: appointmentId },
+    include: icsAppointmentInclude,
+  });
+  const event = appointmentToEvent(appointment, viewer);
+  if (method === "CANCEL") {
+    event.status = "CANCELLED";
+  }
+
+  return {
+    filename: method === "CANCEL" ? "cancel.ics" : "invite.ics",
+    content: buildCalendar([event], { method }),
+    contentType: `text/calendar; charset=utf-8; method=${method}`,
+  };
+};
@@ -1,23 +1,67 @@
 import jwt from 'jsonwebtoken'
+import crypto from 'crypto'
 
-const generateAccessToken = (userId: string, tokenVersion: number): string => {
+const generateAccessToken = (userId: string, tokenVersion: number, sessionId: string): string => {
     const expiresIn = process.env.ACCESS_TOKEN_EXPIRES_IN || "1d";
 
     return jwt.sign(
-        { userId, tokenVersion },
+        { userId, tokenVersion, sessionId },
         process.env.ACCESS_TOKEN_SECRET as string,
         { expiresIn: expiresIn as jwt.SignOptions['expiresIn'] }
     )
 }
 
-const generateRefreshToken = (userId: string, tokenVersion: number): string => {
+const generateRefreshToken = (userId: string, tokenVersion: number, sessionId: string): string => {
     const expiresIn = process.env.REFRESH_TOKEN_EXPIRES_IN || "7d";
 
+    // jwtid keeps consecutive rotations distinct even within the same second
     return jwt.sign(
-        { userId, tokenVersion },
+        { userId, tokenVersion, sessionId },
         process.env.REFRESH_TOKEN_SECRET as string,
-        { expiresIn: expiresIn as jwt.SignOptions['expiresIn'] }
+        { expiresIn: expiresIn as jwt.SignOptions['expiresIn'], jwtid: crypto.randomUUID() }
     )
 }
 
-export { generateAccessToken, generateRefreshToken };
+export type TwoFactorChallengePurpose = "2fa_login" | "2fa_setup";
+
+// Short-lived token proving the password step of login succeeded. It carries a
+// `purpose` claim, which isAuthenticated rejects, so it can never be used as an access token.
+const generateTwoFactorChallengeToken = (
+    userId: string,
+    tokenVersion: number,
+    purpose: TwoFactorChallengePurpose
+): string => {
+    return jwt.sign(
+        { userId, tokenVersion, purpose },
+        process.env.ACCESS_TOKEN_SECRET as string,
+        { expiresIn: "10m" }
+    )
+}
+
+const verifyTwoFactorChallengeToken = (
+    token: string,
+    purpose: TwoFactorChallengePurpose
+): { userId: string; tokenVersion: number } | null => {
+    try {
+        const decoded = jwt.verify(token, process.env.ACCESS_TOKEN_SECRET as string);
+        if (
+            typeof decoded !== "object" ||
+            decoded === null ||
+            decoded.purpose !== purpose ||
+            typeof decoded.userId !== "string" ||
+            typeof decoded.tokenVersion !== "number"
+        ) {
+            return null;
+        }
+        return { userId: decoded.userId, tokenVersion: decoded.tokenVersion };
+    } catch {
+        return null;
+    }
+}
+
+export {
+    generateAccessToken,
+    generateRefreshToken,
+    generateTwoFactorChallengeToken,
+    verifyTwoFactorChallengeToken,
+};
@@ -0,0 +1,110 @@
+import prisma from "./prismClient";
+
+// Per-account brute-force protection. The first few failures are free, after
+// that every further attempt must wait an exponentially growing delay, and
+// once LOCKOUT_THRESHOLD failures pile up the account is locked outright.
+const FREE_ATTEMPTS = 3;
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 5 * 60 * 1000;
+const LOCKOUT_THRESHOLD = 10;
+const LOCKOUT_DURATION_MS = 30 * 60 * 1000;
+// Failures older than this no longer count towards backoff or lockout
+const FAILURE_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+type ThrottleState = {
+  failedLoginAttempts: number;
+  lastFailedLoginAt: Date | null;
+  lockedUntil: Date | null;
+};
+
+export type LoginBlock = {
+  locked: boolean;
+  retryAfterSeconds: number;
+};
+
+const getBackoffDelayMs = (failedAttempts: number): number => {
+  if (failedAttempts < FREE_ATTEMPTS) {
+    return 0;
+  }
+  return Math.min(BASE_DELAY_MS * 2 ** (failedAttempts - FREE_ATTEMPTS), MAX_DELAY_MS);
+};
+
+/**
+ * Returns why the account may not attempt a login right now, or null if it may.
+ */
+export const getLoginBlock = (
+  state: ThrottleState,
+  now: Date = new Date()
+): LoginBlock | null => {
+  if (state.lockedUntil && state.lockedUntil > now) {
+    return {
+      locked: true,
+      retryAfterSeconds: Math.ceil((state.lockedUntil.getTime() - now.getTime()) / 1000),
+    };
+  }
+
+  if (!state.lastFailedLoginAt) {
+    return null;
+  }
+
+  const sinceLastFailure = now.getTime() - state.lastFailedLoginAt.getTime();
+  const delay = getBackoffDelayMs(state.failedLoginAttempts);
+  if (sinceLastFailure < delay) {
+    return {
+      locked: false,
+      retryAfterSeconds: Math.ceil((delay - sinceLastFailure) / 1000),
+    };
+  }
+
+  return null;
+};
+
+/**
+ * Records a failed password or second-factor attempt. When this failure trips
+ * the lockout, returns the time the lock ends so the caller can notify the owner.
+ */
+export const recordFailedLogin = async (
+  userId: string,
+  state: ThrottleState,
+  now: Date = new Date()
+): Promise<Date | null> => {
+  const isStale =
+    !state.lastFailedLoginAt ||
+    now.getTime() - state.lastFailedLoginAt.getTime() > FAILURE_WINDOW_MS;
+
+  const { failedLoginAttempts } = await prisma.user.update({
+    where: { id: userId },
+    data: {
+      failedLoginAttempts: isStale ? 1 : { increment: 1 },
+      lastFailedLoginAt: now,
+    },
+    select: { failedLoginAttempts: true },
+  });
+
+  if (failedLoginAttempts < LOCKOUT_THRESHOLD) {
+    return null;
+  }
+
+  // Conditional on the count we just saw, so concurrent failures lock (and email) only once
+  const lockedUntil = new Date(now.getTime() + LOCKOUT_DURATION_MS);
+  const locked = await prisma.user.updateMany({
+    where: { id: userId, failedLoginAttempts },
+    data: { lockedUntil, failedLoginAttempts: 0, lastFailedLoginAt: null },
+  });
+
+  return locked.count > 0 ? lockedUntil : null;
+};
+
+export const resetFailedLogins = async (userId: string): Promise<void> => {
+  await prisma.user.updateMany({
+    where: {
+      id: userId,
+      OR: [
+        { failedLoginAttempts: { gt: 0 } },
+        { lastFailedLoginAt: { not: null } },
+        { lockedUntil: { not: null } },
+      ],
+    },
+    data: { failedLoginAttempts: 0, lastFailedLoginAt: null, lockedUntil: null },
+  });
+};
@@ -0,0 +1,57 @@
+import { AppointmentStatus, Prisma } from "@prisma/client";
+import { ApiError } from "./ApiError";
+
+// No-shows older than this no longer count against a patient
+export const NO_SHOW_LOOKBACK_DAYS = Number(process.env.NO_SHOW_LOOKBACK_DAYS) || 180;
+
+// Patients with this many recent no-shows can't book until older ones age out.
+// Unset or 0 leaves booking unrestricted.
+export const NO_SHOW_BOOKING_LIMIT = Number(process.env.NO_SHOW_BOOKING_LIMIT) || 0;
+
+const lookbackStart = (now: Date): Date => {
+  return new Date(now.getTime() - NO_SHOW_LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+};
+
+/**
+ * Recent no-shows per patient, across all doctors. Patients without any are
+ * left out of the map.
+ */
+export const countRecentNoShows = async (
+  tx: Prisma.TransactionClient,
+  patientIds: string[],
+  now: Date = new Date()
+): Promise<Map<string, number>> => {
+  if (patientIds.length === 0) return new Map();
+
+  const groups = await tx.appointment.groupBy({
+    by: ["patientId"],
+    where: {
+      patientId: { in: patientIds },
+      status: AppointmentStatus.NO_SHOW,
+      scheduledAt: { gte: lookbackStart(now) },
+    },
+    _count: { _all: true },
+  });
+
+  return new Map(groups.map((group) => [group.patientId, group._count._all]));
+};
+
+/**
+ * Throws a 403 ApiError when NO_SHOW_BOOKING_LIMIT is set and the patient has
+ * reached it. Call from every path that creates or reserves an appointment.
+ */
+export const assertPatientMayBook = async (
+  tx: Prisma.TransactionClient,
+  patientId: string,
+  now: Date = new Date()
+): Promise<void> => {
+  if (NO_SHOW_BOOKING_LIMIT <= 0) return;
+
+  const noShows = (await countRecentNoShows(tx, [patientId], now)).get(patientId) ?? 0;
+  if (noShows >= NO_SHOW_BOOKING_LIMIT) {
+    throw new ApiError(
+      403,
+      `Booking is unavailable after ${noShows} missed appointments in the last ${NO_SHOW_LOOKBACK_DAYS} days`
+    );
+  }
+};
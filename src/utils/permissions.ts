@@ -0,0 +1,36 @@
+import { Prisma } from "@prisma/client";
+
+// Every permission an admin can be granted. Super admins implicitly hold all of
+// them, and are the only ones who can grant or revoke them.
+export const ADMIN_PERMISSIONS = [
+  "users:read",
+  "users:delete",
+  "users:role",
+  "users:unlock",
+  "doctors:verify",
+  "doctors:invite",
+  "stats:read",
+  "security:manage",
+  "clinics:manage",
+] as const;
+
+export type AdminPermission = (typeof ADMIN_PERMISSIONS)[number];
+
+export const isAdminPermission = (value: unknown): value is AdminPermission =>
+  typeof value === "string" &&
+  (ADMIN_PERMISSIONS as readonly string[]).includes(value);
+
+/**
+ * Reads the permission list stored in Admin.permissions, ignoring anything
+ * that is not a known permission string.
+ */
+export const parseAdminPermissions = (
+  permissions: Prisma.JsonValue | null | undefined
+): AdminPermission[] => {
+  if (!Array.isArray(permissions)) {
+    return [];
+  }
+  return ADMIN_PERMISSIONS.filter((permission) =>
+    permissions.includes(permission)
+  );
+};
@@ -0,0 +1,207 @@
+import PDFDocument from "pdfkit";
+import { Prisma } from "@prisma/client";
+
+// Relations the prescription PDF needs; use with prisma.prescription.find*
+export const prescriptionPdfInclude = {
+  patient: {
+    select: {
+      user: {
+        select: {
+          name: true,
+          email: true,
+          timeZone: true,
+        },
+      },
+    },
+  },
+  doctor: {
+    select: {
+      specialty: true,
+      clinicLocation: true,
+      user: {
+        select: {
+          name: true,
+          email: true,
+        },
+      },
+    },
+  },
+} satisfies Prisma.PrescriptionInclude;
+
+export type PrescriptionPdfData = Prisma.PrescriptionGetPayload<{
+  include: typeof prescriptionPdfInclude;
+}>;
+
+function drawHorizontalLine(
+  doc: PDFKit.PDFDocument,
+  y: number,
+  color: string = "#cccccc"
+): void {
+  doc
+    .save()
+    .strokeColor(color)
+    .lineWidth(0.5)
+    .moveTo(40, y)
+    .lineTo(doc.page.width - 40, y)
+    .stroke()
+    .restore();
+}
+
+/**
+ * Creates the A5 prescription document. The caller pipes it somewhere
+ * (an HTTP response, an archive entry) and the document is ended here.
+ * Dates are rendered in the patient's time zone.
+ */
+export const renderPrescriptionPdf = (
+  prescription: PrescriptionPdfData
+): PDFKit.PDFDocument => {
+  const doc = new PDFDocument({
+    size: "A5",
+    margins: { top: 40, bottom: 60, left: 40, right: 40 },
+  });
+
+  doc
+    .font("Helvetica-Bold")
+    .fontSize(22)
+    .fillColor("#333333")
+    .text("PRESCRIPTION", { align: "center", underline: false });
+
+  drawHorizontalLine(doc, 100, "#999999");
+  doc.moveDown(2);
+
+  doc
+    .font("Helvetica-Bold")
+    .fontSize(12)
+    .fillColor("#000000")
+    .text("Doctor Information:", { continued: false });
+  doc.moveDown(0.5);
+
+  // Doctor Name + Specialty
+  doc
+    .font("Helvetica")
+    .fontSize(11)
+    .text(`Name       : Dr. ${prescription.doctor.user.name}`, {
+      indent: 10,
+    });
+  doc.text(`Specialty  : ${prescription.doctor.specialty}`, {
+    indent: 10,
+  });
+  doc.text(`Clinic        : ${prescription.doctor.clinicLocation}`, {
+    indent: 10,
+  });
+  doc.text(`Email        : ${prescription.doctor.user.email}`, {
+    indent: 10,
+  });
+
+  doc.moveDown(1);
+
+  // ------------------------
+  // 3) Patient Section
+  // ------------------------
+  drawHorizontalLine(doc, doc.y, "#dddddd");
+  doc.moveDown(0.5);
+
+  doc
+    .font("Helvetica-Bold")
+    .fontSize(12)
+    .fillColor("#000000")
+    .text("Patient Information:");
+  doc.moveDown(0.5);
+
+  doc
+    .font("Helvetica")
+    .fontSize(11)
+    .text(`Name  : ${prescription.patient.user.name}`, {
+      indent: 10,
+    });
+  doc.text(`Email : ${prescription.patient.user.email}`, {
+    indent: 10,
+  });
+
+  doc.moveDown(1);
+
+  // ------------------------
+  // 4) Date Issued & Prescription Text
+  // ------------------------
+  drawHorizontalLine(doc, doc.y, "#dddddd");
+  doc.moveDown(0.5);
+
+  // Date Issued
+  const timeZone = prescription.patient.user.timeZone;
+  const formattedDate = new Date(prescription.dateIssued).toLocaleDateString(
+    "en-IN",
+    { timeZone, day: "2-digit", month: "long", year: "numeric" }
+  );
+  doc
+    .font("Helvetica-Bold")
+    .fontSize(12)
+    .fillColor("#000000")
+    .text(`Date Issued: `, { continued: true })
+    .font("Helvetica")
+    .text(formattedDate);
+
+  doc.moveDown(1);
+
+  // Prescription Details Heading
+  doc.font("Helvetica-Bold").fontSize(12).text("Prescription Details:");
+  doc.moveDown(0.5);
+
+  // Prescription Text Box (bordered)
+  const startX = doc.x;
+  const boxWidth =
+    doc.page.width - doc.page.margins.left - doc.page.margins.right;
+  const textOptions: PDFKit.Mixins.TextOptions = {
+    width: boxWidth - 10,
+    align: "left",
+    indent: 5,
+    lineGap: 4,
+  };
+
+  // Draw a light gray box background
+  const boxTop = doc.y;
+  const estimatedHeight =
+    doc.heightOfString(prescription.prescriptionText, textOptions) + 20;
+  doc
+    .save()
+    .rect(startX - 5, boxTop - 5, boxWidth + 10, estimatedHeight + 10)
+    .fillOpacity(0.05)
+    .fill("#cccccc")
+    .restore();
+
+  // Write the prescription text inside the box
+  doc
+    .font("Helvetica")
+    .fontSize(11)
+    .fillColor("#000000")
+    .text(prescription.prescriptionText, startX, boxTop, textOptions);
+
+  // Move to end of box
+  doc.moveDown(2);
+
+  const footerY = doc.page.height - doc.page.margins.bottom - 40;
+  doc
+    .font("Helvetica")
+    .fontSize(9)
+    .fillColor("#666666")
+    .text(
+      `Generated on ${new Date().toLocaleString("en-IN", {
+        timeZone,
+        day: "2-digit",
+        month: "long",
+        year: "numeric",
+        hour: "2-digit",
+        minute: "2-digit",
+        timeZoneName: "short",
+      })}`,
+      40,
+      footerY,
+      { align: "left" }
+    );
+
+  doc.text("Powered by CareXpert", 40, footerY + 15, {
+    align: "left",
+  });
+  doc.end();
+
+  return doc;
+};
@@ -0,0 +1,169 @@
+import PDFDocument from "pdfkit";
+import { AppointmentType, PaymentIntentStatus, Prisma, RefundStatus } from "@prisma/client";
+import { formatAmount } from "../payments/invoices";
+import { formatDateInZone, formatTimeInZone } from "./timezone";
+
+// Relations the receipt PDF needs; use with prisma.invoice.find*
+export const receiptPdfInclude = {
+  patient: {
+    select: {
+      user: {
+        select: {
+          name: true,
+          email: true,
+          timeZone: true,
+        },
+      },
+    },
+  },
+  appointment: {
+    select: {
+      scheduledAt: true,
+      appointmentType: true,
+      doctor: {
+        select: {
+          specialty: true,
+          clinicLocation: true,
+          user: { select: { name: true } },
+        },
+      },
+    },
+  },
+  paymentIntents: {
+    where: { status: PaymentIntentStatus.SUCCEEDED },
+    select: { provider: true, providerIntentId: true },
+  },
+  refunds: {
+    where: { status: RefundStatus.SUCCEEDED },
+    select: { amount: true, reason: true, createdAt: true },
+    orderBy: { createdAt: "asc" },
+  },
+} satisfies Prisma.InvoiceInclude;
+
+export type ReceiptPdfData = Prisma.InvoiceGetPayload<{
+  include: typeof receiptPdfInclude;
+}>;
+
+export const formatInvoiceNumber = (number: number): string => {
+  return `INV-${String(number).padStart(6, "0")}`;
+};
+
+function drawHorizontalLine(doc: PDFKit.PDFDocument, y: number, color: string = "#cccccc"): void {
+  doc
+    .save()
+    .strokeColor(color)
+    .lineWidth(0.5)
+    .moveTo(40, y)
+    .lineTo(doc.page.width - 40, y)
+    .stroke()
+    .restore();
+}
+
+/**
+ * Creates the A5 payment receipt for a paid (or refunded) invoice, laid out like
+ * the prescription PDF. The caller pipes it somewhere and the document is ended
+ * here. Dates are rendered in the patient's time zone.
+ */
+export const renderReceiptPdf = (invoice: ReceiptPdfData): PDFKit.PDFDocument => {
+  const doc = new PDFDocument({
+    size: "A5",
+    margins: { top: 40, bottom: 60, left: 40, right: 40 },
+  });
+  const timeZone = invoice.patient.user.timeZone;
+  const { appointment } = invoice;
+
+  doc.font("Helvetica-Bold").fontSize(22).fillColor("#333333").text("RECEIPT", { align: "center" });
+  doc
+    .font("Helvetica")
+    .fontSize(10)
+    .fillColor("#666666")
+    .text(formatInvoiceNumber(invoice.number), { align: "center" });
+
+  drawHorizontalLine(doc, 100, "#999999");
+  doc.moveDown(2);
+
+  doc.font("Helvetica-Bold").fontSize(12).fillColor("#000000").text("Billed To:");
+  doc.moveDown(0.5);
+  doc.font("Helvetica").fontSize(11).text(`Name  : ${invoice.patient.user.name}`, { indent: 10 });
+  doc.text(`Email : ${invoice.patient.user.email}`, { indent: 10 });
+
+  doc.moveDown(1);
+  drawHorizontalLine(doc, doc.y, "#dddddd");
+  doc.moveDown(0.5);
+
+  doc.font("Helvetica-Bold").fontSize(12).text("Consultation:");
+  doc.moveDown(0.5);
+  doc.font("Helvetica").fontSize(11).text(`Doctor     : Dr. ${appointment.doctor.user.name}`, { indent: 10 });
+  doc.text(`Specialty  : ${appointment.doctor.specialty}`, { indent: 10 });
+  doc.text(`Clinic        : ${appointment.doctor.clinicLocation}`, { indent: 10 });
+  doc.text(
+    `Date          : ${formatDateInZone(appointment.scheduledAt, timeZone)}, ${formatTimeInZone(appointment.scheduledAt, timeZone)}`,
+    { indent: 10 }
+  );
+  doc.text(
+    `Type          : ${appointment.appointmentType === AppointmentType.ONLINE ? "Online" : "In person"}`,
+    { indent: 10 }
+  );
+
+  doc.moveDown(1);
+  drawHorizontalLine(doc, doc.y, "#dddddd");
+  doc.moveDown(0.5);
+
+  doc.font("Helvetica-Bold").fontSize(12).text("Payment:");
+  doc.moveDown(0.5);
+  doc
+    .font("Helvetica")
+    .fontSize(11)
+    .text(`Consultation fee : ${formatAmount(invoice.amount, invoice.currency)}`, { indent: 10 });
+  if (invoice.paidAt) {
+    doc.text(
+      `Paid on              : ${formatDateInZone(invoice.paidAt, timeZone)}, ${formatTimeInZone(invoice.paidAt, timeZone)}`,
+      { indent: 10 }
+    );
+  }
+  const payment = invoice.paymentIntents[0];
+  if (payment) {
+    doc.text(`Reference          : ${payment.providerIntentId}`, { indent: 10 });
+  }
+
+  let refunded = 0;
+  for (const refund of invoice.refunds) {
+    refunded += refund.amount;
+    doc.text(
+      `Refunded            : ${formatAmount(refund.amount, invoice.currency)} on ${formatDateInZone(refund.createdAt, timeZone)} (${refund.reason})`,
+      { indent: 10 }
+    );
+  }
+
+  doc.moveDown(0.5);
+  doc
+    .font("Helvetica-Bold")
+    .text(`Total paid : ${formatAmount(invoice.amount - refunded, invoice.currency)}`, { indent: 10 });
+
+  const footerY = doc.page.height - doc.page.margins.bottom - 40;
+  doc
+    .font("Helvetica")
+    .fontSize(9)
+    .fillColor("#666666")
+    .text(
+      `Generated on ${new Date().toLocaleString("en-IN", {
+        timeZone,
+        day: "2-digit",
+        month: "long",
+        year: "numeric",
+        hour: "2-digit",
+        minute: "2-digit",
+        timeZoneName: "short",
+      })}`,
+      40,
+      footerY,
+      { align: "left" }
+    );
+
+  doc.text("Powered by CareXpert", 40, footerY + 15, {
+    align: "left",
+  });
+  doc.end();
+
+  return doc;
+};
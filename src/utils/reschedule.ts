@@ -0,0 +1,385 @@
+import {
+  AppointmentStatus,
+  Prisma,
+  RescheduleProposalStatus,
+  Role,
+  TimeSlot,
+  TimeSlotStatus,
+} from "@prisma/client";
+import { ApiError } from "./ApiError";
+import prisma from "./prismClient";
+import { findRuleSlot } from "./availability";
+import {
+  appointmentTimeFields,
+  consultationFeeAt,
+  findOverlappingBlackout,
+  materializeRuleSlot,
+} from "./scheduling";
+import {
+  calendarDateInZone,
+  formatDateTimeInZone,
+  parseCalendarDate,
+  zonedTimeToUtc,
+} from "./timezone";
+import { findOpenWaitlistOffer } from "./waitlist";
+import { DEFAULT_APPOINTMENT_MINUTES } from "./ical";
+import {
+  assertSchedulingPolicy,
+  getSchedulingPolicy,
+  noticeViolation,
+  workingHoursViolation,
+} from "./schedulingPolicy";
+
+// Moving an appointment to a new time in place, so its notes, notifications and
+// history stay attached. Used by reschedule proposals and blackout handling. Like
+// ./scheduling these take a transaction client and throw ApiError.
+
+export const ACTIVE_APPOINTMENT_STATUSES: AppointmentStatus[] = [
+  AppointmentStatus.PENDING,
+  AppointmentStatus.CONFIRMED,
+];
+
+// Upper bound on the times offered in one proposal
+export const MAX_RESCHEDULE_OPTIONS = 5;
+
+const partyUserSelect = {
+  select: { id: true, name: true, email: true, timeZone: true },
+} as const;
+
+export const appointmentPartiesInclude = {
+  patient: { select: { id: true, user: partyUserSelect } },
+  doctor: { select: { id: true, user: partyUserSelect } },
+} satisfies Prisma.AppointmentInclude;
+
+export type AppointmentWithParties = Prisma.AppointmentGetPayload<{
+  include: typeof appointmentPartiesInclude;
+}>;
+
+const TIME_OF_DAY_PATTERN = /^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/;
+
+type MovableAppointment = {
+  id: string;
+  patientId: string;
+  doctorId: string;
+  timeSlotId: string | null;
+};
+
+const assertPatientFree = async (
+  tx: Prisma.TransactionClient,
+  appointment: MovableAppointment,
+  start: Date,
+  end: Date
+) => {
+  const conflict = await tx.appointment.findFirst({
+    where: {
+      id: { not: appointment.id },
+      patientId: appointment.patientId,
+      status: { in: ACTIVE_APPOINTMENT_STATUSES },
+      scheduledAt: { gte: start, lt: end },
+    },
+    select: { id: true },
+  });
+  if (conflict) {
+    throw new ApiError(409, "The patient already has an appointment at the new time");
+  }
+};
+
+const releaseSlot = async (tx: Prisma.TransactionClient, appointment: MovableAppointment) => {
+  if (appointment.timeSlotId) {
+    await tx.timeSlot.update({
+      where: { id: appointment.timeSlotId },
+      data: { status: TimeSlotStatus.AVAILABLE },
+    });
+  }
+};
+
+const updateMovedAppointment = async (
+  tx: Prisma.TransactionClient,
+  appointment: MovableAppointment,
+  data: Prisma.AppointmentUncheckedUpdateManyInput
+) => {
+  const updated = await tx.appointment.updateMany({
+    where: { id: appointment.id, status: { in: ACTIVE_APPOINTMENT_STATUSES } },
+    data: { ...data, icsSequence: { increment: 1 } },
+  });
+  if (updated.count === 0) {
+    throw new ApiError(409, "Appointment was changed in the meantime");
+  }
+
+  // Times proposed for the old schedule no longer apply
+  await tx.rescheduleProposal.updateMany({
+    where: { appointmentId: appointment.id, status: RescheduleProposalStatus.PENDING },
+    data: { status: RescheduleProposalStatus.SUPERSEDED, respondedAt: new Date() },
+  });
+};
+
+/**
+ * Moves the appointment onto `target`, an AVAILABLE slot of the same doctor,
+ * and frees the slot it held. The appointment takes the slot's fee; `data` is
+ * written to the appointment alongside.
+ */
+export const moveAppointmentToSlot = async (
+  tx: Prisma.TransactionClient,
+  appointment: MovableAppointment,
+  target: TimeSlot,
+  doctorTimeZone: string,
+  data: Prisma.AppointmentUncheckedUpdateManyInput = {}
+): Promise<TimeSlot> => {
+  if (target.doctorId !== appointment.doctorId) {
+    throw new ApiError(404, "Time slot not found");
+  }
+  if (target.status !== TimeSlotStatus.AVAILABLE || target.startTime <= new Date()) {
+    throw new ApiError(409, "This time slot is no longer available");
+  }
+  if (await findOverlappingBlackout(tx, target.doctorId, target.startTime, target.endTime)) {
+    throw new ApiError(409, "The doctor is unavailable at the new time");
+  }
+  if (await findOpenWaitlistOffer(tx, target.id)) {
+    throw new ApiError(409, "This time slot is being held for a waitlisted patient");
+  }
+  await assertSchedulingPolicy(tx, target.doctorId, target.startTime, target.endTime, doctorTimeZone, {
+    excludeAppointmentId: appointment.id,
+  });
+  await assertPatientFree(tx, appointment, target.startTime, target.endTime);
+
+  const claimed = await tx.timeSlot.updateMany({
+    where: { id: target.id, status: TimeSlotStatus.AVAILABLE },
+    data: { status: TimeSlotStatus.BOOKED },
+  });
+  if (claimed.count === 0) {
+    throw new ApiError(409, "This time slot is no longer available");
+  }
+
+  await releaseSlot(tx, appointment);
+  await updateMovedAppointment(tx, appointment, {
+    ...data,
+    timeSlotId: target.id,
+    consultationFee: target.consultationFee,
+    ...appointmentTimeFields(target.startTime, doctorTimeZone),
+  });
+
+  return target;
+};
+
+/**
+ * Moves the appointment to start at `scheduledAt`. A stored slot starting then is
+ * booked, otherwise a matching slot of one of the doctor's recurring rules is
+ * stored and booked; failing both the appointment is moved without a slot, the
+ * way direct bookings are made. Returns the booked slot, if any.
+ */
+export const moveAppointmentToTime = async (
+  tx: Prisma.TransactionClient,
+  appointment: MovableAppointment,
+  scheduledAt: Date,
+  doctorTimeZone: string,
+  data: Prisma.AppointmentUncheckedUpdateManyInput = {}
+): Promise<TimeSlot | null> => {
+  if (scheduledAt <= new Date()) {
+    throw new ApiError(409, "The new time has already passed");
+  }
+
+  const storedSlot = await tx.timeSlot.findUnique({
+    where: { doctorId_startTime: { doctorId: appointment.doctorId, startTime: scheduledAt } },
+  });
+  if (storedSlot) {
+    return moveAppointmentToSlot(tx, appointment, storedSlot, doctorTimeZone, data);
+  }
+
+  const [rules, exceptions, policy] = await Promise.all([
+    tx.availabilityRule.findMany({ where: { doctorId: appointment.doctorId, isActive: true } }),
+    tx.availabilityException.findMany({
+      where: {
+        doctorId: appointment.doctorId,
+        date: calendarDateInZone(scheduledAt, doctorTimeZone),
+      },
+    }),
+    getSchedulingPolicy(tx, appointment.doctorId),
+  ]);
+  const rule = rules.find((r) =>
+    findRuleSlot(r, exceptions, scheduledAt, doctorTimeZone, policy.bufferMinutes)
+  );
+  if (rule) {
+    const ruleSlot = await materializeRuleSlot(tx, rule.id, scheduledAt, appointment.doctorId);
+    return moveAppointmentToSlot(tx, appointment, ruleSlot, doctorTimeZone, data);
+  }
+
+  // Slotless visits are assumed to take DEFAULT_APPOINTMENT_MINUTES, like direct bookings
+  const visitEnd = new Date(scheduledAt.getTime() + DEFAULT_APPOINTMENT_MINUTES * 60 * 1000);
+  const instantEnd = new Date(scheduledAt.getTime() + 1);
+  if (await findOverlappingBlackout(tx, appointment.doctorId, scheduledAt, visitEnd)) {
+    throw new ApiError(409, "The doctor is unavailable at the new time");
+  }
+  const doctorConflict = await tx.appointment.findFirst({
+    where: {
+      id: { not: appointment.id },
+      doctorId: appointment.doctorId,
+      scheduledAt,
+      status: { in: ACTIVE_APPOINTMENT_STATUSES },
+    },
+    select: { id: true },
+  });
+  if (doctorConflict) {
+    throw new ApiError(409, "The doctor already has an appointment at the new time");
+  }
+  await assertSchedulingPolicy(tx, appointment.doctorId, scheduledAt, visitEnd, doctorTimeZone, {
+    excludeAppointmentId: appointment.id,
+  });
+  await assertPatientFree(tx, appointment, scheduledAt, instantEnd);
+
+  await releaseSlot(tx, appointment);
+  await updateMovedAppointment(tx, appointment, {
+    ...data,
+    timeSlotId: null,
+    consultationFee: await consultationFeeAt(tx, appointment.doctorId, scheduledAt, doctorTimeZone),
+    ...appointmentTimeFields(scheduledAt, doctorTimeZone),
+  });
+
+  return null;
+};
+
+/**
+ * Validates proposed times, each `{ timeSlotId }` for a slot of the doctor or
+ * `{ date: "YYYY-MM-DD", time: "HH:mm" }` in the doctor's time zone, and returns
+ * the option rows to store. Availability is checked again on acceptance.
+ */
+export const parseRescheduleOptions = async (
+  options: unknown,
+  doctorId: string,
+  doctorTimeZone: string
+): Promise<{ timeSlotId: string | null; scheduledAt: Date }[]> => {
+  if (!Array.isArray(options) || options.length === 0 || options.length > MAX_RESCHEDULE_OPTIONS) {
+    throw new ApiError(
+      400,
+      `options must be an array of 1 to ${MAX_RESCHEDULE_OPTIONS} { timeSlotId } or { date, time } entries`
+    );
+  }
+
+  const now = new Date();
+  const policy = await getSchedulingPolicy(prisma, doctorId);
+  const parsed: { timeSlotId: string | null; scheduledAt: Date }[] = [];
+
+  // Caps and buffers depend on other bookings and are checked on acceptance
+  const assertWithinPolicy = (start: Date, end: Date) => {
+    const violation = noticeViolation(policy, start, now) ?? workingHoursViolation(policy, start, end, doctorTimeZone);
+    if (violation) {
+      throw new ApiError(400, violation);
+    }
+  };
+
+  for (const option of options) {
+    if (option?.timeSlotId) {
+      const slot = await prisma.timeSlot.findFirst({
+        where: { id: String(option.timeSlotId), doctorId },
+      });
+      if (!slot) {
+        throw new ApiError(404, "Time slot not found");
+      }
+      if (slot.status !== TimeSlotStatus.AVAILABLE || slot.startTime <= now) {
+        throw new ApiError(409, "A proposed time slot is no longer available");
+      }
+      assertWithinPolicy(slot.startTime, slot.endTime);
+      parsed.push({ timeSlotId: slot.id, scheduledAt: slot.startTime });
+      continue;
+    }
+
+    const date = parseCalendarDate(option?.date);
+    if (!date || typeof option.time !== "string" || !TIME_OF_DAY_PATTERN.test(option.time)) {
+      throw new ApiError(400, "Each option needs a timeSlotId, or a date (YYYY-MM-DD) and time (HH:mm)");
+    }
+    const [hours, minutes] = option.time.split(":").map(Number);
+    const scheduledAt = zonedTimeToUtc(date, hours * 60 + minutes, doctorTimeZone);
+    if (scheduledAt <= now) {
+      throw new ApiError(400, "Proposed times must be in the future");
+    }
+    assertWithinPolicy(scheduledAt, new Date(scheduledAt.getTime() + DEFAULT_APPOINTMENT_MINUTES * 60 * 1000));
+    parsed.push({ timeSlotId: null, scheduledAt });
+  }
+
+  const instants = new Set(parsed.map((option) => option.scheduledAt.getTime()));
+  if (instants.size !== parsed.length) {
+    throw new ApiError(400, "Proposed times must be distinct");
+  }
+
+  return parsed;
+};
+
+/**
+ * Records a proposal to move the appointment to one of `options`, replacing any
+ * proposal still pending on it.
+ */
+export const createRescheduleProposal = async (
+  tx: Prisma.TransactionClient,
+  appointment: { id: string; scheduledAt: Date },
+  proposedBy: Role,
+  proposedByUserId: string,
+  options: { timeSlotId: string | null; scheduledAt: Date }[],
+  message?: string | null
+) => {
+  await tx.rescheduleProposal.updateMany({
+    where: { appointmentId: appointment.id, status: RescheduleProposalStatus.PENDING },
+    data: { status: RescheduleProposalStatus.SUPERSEDED, respondedAt: new Date() },
+  });
+
+  return tx.rescheduleProposal.create({
+    data: {
+      appointmentId: appointment.id,
+      proposedBy,
+      proposedByUserId,
+      message: message || null,
+      previousScheduledAt: appointment.scheduledAt,
+      options: { create: options },
+    },
+    include: { options: { orderBy: { scheduledAt: "asc" } } },
+  });
+};
+
+export const counterpartyOf = (appointment: AppointmentWithParties, party: Role) => {
+  return party === Role.PATIENT ? appointment.doctor.user : appointment.patient.user;
+};
+
+export const partyName = (appointment: AppointmentWithParties, party: Role) => {
+  return party === Role.PATIENT ? appointment.patient.user.name : `Dr. ${appointment.doctor.user.name}`;
+};
+
+/**
+ * Creates a proposal for `appointment` on behalf of `party` and notifies the other
+ * side. Shared with respondToAppointmentRequest, where the doctor counter-proposes.
+ */
+export const proposeAppointmentTimes = async (
+  appointment: AppointmentWithParties,
+  party: Role,
+  actorUserId: string,
+  options: unknown,
+  message?: string | null
+) => {
+  const parsedOptions = await parseRescheduleOptions(
+    options,
+    appointment.doctorId,
+    appointment.doctor.user.timeZone
+  );
+
+  const proposal = await prisma.$transaction((tx) =>
+    createRescheduleProposal(tx, appointment, party, actorUserId, parsedOptions, message)
+  );
+
+  const recipient = counterpartyOf(appointment, party);
+  const times = proposal.options
+    .map((option) => formatDateTimeInZone(option.scheduledAt, recipient.timeZone))
+    .join("; ");
+  let notificationMessage = `${partyName(appointment, party)} proposed moving your appointment to one of: ${times}.`;
+  if (message) {
+    notificationMessage += ` Message: ${message}`;
+  }
+
+  await prisma.notification.create({
+    data: {
+      userId: recipient.id,
+      type: "RESCHEDULE_PROPOSED",
+      title: "New Time Proposed",
+      message: notificationMessage,
+      appointmentId: appointment.id,
+    },
+  });
+
+  return proposal;
+};
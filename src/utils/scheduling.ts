@@ -0,0 +1,142 @@
+import { Prisma, TimeSlot } from "@prisma/client";
+import { ApiError } from "./ApiError";
+import { findRuleSlot, parseTimeOfDay } from "./availability";
+import { findOverlappingAppointments, getSchedulingPolicy, withBuffer } from "./schedulingPolicy";
+import {
+  calendarDateInZone,
+  parseCalendarDate,
+  toZonedDateString,
+  toZonedTimeString,
+} from "./timezone";
+
+// Database-bound booking helpers shared by the patient and doctor controllers.
+// They take a transaction client and throw ApiError; callers map it to a response.
+
+/**
+ * The doctor's blackout covering any part of [start, end), if there is one.
+ */
+export const findOverlappingBlackout = (
+  tx: Prisma.TransactionClient,
+  doctorId: string,
+  start: Date,
+  end: Date
+) => {
+  return tx.doctorBlackout.findFirst({
+    where: {
+      doctorId,
+      startsAt: { lt: end },
+      endsAt: { gt: start },
+    },
+  });
+};
+
+/**
+ * Stores the slot of a recurring availability rule that starts at `startTime` so
+ * it can be booked. Pass `doctorId` to only accept that doctor's rules. The
+ * (doctorId, startTime) unique index rejects a concurrent materialization with P2002.
+ */
+export const materializeRuleSlot = async (
+  tx: Prisma.TransactionClient,
+  ruleId: string,
+  startTime: Date,
+  doctorId?: string
+): Promise<TimeSlot> => {
+  const rule = await tx.availabilityRule.findFirst({
+    where: { id: ruleId, isActive: true, ...(doctorId && { doctorId }) },
+    include: { doctor: { select: { user: { select: { timeZone: true } } } } },
+  });
+  if (!rule) {
+    throw new ApiError(404, "Availability rule not found");
+  }
+
+  const timeZone = rule.doctor.user.timeZone;
+  const [exceptions, policy] = await Promise.all([
+    tx.availabilityException.findMany({
+      where: {
+        doctorId: rule.doctorId,
+        date: calendarDateInZone(startTime, timeZone),
+      },
+    }),
+    getSchedulingPolicy(tx, rule.doctorId),
+  ]);
+  const ruleSlot = findRuleSlot(rule, exceptions, startTime, timeZone, policy.bufferMinutes);
+  if (!ruleSlot || ruleSlot.startTime <= new Date()) {
+    throw new ApiError(400, "This time is not offered by the availability rule");
+  }
+
+  // Stored slots and appointments (direct bookings hold no slot) within the
+  // buffer block the rule slot as if they overlapped it
+  const buffered = withBuffer(policy, ruleSlot.startTime, ruleSlot.endTime);
+  const [overlapping, appointments] = await Promise.all([
+    tx.timeSlot.findFirst({
+      where: {
+        doctorId: rule.doctorId,
+        startTime: { lt: buffered.end },
+        endTime: { gt: buffered.start },
+      },
+      select: { id: true },
+    }),
+    findOverlappingAppointments(tx, rule.doctorId, buffered.start, buffered.end),
+  ]);
+  if (overlapping || appointments.length > 0) {
+    throw new ApiError(409, "This time slot is no longer available");
+  }
+
+  return tx.timeSlot.create({
+    data: {
+      doctorId: rule.doctorId,
+      startTime: ruleSlot.startTime,
+      endTime: ruleSlot.endTime,
+      consultationFee: ruleSlot.consultationFee,
+      availabilityRuleId: rule.id,
+    },
+  });
+};
+
+/**
+ * The consultation fee for a direct booking at `scheduledAt`: that of the
+ * doctor's stored slot or recurring rule covering the time, falling back to
+ * their most recent active rule as their standard fee, else 0.
+ */
+export const consultationFeeAt = async (
+  tx: Prisma.TransactionClient,
+  doctorId: string,
+  scheduledAt: Date,
+  doctorTimeZone: string
+): Promise<number> => {
+  const slot = await tx.timeSlot.findFirst({
+    where: { doctorId, startTime: { lte: scheduledAt }, endTime: { gt: scheduledAt } },
+    select: { consultationFee: true },
+  });
+  if (slot) {
+    return slot.consultationFee ?? 0;
+  }
+
+  const rules = await tx.availabilityRule.findMany({
+    where: { doctorId, isActive: true },
+    orderBy: { createdAt: "desc" },
+  });
+  const day = calendarDateInZone(scheduledAt, doctorTimeZone);
+  const minutes = parseTimeOfDay(toZonedTimeString(scheduledAt, doctorTimeZone))!;
+  const covering = rules.find(
+    (rule) =>
+      rule.daysOfWeek.includes(day.getUTCDay()) &&
+      day >= rule.validFrom &&
+      (!rule.validUntil || day <= rule.validUntil) &&
+      parseTimeOfDay(rule.startTime)! <= minutes &&
+      minutes < parseTimeOfDay(rule.endTime)!
+  );
+  return (covering ?? rules[0])?.consultationFee ?? 0;
+};
+
+/**
+ * The Appointment columns that describe when it takes place: the UTC instant plus
+ * the doctor-local calendar date and HH:mm kept for display.
+ */
+export const appointmentTimeFields = (scheduledAt: Date, doctorTimeZone: string) => {
+  return {
+    scheduledAt,
+    date: parseCalendarDate(toZonedDateString(scheduledAt, doctorTimeZone))!,
+    time: toZonedTimeString(scheduledAt, doctorTimeZone),
+  };
+};
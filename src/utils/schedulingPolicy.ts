@@ -0,0 +1,212 @@
+import { AppointmentStatus, DoctorSchedulingPolicy, Prisma } from "@prisma/client";
+import { ApiError } from "./ApiError";
+import { parseTimeOfDay } from "./availability";
+import { DEFAULT_APPOINTMENT_MINUTES } from "./ical";
+import {
+  calendarDateInZone,
+  toZonedDateString,
+  zonedDayBounds,
+  zonedTimeToUtc,
+} from "./timezone";
+
+// A doctor's booking limits (see the DoctorSchedulingPolicy model). The pure
+// checks return a message for the violated limit, or null; the database-bound
+// assertSchedulingPolicy throws ApiError like the helpers in ./scheduling.
+
+export type SchedulingPolicy = Pick<
+  DoctorSchedulingPolicy,
+  | "bufferMinutes"
+  | "maxAppointmentsPerDay"
+  | "minNoticeMinutes"
+  | "workdayStart"
+  | "workdayEnd"
+  | "workingDays"
+>;
+
+// What applies to a doctor who never set a policy
+export const DEFAULT_SCHEDULING_POLICY: SchedulingPolicy = {
+  bufferMinutes: 0,
+  maxAppointmentsPerDay: null,
+  minNoticeMinutes: 0,
+  workdayStart: null,
+  workdayEnd: null,
+  workingDays: [],
+};
+
+// Slots longer than this can't exist (see addTimeslot), which bounds how far
+// back an appointment can start and still reach into a buffer
+const MAX_VISIT_MINUTES = 180;
+
+const WEEKDAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+export const getSchedulingPolicy = async (
+  tx: Prisma.TransactionClient,
+  doctorId: string
+): Promise<SchedulingPolicy> => {
+  return (await tx.doctorSchedulingPolicy.findUnique({ where: { doctorId } })) ?? DEFAULT_SCHEDULING_POLICY;
+};
+
+/**
+ * "90 minutes", "2 hours", "1 day": how the notice period is worded in errors.
+ */
+export const formatMinutes = (minutes: number): string => {
+  const [value, unit] =
+    minutes % 1440 === 0 ? [minutes / 1440, "day"] : minutes % 60 === 0 ? [minutes / 60, "hour"] : [minutes, "minute"];
+  return `${value} ${unit}${value === 1 ? "" : "s"}`;
+};
+
+/**
+ * The doctor's PENDING/CONFIRMED appointments overlapping [start, end). An
+ * appointment ends with its slot, or DEFAULT_APPOINTMENT_MINUTES after it starts
+ * when booked directly.
+ */
+export const findOverlappingAppointments = async (
+  tx: Prisma.TransactionClient,
+  doctorId: string,
+  start: Date,
+  end: Date,
+  excludeAppointmentId?: string
+): Promise<{ id: string; scheduledAt: Date }[]> => {
+  const nearby = await tx.appointment.findMany({
+    where: {
+      doctorId,
+      status: { in: [AppointmentStatus.PENDING, AppointmentStatus.CONFIRMED] },
+      ...(excludeAppointmentId && { id: { not: excludeAppointmentId } }),
+      scheduledAt: {
+        gte: new Date(start.getTime() - MAX_VISIT_MINUTES * 60 * 1000),
+        lt: end,
+      },
+    },
+    select: { id: true, scheduledAt: true, timeSlot: { select: { endTime: true } } },
+  });
+  return nearby
+    .filter((appointment) => {
+      const appointmentEnd =
+        appointment.timeSlot?.endTime ??
+        new Date(appointment.scheduledAt.getTime() + DEFAULT_APPOINTMENT_MINUTES * 60 * 1000);
+      return appointment.scheduledAt < end && appointmentEnd > start;
+    })
+    .map(({ id, scheduledAt }) => ({ id, scheduledAt }));
+};
+
+/**
+ * [start, end) widened by the buffer on both sides. Anything overlapping it is
+ * too close to the visit.
+ */
+export const withBuffer = (policy: SchedulingPolicy, start: Date, end: Date): { start: Date; end: Date } => {
+  const bufferMs = policy.bufferMinutes * 60 * 1000;
+  return { start: new Date(start.getTime() - bufferMs), end: new Date(end.getTime() + bufferMs) };
+};
+
+export const noticeViolation = (policy: SchedulingPolicy, start: Date, now: Date = new Date()): string | null => {
+  if (start.getTime() >= now.getTime() + policy.minNoticeMinutes * 60 * 1000) return null;
+  if (policy.minNoticeMinutes === 0) return "This time has already passed";
+  return `This doctor must be booked at least ${formatMinutes(policy.minNoticeMinutes)} in advance`;
+};
+
+/**
+ * Whether [start, end) lies on a working day and inside the working hours, all
+ * in the doctor's time zone.
+ */
+export const workingHoursViolation = (
+  policy: SchedulingPolicy,
+  start: Date,
+  end: Date,
+  timeZone: string
+): string | null => {
+  const day = calendarDateInZone(start, timeZone);
+  if (policy.workingDays.length > 0 && !policy.workingDays.includes(day.getUTCDay())) {
+    return `This doctor does not work on ${WEEKDAY_NAMES[day.getUTCDay()]}s`;
+  }
+
+  const workdayStart = parseTimeOfDay(policy.workdayStart);
+  const workdayEnd = parseTimeOfDay(policy.workdayEnd);
+  if (workdayStart === null || workdayEnd === null) return null;
+
+  if (start < zonedTimeToUtc(day, workdayStart, timeZone) || end > zonedTimeToUtc(day, workdayEnd, timeZone)) {
+    return `This doctor only sees patients between ${policy.workdayStart} and ${policy.workdayEnd}`;
+  }
+  return null;
+};
+
+/**
+ * A weekly availability rule must fit inside the working days and hours.
+ */
+export const ruleWorkingHoursViolation = (
+  policy: SchedulingPolicy,
+  rule: { daysOfWeek: number[]; startTime: string; endTime: string }
+): string | null => {
+  if (policy.workingDays.length > 0 && rule.daysOfWeek.some((day) => !policy.workingDays.includes(day))) {
+    return `daysOfWeek must be working days (${policy.workingDays.map((day) => WEEKDAY_NAMES[day]).join(", ")})`;
+  }
+
+  const workdayStart = parseTimeOfDay(policy.workdayStart);
+  const workdayEnd = parseTimeOfDay(policy.workdayEnd);
+  if (workdayStart === null || workdayEnd === null) return null;
+
+  if (parseTimeOfDay(rule.startTime)! < workdayStart || parseTimeOfDay(rule.endTime)! > workdayEnd) {
+    return `The rule must fall within working hours (${policy.workdayStart}-${policy.workdayEnd})`;
+  }
+  return null;
+};
+
+/**
+ * Throws ApiError unless the doctor's policy allows an appointment over
+ * [start, end): enough notice, inside working hours, not overlapping another
+ * visit nor within the buffer of one, and under the daily cap. Pass `excludeAppointmentId` when moving an
+ * appointment so it isn't counted against itself.
+ */
+export const assertSchedulingPolicy = async (
+  tx: Prisma.TransactionClient,
+  doctorId: string,
+  start: Date,
+  end: Date,
+  timeZone: string,
+  { now = new Date(), excludeAppointmentId }: { now?: Date; excludeAppointmentId?: string } = {}
+): Promise<void> => {
+  const policy = await getSchedulingPolicy(tx, doctorId);
+
+  const violation = noticeViolation(policy, start, now) ?? workingHoursViolation(policy, start, end, timeZone);
+  if (violation) {
+    throw new ApiError(400, violation);
+  }
+
+  const otherActiveAppointments = {
+    doctorId,
+    status: { in: [AppointmentStatus.PENDING, AppointmentStatus.CONFIRMED] },
+    ...(excludeAppointmentId && { id: { not: excludeAppointmentId } }),
+  } satisfies Prisma.AppointmentWhereInput;
+
+  // Direct bookings fall at any minute, so visits are compared as time ranges
+  if ((await findOverlappingAppointments(tx, doctorId, start, end, excludeAppointmentId)).length > 0) {
+    throw new ApiError(409, "The doctor already has an appointment at this time");
+  }
+
+  if (policy.bufferMinutes > 0) {
+    const buffered = withBuffer(policy, start, end);
+    const tooClose = await findOverlappingAppointments(
+      tx,
+      doctorId,
+      buffered.start,
+      buffered.end,
+      excludeAppointmentId
+    );
+    if (tooClose.length > 0) {
+      throw new ApiError(
+        409,
+        `This doctor keeps ${formatMinutes(policy.bufferMinutes)} free between appointments`
+      );
+    }
+  }
+
+  if (policy.maxAppointmentsPerDay !== null) {
+    const day = calendarDateInZone(start, timeZone);
+    const { start: dayStart, end: dayEnd } = zonedDayBounds(day, timeZone);
+    const booked = await tx.appointment.count({
+      where: { ...otherActiveAppointments, scheduledAt: { gte: dayStart, lt: dayEnd } },
+    });
+    if (booked >= policy.maxAppointmentsPerDay) {
+      throw new ApiError(409, `This doctor is fully booked on ${toZonedDateString(start, timeZone)}`);
+    }
+  }
+};
@@ -0,0 +1,33 @@
+import { Prisma, TimeSlotStatus } from "@prisma/client";
+
+// How long a patient may keep a slot reserved while they finish booking
+export const SLOT_HOLD_MINUTES = Number(process.env.SLOT_HOLD_MINUTES) || 10;
+
+/**
+ * Slots `patientId` may hold or book: open ones, their own live hold, and holds
+ * that have lapsed but not yet been released by the sweep.
+ */
+export const bookableSlotWhere = (patientId: string, now: Date = new Date()) =>
+  ({
+    OR: [
+      { status: TimeSlotStatus.AVAILABLE },
+      { status: TimeSlotStatus.HELD, holdPatientId: patientId, holdExpiresAt: { gt: now } },
+      { status: TimeSlotStatus.HELD, holdExpiresAt: { lte: now } },
+    ],
+  }) satisfies Prisma.TimeSlotWhereInput;
+
+/**
+ * In-memory counterpart of bookableSlotWhere for a slot already loaded.
+ */
+export const isSlotBookableBy = (
+  slot: { status: TimeSlotStatus; holdPatientId: string | null; holdExpiresAt: Date | null },
+  patientId: string,
+  now: Date = new Date()
+): boolean => {
+  if (slot.status === TimeSlotStatus.AVAILABLE) return true;
+  if (slot.status !== TimeSlotStatus.HELD || !slot.holdExpiresAt) return false;
+  return slot.holdPatientId === patientId || slot.holdExpiresAt <= now;
+};
+
+// Clears the hold columns when a slot leaves the HELD state
+export const clearedHold = { holdPatientId: null, holdExpiresAt: null } as const;
@@ -0,0 +1,197 @@
+import { AppointmentStatus, Prisma, TimeSlotStatus } from "@prisma/client";
+import prisma from "./prismClient";
+import { DEFAULT_EXPANSION_DAYS, expandAvailabilityRules } from "./availability";
+import { openOfferWhere } from "./waitlist";
+import { DEFAULT_APPOINTMENT_MINUTES } from "./ical";
+import {
+  getSchedulingPolicy,
+  noticeViolation,
+  withBuffer,
+  workingHoursViolation,
+} from "./schedulingPolicy";
+import { calendarDateInZone, toZonedDateString, zonedDayBounds } from "./timezone";
+
+export interface BookableSlot {
+  // Set for stored slots; rule slots are booked with { ruleId, startTime } instead
+  id: string | null;
+  ruleId: string | null;
+  startTime: Date;
+  endTime: Date;
+  status: TimeSlotStatus;
+}
+
+/**
+ * The slots a patient can book with the doctor: open stored slots plus the
+ * virtual slots of recurring rules, minus blackouts, waitlist holds, direct
+ * bookings and whatever the doctor's scheduling policy rules out. `date` is a calendar day in the
+ * doctor's time zone; without it rules are expanded for the next
+ * DEFAULT_EXPANSION_DAYS and every open stored slot is included. Sorted by start.
+ */
+export const findBookableSlots = async (
+  doctorId: string,
+  timeZone: string,
+  date: Date | null,
+  now: Date = new Date()
+): Promise<BookableSlot[]> => {
+  const whereCondition: Prisma.TimeSlotWhereInput = {
+    doctorId,
+    // HELD slots are reserved for a patient who is mid-booking
+    status: TimeSlotStatus.AVAILABLE,
+    // Slots held for a waitlisted patient are not offered to anyone else
+    waitlistOffers: { none: openOfferWhere() },
+  };
+
+  let rangeStart = now;
+  let rangeEnd = new Date(now.getTime() + DEFAULT_EXPANSION_DAYS * 24 * 60 * 60 * 1000);
+
+  if (date) {
+    const { start: startOfDay, end: endOfDay } = zonedDayBounds(date, timeZone);
+
+    whereCondition.startTime = {
+      gte: startOfDay,
+      lt: endOfDay,
+    };
+
+    rangeStart = startOfDay > now ? startOfDay : now;
+    rangeEnd = endOfDay;
+  }
+
+  const [availableSlots, rules, exceptions, takenSlots, blackouts, policy] = await Promise.all([
+    prisma.timeSlot.findMany({
+      where: whereCondition,
+      orderBy: {
+        startTime: "asc",
+      },
+      select: {
+        id: true,
+        startTime: true,
+        endTime: true,
+        status: true,
+      },
+    }),
+    prisma.availabilityRule.findMany({
+      where: { doctorId, isActive: true },
+    }),
+    prisma.availabilityException.findMany({
+      where: {
+        doctorId,
+        date: {
+          gte: calendarDateInZone(rangeStart, timeZone),
+          lte: calendarDateInZone(rangeEnd, timeZone),
+        },
+      },
+    }),
+    // Any stored slot, booked or not, hides the rule slots it overlaps
+    prisma.timeSlot.findMany({
+      where: {
+        doctorId,
+        startTime: { lt: rangeEnd },
+        endTime: { gt: rangeStart },
+      },
+      select: { startTime: true, endTime: true },
+    }),
+    prisma.doctorBlackout.findMany({
+      where: {
+        doctorId,
+        endsAt: { gt: rangeStart },
+        ...(date && { startsAt: { lt: rangeEnd } }),
+      },
+      select: { startsAt: true, endsAt: true },
+    }),
+    getSchedulingPolicy(prisma, doctorId),
+  ]);
+
+  // Days that reached the doctor's daily cap offer nothing
+  const bookedPerDay = new Map<string, number>();
+  if (policy.maxAppointmentsPerDay !== null) {
+    const booked = await prisma.appointment.findMany({
+      where: {
+        doctorId,
+        status: { in: [AppointmentStatus.PENDING, AppointmentStatus.CONFIRMED] },
+        scheduledAt: {
+          gte: zonedDayBounds(calendarDateInZone(rangeStart, timeZone), timeZone).start,
+          lt: zonedDayBounds(calendarDateInZone(rangeEnd, timeZone), timeZone).end,
+        },
+      },
+      select: { scheduledAt: true },
+    });
+    for (const appointment of booked) {
+      const day = toZonedDateString(appointment.scheduledAt, timeZone);
+      bookedPerDay.set(day, (bookedPerDay.get(day) ?? 0) + 1);
+    }
+  }
+
+  // Direct bookings hold no slot but take DEFAULT_APPOINTMENT_MINUTES all the same
+  const visitMs = DEFAULT_APPOINTMENT_MINUTES * 60 * 1000;
+  const bufferMs = policy.bufferMinutes * 60 * 1000;
+  const directAppointments = await prisma.appointment.findMany({
+    where: {
+      doctorId,
+      timeSlotId: null,
+      status: { in: [AppointmentStatus.PENDING, AppointmentStatus.CONFIRMED] },
+      scheduledAt: {
+        gte: new Date(rangeStart.getTime() - visitMs - bufferMs),
+        lt: new Date(rangeEnd.getTime() + bufferMs),
+      },
+    },
+    select: { scheduledAt: true },
+  });
+
+  const fitsPolicy = (slot: { startTime: Date; endTime: Date }) =>
+    !noticeViolation(policy, slot.startTime, now) &&
+    !workingHoursViolation(policy, slot.startTime, slot.endTime, timeZone) &&
+    (policy.maxAppointmentsPerDay === null ||
+      (bookedPerDay.get(toZonedDateString(slot.startTime, timeZone)) ?? 0) < policy.maxAppointmentsPerDay);
+
+  const isBlackedOut = (slot: { startTime: Date; endTime: Date }) =>
+    blackouts.some(
+      (blackout) => blackout.startsAt < slot.endTime && blackout.endsAt > slot.startTime
+    );
+
+  const isTakenByDirectBooking = (slot: { startTime: Date; endTime: Date }) => {
+    const buffered = withBuffer(policy, slot.startTime, slot.endTime);
+    return directAppointments.some(
+      (appointment) =>
+        appointment.scheduledAt < buffered.end &&
+        appointment.scheduledAt.getTime() + visitMs > buffered.start.getTime()
+    );
+  };
+
+  const ruleSlots = expandAvailabilityRules(
+    rules,
+    exceptions,
+    rangeStart,
+    rangeEnd,
+    timeZone,
+    policy.bufferMinutes
+  ).filter((slot) => {
+    const buffered = withBuffer(policy, slot.startTime, slot.endTime);
+    return (
+      !isBlackedOut(slot) &&
+      fitsPolicy(slot) &&
+      !isTakenByDirectBooking(slot) &&
+      !takenSlots.some(
+        (taken) => taken.startTime < buffered.end && taken.endTime > buffered.start
+      )
+    );
+  });
+
+  return [
+    ...availableSlots
+      .filter((slot) => !isBlackedOut(slot) && fitsPolicy(slot) && !isTakenByDirectBooking(slot))
+      .map((slot) => ({
+        id: slot.id as string | null,
+        ruleId: null as string | null,
+        startTime: slot.startTime,
+        endTime: slot.endTime,
+        status: slot.status,
+      })),
+    ...ruleSlots.map((slot) => ({
+      id: null,
+      ruleId: slot.ruleId,
+      startTime: slot.startTime,
+      endTime: slot.endTime,
+      status: TimeSlotStatus.AVAILABLE,
+    })),
+  ].sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+};
@@ -0,0 +1,166 @@
+// Helpers for IANA time zones (e.g. "Asia/Kolkata"). Instants are always stored
+// and compared in UTC; a zone is only used to turn a wall-clock date/time into an
+// instant, or an instant into something a person in that zone can read.
+// Calendar dates with no time of day are represented as UTC midnight of that date,
+// the same way new Date("YYYY-MM-DD") parses them.
+export const DEFAULT_TIME_ZONE = "UTC";
+
+const CALENDAR_DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+export const isValidTimeZone = (value: unknown): value is string => {
+  if (typeof value !== "string" || value.trim() === "") return false;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+interface ZonedParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+const partsFormatters = new Map<string, Intl.DateTimeFormat>();
+
+const getZonedParts = (instant: Date, timeZone: string): ZonedParts => {
+  let formatter = partsFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+    partsFormatters.set(timeZone, formatter);
+  }
+
+  const parts: Record<string, number> = {};
+  for (const part of formatter.formatToParts(instant)) {
+    if (part.type !== "literal") parts[part.type] = Number(part.value);
+  }
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+  };
+};
+
+// How far ahead of UTC the zone's wall clock is at `instant`, in milliseconds
+const getOffsetMs = (instant: Date, timeZone: string): number => {
+  const parts = getZonedParts(instant, timeZone);
+  const wallClock = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute);
+  const truncated = Math.floor(instant.getTime() / 60000) * 60000;
+  return wallClock - truncated;
+};
+
+/**
+ * Parses "YYYY-MM-DD" into a calendar date (UTC midnight), or null if malformed.
+ */
+export const parseCalendarDate = (value: unknown): Date | null => {
+  if (typeof value !== "string") return null;
+  const match = CALENDAR_DATE_PATTERN.exec(value);
+  if (!match) return null;
+  const date = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+  if (date.getUTCMonth() !== Number(match[2]) - 1) return null;
+  return date;
+};
+
+/**
+ * The calendar date (UTC midnight) it is in `timeZone` at `instant`.
+ */
+export const calendarDateInZone = (instant: Date, timeZone: string): Date => {
+  const parts = getZonedParts(instant, timeZone);
+  return new Date(Date.UTC(parts.year, parts.month - 1, parts.day));
+};
+
+export const addCalendarDays = (date: Date, days: number): Date => {
+  const result = new Date(date);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result;
+};
+
+/**
+ * The instant at which the wall clock in `timeZone` shows `minutes` past midnight
+ * on `date` (a calendar date). Minutes may run past 24:00 into the next day. Wall
+ * times skipped by a DST jump are shifted forward by the jump (02:30 -> 03:30), and
+ * repeated ones resolve to their first occurrence.
+ */
+export const zonedTimeToUtc = (date: Date, minutes: number, timeZone: string): Date => {
+  const wallClock = date.getTime() + minutes * 60000;
+  const firstOffset = getOffsetMs(new Date(wallClock), timeZone);
+  const firstGuess = wallClock - firstOffset;
+  const secondOffset = getOffsetMs(new Date(firstGuess), timeZone);
+  if (secondOffset === firstOffset) {
+    return new Date(firstGuess);
+  }
+
+  const secondGuess = wallClock - secondOffset;
+  if (getOffsetMs(new Date(secondGuess), timeZone) === secondOffset) {
+    return new Date(secondGuess);
+  }
+  // The wall time falls in a DST gap
+  return new Date(Math.max(firstGuess, secondGuess));
+};
+
+/**
+ * Start (inclusive) and end (exclusive) instants of a calendar date in `timeZone`.
+ */
+export const zonedDayBounds = (date: Date, timeZone: string): { start: Date; end: Date } => {
+  return {
+    start: zonedTimeToUtc(date, 0, timeZone),
+    end: zonedTimeToUtc(addCalendarDays(date, 1), 0, timeZone),
+  };
+};
+
+const pad = (value: number): string => String(value).padStart(2, "0");
+
+/**
+ * "YYYY-MM-DD" of `instant` in `timeZone`.
+ */
+export const toZonedDateString = (instant: Date, timeZone: string): string => {
+  const parts = getZonedParts(instant, timeZone);
+  return `${parts.year}-${pad(parts.month)}-${pad(parts.day)}`;
+};
+
+/**
+ * "HH:mm" of `instant` in `timeZone`.
+ */
+export const toZonedTimeString = (instant: Date, timeZone: string): string => {
+  const parts = getZonedParts(instant, timeZone);
+  return `${pad(parts.hour)}:${pad(parts.minute)}`;
+};
+
+// Human-readable renderings for notifications, emails and PDFs
+
+export const formatDateInZone = (instant: Date, timeZone: string): string => {
+  return instant.toLocaleDateString("en-US", {
+    timeZone,
+    weekday: "short",
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+  });
+};
+
+export const formatTimeInZone = (instant: Date, timeZone: string): string => {
+  return instant.toLocaleTimeString("en-US", {
+    timeZone,
+    hour: "2-digit",
+    minute: "2-digit",
+    timeZoneName: "short",
+  });
+};
+
+export const formatDateTimeInZone = (instant: Date, timeZone: string): string => {
+  return `${formatDateInZone(instant, timeZone)} at ${formatTimeInZone(instant, timeZone)}`;
+};
@@ -0,0 +1,190 @@
+import { Prisma, TimeSlotStatus, WaitlistStatus } from "@prisma/client";
+import prisma from "./prismClient";
+import { findOverlappingBlackout } from "./scheduling";
+import { getSchedulingPolicy, noticeViolation, workingHoursViolation } from "./schedulingPolicy";
+import { calendarDateInZone, formatDateTimeInZone } from "./timezone";
+
+// How long a waitlisted patient has to claim a freed slot before it moves on
+export const WAITLIST_OFFER_TTL_MINUTES =
+  Number(process.env.WAITLIST_OFFER_TTL_MINUTES) || 30;
+
+// Candidates looked at per freed slot; each may lose a race to another offer
+const MAX_OFFER_ATTEMPTS = 5;
+
+/**
+ * Filter for offers that still hold their slot.
+ */
+export const openOfferWhere = (now: Date = new Date()) =>
+  ({
+    claimedAt: null,
+    declinedAt: null,
+    expiredAt: null,
+    expiresAt: { gt: now },
+  }) satisfies Prisma.WaitlistOfferWhereInput;
+
+/**
+ * The open offer holding `timeSlotId`, if any. Held slots are not bookable by
+ * anyone but the offered patient, through the claim endpoint.
+ */
+export const findOpenWaitlistOffer = (
+  tx: Prisma.TransactionClient,
+  timeSlotId: string
+) => {
+  return tx.waitlistOffer.findFirst({
+    where: { timeSlotId, ...openOfferWhere() },
+  });
+};
+
+/**
+ * Offers a freed slot to the longest-waiting patient whose date range covers it,
+ * holding it for WAITLIST_OFFER_TTL_MINUTES. Does nothing if the slot is not
+ * bookable or nobody matches. Errors are logged, not thrown, so callers can fire
+ * this after a cancellation without failing it.
+ */
+export const offerSlotToWaitlist = async (timeSlotId: string) => {
+  try {
+    const now = new Date();
+    const slot = await prisma.timeSlot.findUnique({
+      where: { id: timeSlotId },
+      include: { doctor: { select: { user: { select: { name: true, timeZone: true } } } } },
+    });
+    if (!slot || slot.status !== TimeSlotStatus.AVAILABLE || slot.startTime <= now) {
+      return null;
+    }
+    if (await findOverlappingBlackout(prisma, slot.doctorId, slot.startTime, slot.endTime)) {
+      return null;
+    }
+    if (await findOpenWaitlistOffer(prisma, slot.id)) {
+      return null;
+    }
+    // An offer the doctor's policy would refuse on claim is no use to anyone
+    const policy = await getSchedulingPolicy(prisma, slot.doctorId);
+    if (
+      noticeViolation(policy, slot.startTime, now) ||
+      workingHoursViolation(policy, slot.startTime, slot.endTime, slot.doctor.user.timeZone)
+    ) {
+      return null;
+    }
+
+    const slotDate = calendarDateInZone(slot.startTime, slot.doctor.user.timeZone);
+    const candidates = await prisma.waitlistEntry.findMany({
+      where: {
+        doctorId: slot.doctorId,
+        status: WaitlistStatus.WAITING,
+        AND: [
+          { OR: [{ earliestDate: null }, { earliestDate: { lte: slotDate } }] },
+          { OR: [{ latestDate: null }, { latestDate: { gte: slotDate } }] },
+        ],
+        // Each patient gets one chance at a given slot
+        offers: { none: { timeSlotId: slot.id } },
+      },
+      include: { patient: { select: { user: { select: { id: true, timeZone: true } } } } },
+      orderBy: { createdAt: "asc" },
+      take: MAX_OFFER_ATTEMPTS,
+    });
+
+    for (const entry of candidates) {
+      const offer = await prisma.$transaction(async (tx) => {
+        const taken = await tx.waitlistEntry.updateMany({
+          where: { id: entry.id, status: WaitlistStatus.WAITING },
+          data: { status: WaitlistStatus.OFFERED },
+        });
+        if (taken.count === 0) {
+          return null;
+        }
+        return tx.waitlistOffer.create({
+          data: {
+            entryId: entry.id,
+            timeSlotId: slot.id,
+            expiresAt: new Date(now.getTime() + WAITLIST_OFFER_TTL_MINUTES * 60 * 1000),
+          },
+        });
+      });
+      if (!offer) continue;
+
+      const timeZone = entry.patient.user.timeZone;
+      await prisma.notification.create({
+        data: {
+          userId: entry.patient.user.id,
+          type: "WAITLIST_OFFER",
+          title: "A slot opened up",
+          message: `A slot with Dr. ${slot.doctor.user.name} on ${formatDateTimeInZone(slot.startTime, timeZone)} is being held for you. Claim it before ${formatDateTimeInZone(offer.expiresAt, timeZone)} or it goes to the next patient on the waitlist.`,
+        },
+      });
+      return offer;
+    }
+
+    return null;
+  } catch (error) {
+    console.error("Failed to offer freed slot to waitlist:", error);
+    return null;
+  }
+};
+
+/**
+ * Closes an open offer as declined or expired, puts the patient back in the
+ * queue (keeping their place) and offers the slot to the next patient.
+ */
+export const releaseWaitlistOffer = async (
+  offerId: string,
+  reason: "declined" | "expired"
+): Promise<boolean> => {
+  const now = new Date();
+  const offer = await prisma.waitlistOffer.findUnique({ where: { id: offerId } });
+  if (!offer) {
+    return false;
+  }
+
+  const released = await prisma.$transaction(async (tx) => {
+    const result = await tx.waitlistOffer.updateMany({
+      where: { id: offer.id, claimedAt: null, declinedAt: null, expiredAt: null },
+      data: reason === "declined" ? { declinedAt: now } : { expiredAt: now },
+    });
+    if (result.count === 0) {
+      return false;
+    }
+    await tx.waitlistEntry.updateMany({
+      where: { id: offer.entryId, status: WaitlistStatus.OFFERED },
+      data: { status: WaitlistStatus.WAITING },
+    });
+    return true;
+  });
+
+  if (released) {
+    await offerSlotToWaitlist(offer.timeSlotId);
+  }
+  return released;
+};
+
+/**
+ * Closes the open offers on a slot that is going away and tells the patients.
+ * Their waitlist entries go back to WAITING.
+ */
+export const withdrawSlotOffers = async (
+  tx: Prisma.TransactionClient,
+  timeSlotId: string
+) => {
+  const offers = await tx.waitlistOffer.findMany({
+    where: { timeSlotId, ...openOfferWhere() },
+    include: { entry: { include: { patient: { select: { userId: true } } } } },
+  });
+
+  for (const offer of offers) {
+    await tx.waitlistOffer.update({
+      where: { id: offer.id },
+      data: { expiredAt: new Date() },
+    });
+    await tx.waitlistEntry.updateMany({
+      where: { id: offer.entryId, status: WaitlistStatus.OFFERED },
+      data: { status: WaitlistStatus.WAITING },
+    });
+    await tx.notification.create({
+      data: {
+        userId: offer.entry.patient.userId,
+        type: "WAITLIST_OFFER_WITHDRAWN",
+        title: "Offered slot no longer available",
+        message: "The doctor removed the slot that was being held for you. You are still on the waitlist.",
+      },
+    });
+  }
+};